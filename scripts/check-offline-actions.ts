@@ -0,0 +1,154 @@
+/**
+ * Replays queued offline actions against a `MemoryStore` and stand-ins for
+ * the storage calls, and checks what reaches the server and what is kept.
+ * Needs no database: `npm run offline:check`.
+ */
+import assert from 'node:assert/strict';
+import { OfflineActions } from '../src/utils/offlineActions';
+import { applicationStorage, attendanceStorage, jobStorage } from '../src/utils/storage';
+import { MemoryStore, setOfflineStore } from '../src/lib/offlineStore';
+import { Application, Job } from '../src/types';
+
+const openJob: Job = {
+  id: 'job-1',
+  farmerId: 'farmer-1',
+  farmerName: 'Ram',
+  title: 'Rice planting',
+  description: 'Planting the lower terraces',
+  preferredDate: '2025-08-10',
+  wage: 1200,
+  wageType: 'per-day',
+  duration: 2,
+  durationType: 'days',
+  location: 'Chitwan',
+  requiredWorkers: 2,
+  acceptedWorkerIds: [],
+  createdAt: '2025-08-01T06:00:00.000Z',
+  status: 'open'
+};
+
+const application: Application = {
+  id: 'app-1',
+  jobId: 'job-1',
+  workerId: 'worker-1',
+  workerName: 'Sita',
+  workerEmail: 'sita@example.test',
+  status: 'pending',
+  appliedAt: '2025-08-02T06:00:00.000Z'
+};
+
+// navigator.onLine is all OfflineActions reads to tell whether there is signal
+const setSignal = (onLine: boolean) => {
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine }, configurable: true });
+};
+
+// Stands in for the storage calls OfflineActions makes and records them in order.
+// Calls listed in `refusals` return that error instead of succeeding.
+const stubServer = (job: Job = openJob) => {
+  const calls: { call: string; recordedAt?: string }[] = [];
+  const refusals = new Map<string, string>();
+  const reply = (call: string, recordedAt?: string) => {
+    calls.push({ call, recordedAt });
+    const error = refusals.get(call);
+    return error ? { success: false, error } : { success: true };
+  };
+
+  jobStorage.getJob = async () => job;
+  applicationStorage.saveApplication = async saved => reply(`apply ${saved.jobId}`);
+  applicationStorage.updateApplication = async applicationId => reply(`reapply ${applicationId}`);
+  applicationStorage.withdrawApplication = async applicationId => reply(`withdraw ${applicationId}`);
+  attendanceStorage.checkIn = async (jobId, _location, recordedAt) => reply(`check-in ${jobId}`, recordedAt);
+  attendanceStorage.checkOut = async (jobId, _location, recordedAt) => reply(`check-out ${jobId}`, recordedAt);
+
+  return { calls, refusals };
+};
+
+const checks: [string, () => Promise<void>][] = [
+  ['queues actions without signal and replays them in the order they were taken', async () => {
+    setOfflineStore(new MemoryStore());
+    const server = stubServer();
+    setSignal(false);
+
+    assert.deepEqual(
+      await OfflineActions.run('worker-1', { kind: 'check-in', jobId: 'job-1', jobTitle: 'Rice planting' }),
+      { success: true, queued: true }
+    );
+    await OfflineActions.run('worker-1', { kind: 'withdraw', jobId: 'job-2', jobTitle: 'Weeding', applicationId: 'app-2' });
+    await OfflineActions.run('worker-1', { kind: 'apply', jobId: 'job-1', jobTitle: 'Rice planting', application, isReapply: false });
+    assert.equal(server.calls.length, 0);
+    const [checkIn] = await OfflineActions.getQueued('worker-1');
+
+    setSignal(true);
+    assert.deepEqual(await OfflineActions.replay('worker-1'), { replayed: 3, conflicts: [] });
+    assert.deepEqual(server.calls.map(({ call }) => call), ['check-in job-1', 'withdraw app-2', 'apply job-1']);
+    // The check-in keeps the time it was taken, not the time it reached the server
+    assert.equal(server.calls[0].recordedAt, checkIn.queuedAt);
+    assert.deepEqual(await OfflineActions.getQueued('worker-1'), []);
+  }],
+
+  ['drops a queued application when the job filled in the meantime', async () => {
+    setOfflineStore(new MemoryStore());
+    const server = stubServer({ ...openJob, status: 'filled', acceptedWorkerIds: ['worker-2', 'worker-3'] });
+    setSignal(true);
+    await OfflineActions.enqueue('worker-1', { kind: 'apply', jobId: 'job-1', jobTitle: 'Rice planting', application, isReapply: false });
+
+    const { replayed, conflicts } = await OfflineActions.replay('worker-1');
+
+    assert.equal(replayed, 0);
+    assert.equal(conflicts[0].action.kind, 'apply');
+    assert.equal(conflicts[0].error, 'All positions were filled before your application was sent.');
+    assert.equal(server.calls.length, 0);
+    assert.deepEqual(await OfflineActions.getQueued('worker-1'), []);
+  }],
+
+  ['stops when the signal drops again and keeps the rest queued', async () => {
+    setOfflineStore(new MemoryStore());
+    const server = stubServer();
+    setSignal(true);
+    await OfflineActions.enqueue('worker-1', { kind: 'check-in', jobId: 'job-1', jobTitle: 'Rice planting' });
+    await OfflineActions.enqueue('worker-1', { kind: 'check-out', jobId: 'job-1', jobTitle: 'Rice planting' });
+    await OfflineActions.enqueue('worker-1', { kind: 'withdraw', jobId: 'job-2', jobTitle: 'Weeding', applicationId: 'app-2' });
+    server.refusals.set('check-out job-1', 'Failed to fetch');
+
+    assert.deepEqual(await OfflineActions.replay('worker-1'), { replayed: 1, conflicts: [] });
+    assert.deepEqual((await OfflineActions.getQueued('worker-1')).map(action => action.kind), ['check-out', 'withdraw']);
+
+    server.refusals.clear();
+    assert.deepEqual(await OfflineActions.replay('worker-1'), { replayed: 2, conflicts: [] });
+    assert.deepEqual(server.calls.map(({ call }) => call), ['check-in job-1', 'check-out job-1', 'check-out job-1', 'withdraw app-2']);
+  }],
+
+  ['drops actions the server refuses and carries on with the rest', async () => {
+    setOfflineStore(new MemoryStore());
+    const server = stubServer();
+    setSignal(true);
+    await OfflineActions.enqueue('worker-1', { kind: 'check-in', jobId: 'job-1', jobTitle: 'Rice planting' });
+    await OfflineActions.enqueue('worker-1', { kind: 'check-out', jobId: 'job-1', jobTitle: 'Rice planting' });
+    server.refusals.set('check-in job-1', 'You have already checked in today.');
+
+    const { replayed, conflicts } = await OfflineActions.replay('worker-1');
+
+    assert.equal(replayed, 1);
+    assert.deepEqual(conflicts.map(({ action, error }) => [action.kind, error]), [['check-in', 'You have already checked in today.']]);
+    assert.deepEqual(server.calls.map(({ call }) => call), ['check-in job-1', 'check-out job-1']);
+    assert.deepEqual(await OfflineActions.getQueued('worker-1'), []);
+  }]
+];
+
+let failures = 0;
+for (const [name, check] of checks) {
+  try {
+    await check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`not ok - ${name}`);
+    console.error(error);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${checks.length} offline action checks failed`);
+  process.exit(1);
+}
+console.log(`All ${checks.length} offline action checks passed`);
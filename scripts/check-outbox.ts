@@ -0,0 +1,145 @@
+/**
+ * Runs the outbox dispatcher against a `LocalOutbox` and checks where each
+ * message ends up. Needs no database: `npm run outbox:check`.
+ */
+import assert from 'node:assert/strict';
+import { DeliveryChannel, LocalOutbox, dispatchOutbox } from '../src/lib/delivery';
+import { createMockPushService, webPushChannel, bytesToBase64Url, WebPushSubscription } from '../src/lib/webPush';
+import { RenderedMessage } from '../src/utils/notificationTemplates';
+import { NotificationChannel } from '../src/types';
+
+// Keeps what it was given, and rejects recipients listed in `refuse`
+const recordingChannel = (refuse: string[] = []) => {
+  const sent: { recipient?: string; rendered: RenderedMessage }[] = [];
+  const channel: DeliveryChannel = {
+    send: async (message, rendered) => {
+      if (message.recipient && refuse.includes(message.recipient)) {
+        throw new Error(`Provider refused ${message.recipient}`);
+      }
+      sent.push({ recipient: message.recipient, rendered });
+    }
+  };
+  return { channel, sent };
+};
+
+const createSubscription = async (endpoint: string): Promise<WebPushSubscription> => {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  return {
+    endpoint,
+    p256dh: bytesToBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey))),
+    auth: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16)))
+  };
+};
+
+const createVapidKeys = async () => {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']);
+  const jwk = await crypto.subtle.exportKey('jwk', keys.privateKey);
+  return {
+    publicKey: bytesToBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey))),
+    privateKey: jwk.d!,
+    subject: 'mailto:outbox-check@example.test'
+  };
+};
+
+const checks: [string, () => Promise<void>][] = [
+  ['renders and sends each message on its channel', async () => {
+    const outbox = new LocalOutbox();
+    const email = recordingChannel();
+    const sms = recordingChannel();
+    outbox.enqueue({ userId: 'u1', channel: 'email', template: 'welcome', recipient: 'sita@example.test', payload: { name: 'Sita' } });
+    outbox.enqueue({ userId: 'u2', channel: 'sms', template: 'application_accepted', recipient: '+9779800000000', payload: { title: 'Hired for rice planting', body: 'Starts at 7am.' } });
+
+    const result = await dispatchOutbox(outbox, { email: email.channel, sms: sms.channel });
+
+    assert.deepEqual(result, { sent: 2, failed: 0 });
+    assert.equal(email.sent[0].rendered.subject, 'Welcome to Kheticulture');
+    assert.match(email.sent[0].rendered.text, /Hi Sita/);
+    assert.match(sms.sent[0].rendered.text, /^Kheticulture: Good news! Hired for rice planting\. Starts at 7am\.$/);
+    assert.ok(outbox.messages.every(message => message.status === 'sent'));
+  }],
+
+  ['retries refused messages until they run out of attempts', async () => {
+    const outbox = new LocalOutbox(2);
+    const email = recordingChannel(['bounce@example.test']);
+    const message = outbox.enqueue({ userId: 'u1', channel: 'email', template: 'welcome', recipient: 'bounce@example.test', payload: {} });
+
+    assert.deepEqual(await dispatchOutbox(outbox, { email: email.channel }), { sent: 0, failed: 1 });
+    assert.equal(outbox.messages.find(row => row.id === message.id)?.status, 'pending');
+
+    await dispatchOutbox(outbox, { email: email.channel });
+    const row = outbox.messages.find(existing => existing.id === message.id);
+    assert.equal(row?.status, 'failed');
+    assert.equal(row?.attempts, 2);
+    assert.equal(row?.lastError, 'Provider refused bounce@example.test');
+  }],
+
+  ['keeps messages for channels that are not configured', async () => {
+    const outbox = new LocalOutbox();
+    outbox.enqueue({ userId: 'u1', channel: 'sms', template: 'welcome', recipient: '+9779800000000', payload: {} });
+
+    assert.deepEqual(await dispatchOutbox(outbox, {}), { sent: 0, failed: 1 });
+    const [row] = outbox.messages;
+    assert.equal(row.status, 'pending');
+    assert.equal(row.lastError, 'No sms channel configured');
+
+    const sms = recordingChannel();
+    assert.deepEqual(await dispatchOutbox(outbox, { sms: sms.channel }), { sent: 1, failed: 0 });
+  }],
+
+  ['only claims up to the limit per run', async () => {
+    const outbox = new LocalOutbox();
+    const email = recordingChannel();
+    for (let i = 0; i < 3; i++) {
+      outbox.enqueue({ userId: `u${i}`, channel: 'email', template: 'welcome', recipient: `w${i}@example.test`, payload: {} });
+    }
+
+    assert.deepEqual(await dispatchOutbox(outbox, { email: email.channel }, 2), { sent: 2, failed: 0 });
+    assert.deepEqual(await dispatchOutbox(outbox, { email: email.channel }, 2), { sent: 1, failed: 0 });
+    assert.deepEqual(email.sent.map(sent => sent.recipient), ['w0@example.test', 'w1@example.test', 'w2@example.test']);
+  }],
+
+  ['pushes to every device and drops expired ones', async () => {
+    const pushService = createMockPushService();
+    const devices = [await createSubscription(pushService.endpoint()), await createSubscription(pushService.endpoint())];
+    pushService.expire(devices[1].endpoint);
+    const removed: string[] = [];
+
+    const push = webPushChannel(
+      {
+        getSubscriptions: async () => devices,
+        remove: async endpoint => {
+          removed.push(endpoint);
+        }
+      },
+      await createVapidKeys(),
+      { fetch: pushService.fetch }
+    );
+
+    const outbox = new LocalOutbox();
+    outbox.enqueue({ userId: 'u1', channel: 'push', template: 'new_applicant', payload: { title: 'New applicant', job_id: 'job-1', user_type: 'farmer' } });
+
+    const channels: Partial<Record<NotificationChannel, DeliveryChannel>> = { push };
+    assert.deepEqual(await dispatchOutbox(outbox, channels), { sent: 1, failed: 0 });
+    assert.deepEqual(pushService.requests.map(request => request.endpoint), devices.map(device => device.endpoint));
+    assert.match(pushService.requests[0].headers.Authorization, /^vapid t=.+, k=.+$/);
+    assert.deepEqual(removed, [devices[1].endpoint]);
+  }]
+];
+
+let failures = 0;
+for (const [name, check] of checks) {
+  try {
+    await check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`not ok - ${name}`);
+    console.error(error);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${checks.length} outbox checks failed`);
+  process.exit(1);
+}
+console.log(`All ${checks.length} outbox checks passed`);
@@ -0,0 +1,182 @@
+/**
+ * Emits row changes through a `LocalRealtime` and checks how the realtime
+ * hooks fold them into the lists on screen. Needs no database:
+ * `npm run realtime:check`.
+ */
+import assert from 'node:assert/strict';
+import { LocalRealtime, RealtimeChange, RealtimeRow, RealtimeSubscription, RealtimeTable, getRealtimeSource, setRealtimeSource } from '../src/lib/realtime';
+import { applyApplicationChange, applyJobFeedChange, applyNotificationChange } from '../src/hooks/useRealtime';
+import { AppNotification, Application, Job, JobSearchQuery } from '../src/types';
+
+const jobRow = (overrides: Partial<RealtimeRow<'jobs'>> = {}): RealtimeRow<'jobs'> => ({
+  id: 'job-1',
+  farmer_id: 'farmer-1',
+  farmer_name: 'Ram',
+  title: 'Rice planting',
+  description: 'Planting the lower terraces',
+  preferred_date: '2025-08-10',
+  wage: 1200,
+  duration: 2,
+  duration_type: 'days',
+  wage_type: 'per-day',
+  wage_unit: null,
+  estimated_units: null,
+  location: 'Chitwan',
+  required_workers: 2,
+  accepted_worker_ids: [],
+  status: 'open',
+  created_at: '2025-08-01T06:00:00.000Z',
+  updated_at: '2025-08-01T06:00:00.000Z',
+  deleted_at: null,
+  deletion_reason: null,
+  waitlist_enabled: false,
+  latitude: null,
+  longitude: null,
+  ...overrides
+});
+
+const applicationRow = (overrides: Partial<RealtimeRow<'applications'>> = {}): RealtimeRow<'applications'> => ({
+  id: 'app-1',
+  job_id: 'job-1',
+  worker_id: 'worker-1',
+  worker_name: 'Sita',
+  worker_email: 'sita@example.test',
+  message: null,
+  status: 'pending',
+  applied_at: '2025-08-02T06:00:00.000Z',
+  rejected_at: null,
+  created_at: '2025-08-02T06:00:00.000Z',
+  updated_at: '2025-08-02T06:00:00.000Z',
+  withdrawn_at: null,
+  withdrawal_reason: null,
+  availability_note: null,
+  proposed_wage: null,
+  proposal_status: null,
+  agreed_wage: null,
+  accepted_at: null,
+  shortlisted_at: null,
+  waitlist_position: null,
+  offered_at: null,
+  offer_expires_at: null,
+  ...overrides
+});
+
+const notificationRow = (overrides: Partial<RealtimeRow<'notifications'>> = {}): RealtimeRow<'notifications'> => ({
+  id: 'note-1',
+  user_id: 'worker-1',
+  type: 'application_accepted',
+  title: 'You were hired',
+  body: null,
+  job_id: 'job-1',
+  read_at: null,
+  created_at: '2025-08-03T06:00:00.000Z',
+  ...overrides
+});
+
+// Subscribes like the hooks do and keeps the list the way their state setters would
+const follow = <T extends RealtimeTable, Item>(
+  subscription: RealtimeSubscription<T>,
+  apply: (items: Item[], change: RealtimeChange<T>) => Item[]
+) => {
+  const list = { items: [] as Item[] };
+  const unsubscribe = getRealtimeSource().subscribe(subscription, change => {
+    list.items = apply(list.items, change);
+  });
+  return { list, unsubscribe };
+};
+
+const checks: [string, () => void][] = [
+  ['adds matching jobs newest first and drops jobs that stop matching', () => {
+    const realtime = new LocalRealtime();
+    setRealtimeSource(realtime);
+    const query: JobSearchQuery = { statuses: ['open'], minWage: 1000 };
+    const { list } = follow<'jobs', Job>({ table: 'jobs' }, (jobs, change) => applyJobFeedChange(jobs, change, query));
+
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow(), old: null });
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'job-2', created_at: '2025-08-02T06:00:00.000Z' }), old: null });
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'job-3', wage: 800 }), old: null });
+    assert.deepEqual(list.items.map(job => job.id), ['job-2', 'job-1']);
+
+    realtime.emit({ table: 'jobs', eventType: 'UPDATE', new: jobRow({ title: 'Rice planting, two days' }), old: { id: 'job-1' } });
+    assert.equal(list.items.find(job => job.id === 'job-1')?.title, 'Rice planting, two days');
+
+    realtime.emit({ table: 'jobs', eventType: 'UPDATE', new: jobRow({ id: 'job-2', status: 'filled' }), old: { id: 'job-2' } });
+    realtime.emit({ table: 'jobs', eventType: 'DELETE', new: null, old: { id: 'job-1' } });
+    assert.deepEqual(list.items, []);
+  }],
+
+  ['keeps distance feeds nearest first and inside the radius', () => {
+    const realtime = new LocalRealtime();
+    setRealtimeSource(realtime);
+    const query: JobSearchQuery = { near: { lat: 27.7, lng: 85.3, radiusKm: 10 } };
+    const { list } = follow<'jobs', Job>({ table: 'jobs' }, (jobs, change) => applyJobFeedChange(jobs, change, query));
+
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'far', latitude: 27.75, longitude: 85.3 }), old: null });
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'near', latitude: 27.701, longitude: 85.3 }), old: null });
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'outside', latitude: 28.2, longitude: 85.3 }), old: null });
+    realtime.emit({ table: 'jobs', eventType: 'INSERT', new: jobRow({ id: 'unpinned' }), old: null });
+
+    assert.deepEqual(list.items.map(job => job.id), ['near', 'far']);
+  }],
+
+  ['only passes on changes that match the subscription filter', () => {
+    const realtime = new LocalRealtime();
+    setRealtimeSource(realtime);
+    const { list, unsubscribe } = follow<'applications', Application>(
+      { table: 'applications', column: 'job_id', values: ['job-1'] },
+      applyApplicationChange
+    );
+
+    realtime.emit({ table: 'applications', eventType: 'INSERT', new: applicationRow(), old: null });
+    realtime.emit({ table: 'applications', eventType: 'INSERT', new: applicationRow({ id: 'app-2', job_id: 'job-2' }), old: null });
+    realtime.emit({ table: 'applications', eventType: 'UPDATE', new: applicationRow({ status: 'accepted' }), old: { id: 'app-1' } });
+    assert.deepEqual(list.items.map(application => [application.id, application.status]), [['app-1', 'accepted']]);
+
+    unsubscribe();
+    assert.equal(realtime.subscriberCount, 0);
+    realtime.emit({ table: 'applications', eventType: 'INSERT', new: applicationRow({ id: 'app-3' }), old: null });
+    assert.equal(list.items.length, 1);
+  }],
+
+  ['puts new notifications on top and updates read ones in place', () => {
+    const realtime = new LocalRealtime();
+    setRealtimeSource(realtime);
+    const { list } = follow<'notifications', AppNotification>(
+      { table: 'notifications', column: 'user_id', values: ['worker-1'] },
+      applyNotificationChange
+    );
+
+    realtime.emit({ table: 'notifications', eventType: 'INSERT', new: notificationRow(), old: null });
+    realtime.emit({ table: 'notifications', eventType: 'INSERT', new: notificationRow({ id: 'note-2', title: 'New message' }), old: null });
+    realtime.emit({
+      table: 'notifications',
+      eventType: 'UPDATE',
+      new: notificationRow({ read_at: '2025-08-03T07:00:00.000Z' }),
+      old: { id: 'note-1' }
+    });
+
+    assert.deepEqual(list.items.map(notification => notification.id), ['note-2', 'note-1']);
+    assert.ok(list.items[1].readAt);
+
+    realtime.emit({ table: 'notifications', eventType: 'DELETE', new: null, old: { id: 'note-2', user_id: 'worker-1' } });
+    assert.deepEqual(list.items.map(notification => notification.id), ['note-1']);
+  }]
+];
+
+let failures = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`not ok - ${name}`);
+    console.error(error);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${checks.length} realtime checks failed`);
+  process.exit(1);
+}
+console.log(`All ${checks.length} realtime checks passed`);
@@ -0,0 +1,77 @@
+/**
+ * Sends queued outbox messages. Run with `npm run outbox:dispatch`, or
+ * `npm run outbox:dispatch -- --watch` to keep polling.
+ *
+ * Needs `SUPABASE_URL` (or `VITE_SUPABASE_URL`) and
+ * `SUPABASE_SERVICE_ROLE_KEY`. Email and SMS go to `EMAIL_WEBHOOK_URL` and
+ * `SMS_WEBHOOK_URL`, and push needs the `VAPID_*` keys; a channel without
+ * its settings prints to the console instead, which is what local runs use.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../src/lib/database.types';
+import { DeliveryChannel, consoleChannel, createSupabaseOutbox, dispatchOutbox, webhookChannel } from '../src/lib/delivery';
+import { createSupabasePushSubscriptions, webPushChannel } from '../src/lib/webPush';
+import { NotificationChannel } from '../src/types';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+
+const env = process.env;
+const supabaseUrl = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to dispatch the outbox.');
+  process.exit(1);
+}
+
+const client = createClient<Database>(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+const webhookHeaders: Record<string, string> = env.WEBHOOK_TOKEN ? { Authorization: `Bearer ${env.WEBHOOK_TOKEN}` } : {};
+
+const channels: Record<NotificationChannel, DeliveryChannel> = {
+  email: env.EMAIL_WEBHOOK_URL ? webhookChannel(env.EMAIL_WEBHOOK_URL, webhookHeaders) : consoleChannel('email'),
+  sms: env.SMS_WEBHOOK_URL ? webhookChannel(env.SMS_WEBHOOK_URL, webhookHeaders) : consoleChannel('sms'),
+  push:
+    env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY && env.VAPID_SUBJECT
+      ? webPushChannel(createSupabasePushSubscriptions(client), {
+          publicKey: env.VAPID_PUBLIC_KEY,
+          privateKey: env.VAPID_PRIVATE_KEY,
+          subject: env.VAPID_SUBJECT
+        })
+      : consoleChannel('push')
+};
+
+const outbox = createSupabaseOutbox(client);
+
+// Keeps claiming until a batch comes back short, so a backlog drains in one run
+const drain = async () => {
+  let total = { sent: 0, failed: 0 };
+  for (;;) {
+    const result = await dispatchOutbox(outbox, channels, BATCH_SIZE);
+    total = { sent: total.sent + result.sent, failed: total.failed + result.failed };
+    if (result.sent + result.failed < BATCH_SIZE) return total;
+  }
+};
+
+const run = async () => {
+  const { sent, failed } = await drain();
+  if (sent > 0 || failed > 0) {
+    console.log(`Outbox: ${sent} sent, ${failed} failed (failed messages are retried later)`);
+  }
+};
+
+if (process.argv.includes('--watch')) {
+  for (;;) {
+    try {
+      await run();
+    } catch (error) {
+      console.error('Error dispatching outbox:', error);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+} else {
+  await run();
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { NotificationProvider } from './context/NotificationContext';
+import { OfflineProvider } from './context/OfflineContext';
 import { Layout } from './components/Layout';
 import { AuthPage } from './pages/AuthPage';
 import { HomePage } from './pages/HomePage';
@@ -8,6 +10,8 @@ import { PostJobPage } from './pages/PostJobPage';
 import { MyJobsPage } from './pages/MyJobsPage';
 import { ApplicantsPage } from './pages/ApplicantsPage';
 import { ProfilePage } from './pages/ProfilePage';
+import { InvitationsPage } from './pages/InvitationsPage';
+import { NotificationsPage } from './pages/NotificationsPage';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -72,6 +76,14 @@ function AppRoutes() {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/invitations" 
+          element={
+            <ProtectedRoute>
+              <InvitationsPage />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/profile" 
           element={
@@ -80,6 +92,14 @@ function AppRoutes() {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/notifications" 
+          element={
+            <ProtectedRoute>
+              <NotificationsPage />
+            </ProtectedRoute>
+          } 
+        />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Layout>
@@ -89,9 +109,13 @@ function AppRoutes() {
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <AppRoutes />
-      </Router>
+      <NotificationProvider>
+        <OfflineProvider>
+          <Router>
+            <AppRoutes />
+          </Router>
+        </OfflineProvider>
+      </NotificationProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,134 @@
+import { useState, FormEvent } from 'react';
+import { X, Send } from 'lucide-react';
+import { Job } from '../types';
+import { WageValidator } from '../utils/wageValidation';
+import { WageCalculator } from '../utils/wageCalculator';
+
+interface ApplyDialogProps {
+  job: Job;
+  submitting?: boolean;
+  onSubmit: (message: string, availabilityNote: string, proposedWage?: number) => void;
+  onClose: () => void;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+export function ApplyDialog({ job, submitting = false, onSubmit, onClose }: ApplyDialogProps) {
+  const [message, setMessage] = useState('');
+  const [availabilityNote, setAvailabilityNote] = useState('');
+  const [askDifferentWage, setAskDifferentWage] = useState(false);
+  const [proposedWage, setProposedWage] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (askDifferentWage) {
+      const offer = parseFloat(proposedWage);
+      const offerCheck = WageValidator.validateCounterOffer(job.wage, offer, job.wageType);
+      if (isNaN(offer) || !offerCheck.valid) {
+        alert(offerCheck.error || 'Please enter the wage you are asking for');
+        return;
+      }
+      onSubmit(message.trim(), availabilityNote.trim(), offer);
+      return;
+    }
+
+    onSubmit(message.trim(), availabilityNote.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Apply for Job</h3>
+            <p className="text-sm text-gray-600">{job.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Message to the farmer
+            </label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="e.g., I have 3 years of paddy harvesting experience and my own sickle"
+            />
+            <div className="text-xs text-gray-500 text-right">
+              {message.length}/{MAX_MESSAGE_LENGTH}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Availability
+            </label>
+            <input
+              type="text"
+              value={availabilityNote}
+              onChange={(e) => setAvailabilityNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="e.g., Free all week, can start at 6am"
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={askDifferentWage}
+                onChange={(e) => setAskDifferentWage(e.target.checked)}
+                className="mr-2"
+              />
+              Ask for a different wage
+            </label>
+            {askDifferentWage && (
+              <div className="mt-2">
+                <input
+                  type="number"
+                  value={proposedWage}
+                  onChange={(e) => setProposedWage(e.target.value)}
+                  min={job.wage}
+                  step={job.wageType === 'per-unit' ? '0.01' : '1'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  placeholder={`More than ${job.wage}`}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Posted wage is {WageCalculator.formatWage(job)}. The farmer can accept or decline your offer.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 flex items-center justify-center bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Send size={16} className="mr-2" />
+              {submitting ? 'Submitting...' : 'Submit Application'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, FormEvent } from 'react';
+import { ClipboardCheck, MapPin, X } from 'lucide-react';
+import { Job, AttendanceRecord, AttendanceLocation } from '../types';
+import { attendanceStorage } from '../utils/storage';
+import { GeoLocator } from '../utils/geolocation';
+
+interface AttendanceRosterProps {
+  job: Job;
+  workers: { id: string; name: string }[];
+  records: AttendanceRecord[];
+  onChanged: () => void;
+}
+
+// Entries that reached the server this much later than their recorded time were sent from the offline
+// queue. Same threshold as compute_job_payroll, which leaves such check-ins unpaid until confirmed.
+const OFFLINE_GAP_MS = 5 * 60 * 1000;
+
+// Work dates follow the database's CURRENT_DATE, which is in UTC
+const getToday = () => new Date().toISOString().split('T')[0];
+
+const toTimeInput = (dateString?: string) => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+export function AttendanceRoster({ job, workers, records, onChanged }: AttendanceRosterProps) {
+  const [selectedDate, setSelectedDate] = useState(getToday());
+  const [busyWorkerId, setBusyWorkerId] = useState<string | null>(null);
+  const [correcting, setCorrecting] = useState<AttendanceRecord | null>(null);
+  const [checkInTime, setCheckInTime] = useState('');
+  const [checkOutTime, setCheckOutTime] = useState('');
+  const [note, setNote] = useState('');
+
+  const canMarkAttendance = job.status === 'in-progress';
+  const dates = [...new Set([getToday(), ...records.map(record => record.workDate)])].sort().reverse();
+
+  const getRecord = (workerId: string) =>
+    records.find(record => record.workerId === workerId && record.workDate === selectedDate);
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  };
+
+  const formatDate = (workDate: string) => {
+    return new Date(`${workDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  const handleConfirm = async (record: AttendanceRecord) => {
+    setBusyWorkerId(record.workerId);
+    const result = await attendanceStorage.confirmAttendance(record.id);
+    setBusyWorkerId(null);
+    if (!result.success) {
+      alert(result.error);
+    }
+    onChanged();
+  };
+
+  const handleMarkNoShow = async (workerId: string) => {
+    setBusyWorkerId(workerId);
+    const result = await attendanceStorage.markNoShow(job.id, workerId, selectedDate);
+    setBusyWorkerId(null);
+    if (!result.success) {
+      alert(result.error);
+    }
+    onChanged();
+  };
+
+  const openCorrection = (record: AttendanceRecord) => {
+    setCorrecting(record);
+    setCheckInTime(toTimeInput(record.checkInAt));
+    setCheckOutTime(toTimeInput(record.checkOutAt));
+    setNote(record.farmerNote || '');
+  };
+
+  const handleSaveCorrection = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!correcting) return;
+
+    if (!checkInTime) {
+      alert('Please enter the time the worker started');
+      return;
+    }
+
+    const result = await attendanceStorage.confirmAttendance(correcting.id, {
+      checkInAt: new Date(`${correcting.workDate}T${checkInTime}`).toISOString(),
+      checkOutAt: checkOutTime ? new Date(`${correcting.workDate}T${checkOutTime}`).toISOString() : undefined,
+      note
+    });
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setCorrecting(null);
+    onChanged();
+  };
+
+  const renderLocation = (location?: AttendanceLocation) => {
+    if (!location) {
+      return <span className="text-gray-500">no location</span>;
+    }
+    if (location.distanceM === undefined) {
+      return <span className="text-gray-500">location recorded</span>;
+    }
+    return (
+      <span className={GeoLocator.isOutsideGeofence(location) ? 'text-amber-700 font-medium' : 'text-green-700'}>
+        {GeoLocator.formatDistance(location.distanceM)} from site
+      </span>
+    );
+  };
+
+  // The recorded time is the worker's phone clock; until the farmer confirms or
+  // corrects it, flag how long after it the server heard about it
+  const renderOfflineGap = (record: AttendanceRecord, recordedAt: string, receivedAt?: string, heldFromPay = false) => {
+    if (!receivedAt || record.confirmedAt) return null;
+    const gapMs = new Date(receivedAt).getTime() - new Date(recordedAt).getTime();
+    if (gapMs < OFFLINE_GAP_MS) return null;
+
+    const gapMinutes = Math.round(gapMs / 60000);
+    const gap = gapMinutes < 60 ? `${gapMinutes} min` : `${Math.floor(gapMinutes / 60)} h ${gapMinutes % 60} min`;
+    return (
+      <span className="text-amber-700 font-medium" title={`Received ${formatTime(receivedAt)}`}>
+        {' '}· sent offline, {gap} later{heldFromPay && ', not paid until you confirm'}
+      </span>
+    );
+  };
+
+  if (workers.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+          <ClipboardCheck size={16} className="mr-2 text-gray-500" />
+          Attendance
+        </h3>
+        <select
+          value={selectedDate}
+          onChange={(e) => setSelectedDate(e.target.value)}
+          className="text-sm px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {dates.map(date => (
+            <option key={date} value={date}>
+              {date === getToday() ? 'Today' : formatDate(date)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {workers.map(worker => {
+          const record = getRecord(worker.id);
+          return (
+            <li key={worker.id} className="py-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{worker.name}</div>
+                  {!record && <div className="text-xs text-gray-500">Not checked in</div>}
+                  {record?.status === 'no-show' && (
+                    <div className="text-xs text-red-700">
+                      No-show{record.farmerNote && ` – ${record.farmerNote}`}
+                    </div>
+                  )}
+                  {record && record.status !== 'no-show' && (
+                    <div className="text-xs text-gray-600 space-y-0.5">
+                      <div className="flex items-center">
+                        <MapPin size={12} className="mr-1" />
+                        In {formatTime(record.checkInAt!)} · {renderLocation(record.checkInLocation)}
+                        {renderOfflineGap(record, record.checkInAt!, record.checkInReceivedAt, true)}
+                      </div>
+                      {record.checkOutAt && (
+                        <div className="flex items-center">
+                          <MapPin size={12} className="mr-1" />
+                          Out {formatTime(record.checkOutAt)} · {renderLocation(record.checkOutLocation)}
+                          {renderOfflineGap(record, record.checkOutAt, record.checkOutReceivedAt)}
+                        </div>
+                      )}
+                      {record.farmerNote && <div className="text-gray-500">Note: {record.farmerNote}</div>}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {record?.confirmedAt && record.status !== 'no-show' && (
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      Confirmed
+                    </span>
+                  )}
+                  {record && !record.confirmedAt && (
+                    <button
+                      onClick={() => handleConfirm(record)}
+                      disabled={busyWorkerId === worker.id}
+                      className="text-xs bg-green-600 text-white py-1 px-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      Confirm
+                    </button>
+                  )}
+                  {record && (
+                    <button
+                      onClick={() => openCorrection(record)}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Correct
+                    </button>
+                  )}
+                  {!record && canMarkAttendance && (
+                    <button
+                      onClick={() => handleMarkNoShow(worker.id)}
+                      disabled={busyWorkerId === worker.id}
+                      className="text-xs text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                    >
+                      Mark no-show
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {correcting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-sm w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Correct Attendance</h3>
+                <p className="text-sm text-gray-600">
+                  {workers.find(worker => worker.id === correcting.workerId)?.name} · {formatDate(correcting.workDate)}
+                </p>
+              </div>
+              <button
+                onClick={() => setCorrecting(null)}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveCorrection} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Started *</label>
+                  <input
+                    type="time"
+                    value={checkInTime}
+                    onChange={(e) => setCheckInTime(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Finished</label>
+                  <input
+                    type="time"
+                    value={checkOutTime}
+                    onChange={(e) => setCheckOutTime(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  placeholder="e.g., Arrived late, left at lunch"
+                />
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setCorrecting(null)}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+                >
+                  Save & Confirm
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import { X, Send, Megaphone } from 'lucide-react';
+import { Message } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useMessages } from '../hooks/useRealtime';
+import { messageStorage } from '../utils/storage';
+import { MAX_MESSAGE_LENGTH } from '../utils/messages';
+
+interface ChatThreadProps {
+  jobId: string;
+  jobTitle: string;
+  workerId: string;
+  otherPartyName: string;
+  onClose: () => void;
+}
+
+export function ChatThread({ jobId, jobTitle, workerId, otherPartyName, onClose }: ChatThreadProps) {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    messageStorage.getThread(jobId, workerId).then(loaded => {
+      if (!cancelled) {
+        setMessages(loaded);
+        setLoading(false);
+      }
+    });
+    messageStorage.markThreadRead(jobId, workerId);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, workerId]);
+
+  useMessages(user, message => {
+    if (message.jobId !== jobId || message.workerId !== workerId) return;
+
+    setMessages(prev =>
+      prev.some(existing => existing.id === message.id)
+        ? prev.map(existing => (existing.id === message.id ? message : existing))
+        : [...prev, message]
+    );
+    // The thread is open, so anything new from the other side is read straight away
+    if (message.senderId !== user?.id && !message.readAt) {
+      messageStorage.markThreadRead(jobId, workerId);
+    }
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setSending(true);
+    setError('');
+    const result = await messageStorage.sendMessage(jobId, workerId, draft.trim());
+    setSending(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to send the message.');
+      return;
+    }
+
+    const sent = result.message;
+    if (sent) {
+      setMessages(prev => (prev.some(existing => existing.id === sent.id) ? prev : [...prev, sent]));
+    }
+    setDraft('');
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const isFarmer = user?.userType === 'farmer';
+  const ownBubble = isFarmer ? 'bg-green-600' : 'bg-blue-600';
+  const sendButton = isFarmer ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{otherPartyName}</h3>
+            <p className="text-sm text-gray-600">{jobTitle}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {loading ? (
+            <p className="text-center text-sm text-gray-600">Loading messages...</p>
+          ) : messages.length === 0 ? (
+            <p className="text-center text-sm text-gray-600">
+              No messages yet. Ask about timing, tools or the meeting point here.
+            </p>
+          ) : (
+            messages.map(message => {
+              const mine = message.senderId === user?.id;
+              return (
+                <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-[80%] rounded-2xl px-3 py-2 ${
+                      mine ? `${ownBubble} text-white` : 'bg-gray-100 text-gray-900'
+                    }`}
+                  >
+                    {message.isBroadcast && (
+                      <div className={`flex items-center text-xs mb-1 ${mine ? 'text-white/80' : 'text-gray-500'}`}>
+                        <Megaphone size={12} className="mr-1" />
+                        Sent to all hired workers
+                      </div>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                    <p className={`text-xs mt-1 ${mine ? 'text-white/80' : 'text-gray-500'}`}>
+                      {formatTime(message.createdAt)}
+                      {mine && message.readAt && ' · Seen'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSend} className="p-4 border-t border-gray-200">
+          {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+          <div className="flex items-end space-x-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              placeholder="Write a message..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-gray-400"
+            />
+            <button
+              type="submit"
+              disabled={sending || !draft.trim()}
+              className={`p-3 rounded-lg text-white ${sendButton} disabled:bg-gray-300 transition-colors`}
+            >
+              <Send size={18} />
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
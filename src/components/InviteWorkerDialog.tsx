@@ -0,0 +1,103 @@
+import { useState, FormEvent } from 'react';
+import { X, Send } from 'lucide-react';
+import { Job } from '../types';
+
+interface InviteWorkerDialogProps {
+  workerName: string;
+  jobs: Job[];
+  submitting?: boolean;
+  onSubmit: (jobId: string, message: string) => void;
+  onClose: () => void;
+}
+
+export function InviteWorkerDialog({ workerName, jobs, submitting = false, onSubmit, onClose }: InviteWorkerDialogProps) {
+  const [jobId, setJobId] = useState(jobs[0]?.id || '');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!jobId) return;
+    onSubmit(jobId, message.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Invite to Job</h3>
+            <p className="text-sm text-gray-600">{workerName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-gray-600 mb-4">You have no open jobs to invite this worker to.</p>
+            <button
+              onClick={onClose}
+              className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Job *
+              </label>
+              <select
+                value={jobId}
+                onChange={(e) => setJobId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {jobs.map(job => (
+                  <option key={job.id} value={job.id}>
+                    {job.title} ({job.acceptedWorkerIds?.length || 0}/{job.requiredWorkers} hired)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Message
+              </label>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="e.g., You did great work on the maize harvest. Join us again?"
+              />
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || !jobId}
+                className="flex-1 flex items-center justify-center bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Send size={16} className="mr-2" />
+                {submitting ? 'Sending...' : 'Send Invitation'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
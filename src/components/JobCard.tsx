@@ -1,6 +1,10 @@
 import React from 'react';
-import { Calendar, Clock, MapPin, DollarSign, User, Users, Eye } from 'lucide-react';
-import { Job } from '../types';
+import { Calendar, Clock, MapPin, DollarSign, User, Users, Eye, MessageCircle } from 'lucide-react';
+import { Job, ApplicationStatus, RatingSummary } from '../types';
+import { JobStateMachine } from '../utils/jobStateMachine';
+import { WageCalculator } from '../utils/wageCalculator';
+import { RatingBadge } from './RatingBadge';
+import { GeoLocator } from '../utils/geolocation';
 
 interface JobCardProps {
   job: Job;
@@ -10,7 +14,12 @@ interface JobCardProps {
   showActions?: boolean;
   isOwner?: boolean;
   canApply?: boolean;
-  applicationStatus?: 'pending' | 'accepted' | 'rejected' | null;
+  applicationStatus?: ApplicationStatus | null;
+  isQueued?: boolean; // the application was made offline and has not been sent yet
+  distanceM?: number; // from the worker's search centre, for pinned jobs
+  farmerRating?: RatingSummary;
+  onMessage?: (job: Job) => void;
+  unreadMessages?: number;
 }
 
 export function JobCard({ 
@@ -21,7 +30,12 @@ export function JobCard({
   showActions = true, 
   isOwner = false,
   canApply = true,
-  applicationStatus = null
+  applicationStatus = null,
+  isQueued = false,
+  distanceM,
+  farmerRating,
+  onMessage,
+  unreadMessages = 0
 }: JobCardProps) {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -41,25 +55,20 @@ export function JobCard({
         return 'bg-yellow-100 text-yellow-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-orange-100 text-orange-800';
+      case 'disputed':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'open':
-        return 'Open';
-      case 'filled':
-        return 'Filled';
-      case 'in-progress':
-        return 'In Progress';
-      case 'completed':
-        return 'Completed';
-      default:
-        return status;
-    }
-  };
+  const getStatusText = (status: Job['status']) => JobStateMachine.getLabel(status);
+
+  const earningsEstimate = WageCalculator.estimateEarnings(job);
 
   const getApplicationStatusColor = (status: string) => {
     switch (status) {
@@ -69,24 +78,34 @@ export function JobCard({
         return 'bg-red-100 text-red-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'withdrawn-by-farmer':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
   const canApplyToJob = () => {
-    if (!canApply || applicationStatus) return false;
+    if (!canApply) return false;
+    // A withdrawn application does not stop the worker from applying again
+    if (applicationStatus && applicationStatus !== 'withdrawn') return false;
     // Check if job is actually open (not filled, completed, or in-progress)
     return job.status === 'open';
   };
 
   const getApplyButtonText = () => {
+    if (isQueued) return 'Waiting for Signal';
     if (applicationStatus === 'pending') return 'Application Pending';
     if (applicationStatus === 'accepted') return 'Application Accepted';
     if (applicationStatus === 'rejected') return 'Application Rejected';
+    if (applicationStatus === 'withdrawn-by-farmer') return 'Job Withdrawn by Farmer';
+    if (applicationStatus === 'withdrawn' && job.status === 'open') return 'Apply Again';
     if (job.status === 'completed') return 'Job Completed';
     if (job.status === 'filled') return 'All Positions Filled';
     if (job.status === 'in-progress') return 'Job In Progress';
+    if (job.status === 'cancelled') return 'Job Cancelled';
+    if (job.status === 'expired') return 'Job Expired';
+    if (job.status === 'disputed') return 'Job Disputed';
     if ((job.acceptedWorkerIds?.length ?? 0) >= job.requiredWorkers) return 'All Positions Filled';
     return 'Apply Now';
   };
@@ -101,7 +120,12 @@ export function JobCard({
           </span>
           {applicationStatus && (
             <span className={`px-2 py-1 text-xs font-medium rounded-full ${getApplicationStatusColor(applicationStatus)}`}>
-              {applicationStatus}
+              {applicationStatus === 'withdrawn-by-farmer' ? 'withdrawn by farmer' : applicationStatus}
+            </span>
+          )}
+          {isQueued && (
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+              waiting for signal
             </span>
           )}
         </div>
@@ -114,6 +138,11 @@ export function JobCard({
           <div className="flex items-center text-sm text-gray-600">
             <User size={16} className="mr-2 text-green-600" />
             <span>{job.farmerName}</span>
+            {!isOwner && (
+              <span className="ml-2">
+                <RatingBadge summary={farmerRating} />
+              </span>
+            )}
           </div>
           {!isOwner && onViewFarmerProfile && (
             <button
@@ -128,8 +157,13 @@ export function JobCard({
         <div className="flex items-center text-sm text-gray-600">
           <DollarSign size={16} className="mr-2 text-green-600" />
           <span className="font-semibold">NPR.{job.wage.toLocaleString()}</span>
-          <span className="ml-1">per {job.durationType.slice(0, -1)}</span>
+          <span className="ml-1">{WageCalculator.getWageSuffix(job.wageType, job.wageUnit)}</span>
         </div>
+        {!isOwner && earningsEstimate && (
+          <div className="text-xs text-green-700 bg-green-50 rounded px-2 py-1 ml-6">
+            Estimated earnings: <span className="font-semibold">NPR.{earningsEstimate.amount.toLocaleString()}</span> ({earningsEstimate.breakdown})
+          </div>
+        )}
         <div className="flex items-center text-sm text-gray-600">
           <Clock size={16} className="mr-2 text-green-600" />
           <span>{job.duration} {job.durationType}</span>
@@ -141,6 +175,9 @@ export function JobCard({
         <div className="flex items-center text-sm text-gray-600">
           <MapPin size={16} className="mr-2 text-green-600" />
           <span>{job.location}</span>
+          {distanceM !== undefined && (
+            <span className="ml-2 text-gray-500">· {GeoLocator.formatDistance(distanceM)} away</span>
+          )}
         </div>
         <div className="flex items-center text-sm text-gray-600">
           <Users size={16} className="mr-2 text-green-600" />
@@ -155,7 +192,7 @@ export function JobCard({
         <div className="flex gap-2">
           {isOwner ? (
             <>
-              {job.status !== 'completed' ? (
+              {!JobStateMachine.isClosed(job.status) ? (
                 <button
                   onClick={() => onViewApplicants?.(job.id)}
                   className="flex-1 bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
@@ -164,7 +201,7 @@ export function JobCard({
                 </button>
               ) : (
                 <div className="flex-1 bg-gray-100 text-gray-500 py-3 px-4 rounded-lg font-medium text-center">
-                  Job Completed & Closed
+                  Job {getStatusText(job.status)} & Closed
                 </div>
               )}
             </>
@@ -179,6 +216,21 @@ export function JobCard({
           )}
         </div>
       )}
+
+      {onMessage && (
+        <button
+          onClick={() => onMessage(job)}
+          className="w-full mt-2 flex items-center justify-center border border-gray-300 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+        >
+          <MessageCircle size={16} className="mr-2" />
+          Message {job.farmerName}
+          {unreadMessages > 0 && (
+            <span className="ml-2 min-w-[20px] px-1.5 py-0.5 text-xs font-semibold text-white bg-red-500 rounded-full">
+              {unreadMessages}
+            </span>
+          )}
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { History } from 'lucide-react';
+import { JobStatusChange } from '../types';
+import { JobStateMachine } from '../utils/jobStateMachine';
+
+interface JobStatusHistoryProps {
+  history: JobStatusChange[];
+}
+
+export function JobStatusHistory({ history }: JobStatusHistoryProps) {
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (history.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center">
+        <History size={16} className="mr-2 text-gray-500" />
+        Status History
+      </h3>
+      <ol className="space-y-3">
+        {[...history].reverse().map(change => (
+          <li key={change.id} className="border-l-2 border-green-200 pl-3">
+            <div className="text-sm text-gray-900">
+              {change.fromStatus ? (
+                <>
+                  {JobStateMachine.getLabel(change.fromStatus)} → <span className="font-medium">{JobStateMachine.getLabel(change.toStatus)}</span>
+                </>
+              ) : (
+                <span className="font-medium">{JobStateMachine.getLabel(change.toStatus)}</span>
+              )}
+            </div>
+            <div className="text-xs text-gray-500">
+              {formatDate(change.changedAt)} • {change.changedByName || 'System'}
+            </div>
+            {change.reason && (
+              <p className="text-xs text-gray-600 mt-1">{change.reason}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
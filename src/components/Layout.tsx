@@ -1,14 +1,26 @@
 import React from 'react';
-import { Home, Briefcase, Plus, User } from 'lucide-react';
+import { Home, Briefcase, Plus, User, Mail, Bell, WifiOff, AlertTriangle, X } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useNotificationCenter } from '../context/NotificationContext';
+import { useOffline } from '../context/OfflineContext';
+import { QueuedAction } from '../utils/offlineActions';
 import { useLocation, useNavigate } from 'react-router-dom';
 
+const QUEUED_ACTION_LABELS: Record<QueuedAction['kind'], string> = {
+  apply: 'Application',
+  withdraw: 'Withdrawal',
+  'check-in': 'Check-in',
+  'check-out': 'Check-out'
+};
+
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export function Layout({ children }: LayoutProps) {
   const { user } = useAuth();
+  const { unreadCount } = useNotificationCenter();
+  const { online, queued, conflicts, dismissConflicts } = useOffline();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -20,6 +32,7 @@ export function Layout({ children }: LayoutProps) {
     { icon: Home, label: 'Home', path: '/' },
     { icon: Briefcase, label: 'My Jobs', path: '/my-jobs' },
     ...(user.userType === 'farmer' ? [{ icon: Plus, label: 'Post Job', path: '/post-job' }] : []),
+    ...(user.userType === 'worker' ? [{ icon: Mail, label: 'Invites', path: '/invitations' }] : []),
     { icon: User, label: 'Profile', path: '/profile' }
   ];
 
@@ -32,6 +45,57 @@ export function Layout({ children }: LayoutProps) {
   return (
     <div className={`min-h-screen ${bgColor} pb-20`}>
       <main className="max-w-md mx-auto bg-white min-h-screen">
+        <header className="sticky top-0 z-40 bg-white border-b border-gray-100 px-4 py-2 flex items-center justify-between">
+          <span className="font-bold text-gray-900">Kheticulture</span>
+          <button
+            onClick={() => navigate('/notifications')}
+            className={`relative p-2 rounded-lg transition-colors ${
+              location.pathname === '/notifications' ? activeColor : `text-gray-500 ${hoverColor}`
+            }`}
+            aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+          >
+            <Bell size={20} />
+            {unreadCount > 0 && (
+              <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
+          </button>
+        </header>
+        {!online && (
+          <div className="bg-gray-800 text-white text-sm px-4 py-2 flex items-center">
+            <WifiOff size={16} className="mr-2 flex-shrink-0" />
+            <span>
+              You are offline. Showing what was last loaded.
+              {queued.length > 0 && ` ${queued.length} action${queued.length === 1 ? '' : 's'} will be sent when you are back online.`}
+            </span>
+          </div>
+        )}
+        {online && queued.length > 0 && (
+          <div className="bg-yellow-50 text-yellow-800 text-sm px-4 py-2">
+            Sending {queued.length} saved action{queued.length === 1 ? '' : 's'}...
+          </div>
+        )}
+        {conflicts.length > 0 && (
+          <div className="bg-red-50 border-b border-red-100 text-sm text-red-800 px-4 py-3">
+            <div className="flex items-start justify-between">
+              <div className="flex items-center font-medium mb-1">
+                <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+                Some actions saved offline could not be completed
+              </div>
+              <button onClick={dismissConflicts} className="text-red-600 hover:text-red-800" aria-label="Dismiss">
+                <X size={16} />
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {conflicts.map(({ action, error }) => (
+                <li key={action.id}>
+                  {QUEUED_ACTION_LABELS[action.kind]} for "{action.jobTitle}": {error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {children}
       </main>
       
@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MapPin, Plus, Minus, Crosshair, X } from 'lucide-react';
+import { Coordinates } from '../types';
+import { GeoLocator } from '../utils/geolocation';
+
+const TILE_SIZE = 256;
+const MAP_HEIGHT = 240;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+const PIN_ZOOM = 15;
+// Whole of Nepal, for when nothing has been pinned yet
+const DEFAULT_VIEW = { center: { lat: 28.3949, lng: 84.124 }, zoom: 7 };
+// Pointer movement below this many pixels is a tap that drops the pin, not a drag
+const DRAG_THRESHOLD_PX = 4;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Web Mercator, in pixels of the whole world map at the given zoom
+const project = ({ lat, lng }: Coordinates, zoom: number): Point => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  };
+};
+
+const unproject = ({ x, y }: Point, zoom: number): Coordinates => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180
+  };
+};
+
+// Same precision as the numeric(9,6) columns
+const round = ({ lat, lng }: Coordinates): Coordinates => ({
+  lat: Math.round(lat * 1e6) / 1e6,
+  lng: Math.round(lng * 1e6) / 1e6
+});
+
+interface MapPickerProps {
+  value?: Coordinates;
+  onChange: (coordinates: Coordinates | undefined) => void;
+  hint?: string;
+}
+
+/**
+ * OpenStreetMap view for pinning a place: tap to drop the pin, drag to pan,
+ * or use the device's location
+ */
+export function MapPicker({ value, onChange, hint = 'Tap the map to drop a pin.' }: MapPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; start: Point; centerPx: Point; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [center, setCenter] = useState<Coordinates>(value ?? DEFAULT_VIEW.center);
+  const [zoom, setZoom] = useState(value ? PIN_ZOOM : DEFAULT_VIEW.zoom);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const centerPx = project(center, zoom);
+  const topLeft = { x: centerPx.x - width / 2, y: centerPx.y - MAP_HEIGHT / 2 };
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  if (width > 0) {
+    for (let tileX = Math.floor(topLeft.x / TILE_SIZE); tileX <= Math.floor((topLeft.x + width) / TILE_SIZE); tileX++) {
+      for (let tileY = Math.floor(topLeft.y / TILE_SIZE); tileY <= Math.floor((topLeft.y + MAP_HEIGHT) / TILE_SIZE); tileY++) {
+        if (tileY < 0 || tileY >= tileCount) continue;
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tileX}/${tileY}`,
+          url: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${tileY}.png`,
+          left: tileX * TILE_SIZE - topLeft.x,
+          top: tileY * TILE_SIZE - topLeft.y
+        });
+      }
+    }
+  }
+
+  const pin = value ? project(value, zoom) : null;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, start: { x: event.clientX, y: event.clientY }, centerPx, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const dx = event.clientX - drag.start.x;
+    const dy = event.clientY - drag.start.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+
+    drag.moved = true;
+    setCenter(unproject({ x: drag.centerPx.x - dx, y: drag.centerPx.y - dy }, zoom));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || drag.pointerId !== event.pointerId) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    onChange(round(unproject({ x: topLeft.x + event.clientX - rect.left, y: topLeft.y + event.clientY - rect.top }, zoom)));
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev + delta)));
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    setLocationError(null);
+    try {
+      const position = await GeoLocator.getCurrentPosition();
+      const coordinates = round({ lat: position.latitude, lng: position.longitude });
+      setCenter(coordinates);
+      setZoom(PIN_ZOOM);
+      onChange(coordinates);
+    } catch (error) {
+      setLocationError(error instanceof Error ? error.message : 'Could not get your location.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded-lg border border-gray-300 bg-gray-100 touch-none select-none cursor-crosshair"
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          dragRef.current = null;
+        }}
+      >
+        {tiles.map(tile => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        {pin && (
+          <MapPin
+            size={32}
+            className="absolute text-red-600 fill-red-200 pointer-events-none"
+            style={{ left: pin.x - topLeft.x - 16, top: pin.y - topLeft.y - 32 }}
+          />
+        )}
+
+        <div className="absolute top-2 right-2 flex flex-col bg-white rounded-lg shadow" onPointerDown={event => event.stopPropagation()}>
+          <button type="button" onClick={() => changeZoom(1)} className="p-1.5 text-gray-700 hover:bg-gray-100 rounded-t-lg" aria-label="Zoom in">
+            <Plus size={16} />
+          </button>
+          <button type="button" onClick={() => changeZoom(-1)} className="p-1.5 text-gray-700 hover:bg-gray-100 rounded-b-lg border-t border-gray-200" aria-label="Zoom out">
+            <Minus size={16} />
+          </button>
+        </div>
+
+        <div className="absolute bottom-0 right-0 bg-white bg-opacity-75 px-1 text-[10px] text-gray-600" onPointerDown={event => event.stopPropagation()}>
+          ©{' '}
+          <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" className="underline">
+            OpenStreetMap
+          </a>{' '}
+          contributors
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-sm">
+        <span className="text-gray-600">
+          {value ? `Pinned at ${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}` : hint}
+        </span>
+        <div className="flex items-center gap-3">
+          {value && (
+            <button type="button" onClick={() => onChange(undefined)} className="flex items-center text-gray-500 hover:text-gray-700">
+              <X size={14} className="mr-1" />
+              Clear
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleUseMyLocation}
+            disabled={locating}
+            className="flex items-center text-green-700 font-medium hover:text-green-800 disabled:opacity-50"
+          >
+            <Crosshair size={14} className="mr-1" />
+            {locating ? 'Locating...' : 'Use my location'}
+          </button>
+        </div>
+      </div>
+      {locationError && <p className="text-sm text-red-600 mt-1">{locationError}</p>}
+    </div>
+  );
+}
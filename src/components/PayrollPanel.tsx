@@ -0,0 +1,416 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Receipt, Lock, Plus, Trash2, Edit2, Banknote, AlertTriangle } from 'lucide-react';
+import { Job, JobPayroll, PayrollLine, PayrollAdjustment, PayrollAdjustmentKind, Timesheet, Payment, PaymentMethod } from '../types';
+import { payrollStorage, paymentStorage } from '../utils/storage';
+import { WageCalculator, PAYROLL_ADJUSTMENT_LABELS, PAYMENT_METHOD_LABELS } from '../utils/wageCalculator';
+
+interface PayrollPanelProps {
+  job: Job;
+  workers: { id: string; name: string }[];
+}
+
+const QUANTITY_SOURCE_LABELS: Record<PayrollLine['quantitySource'], string> = {
+  attendance: 'from attendance',
+  timesheet: 'entered by you',
+  planned: 'planned duration'
+};
+
+export function PayrollPanel({ job, workers }: PayrollPanelProps) {
+  const [payroll, setPayroll] = useState<JobPayroll | null>(null);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [adjustments, setAdjustments] = useState<PayrollAdjustment[]>([]);
+  const [editingQuantityFor, setEditingQuantityFor] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [addingAdjustmentFor, setAddingAdjustmentFor] = useState<string | null>(null);
+  const [adjustmentKind, setAdjustmentKind] = useState<PayrollAdjustmentKind>('bonus');
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentNote, setAdjustmentNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [payingStatement, setPayingStatement] = useState<PayrollLine | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [paymentReference, setPaymentReference] = useState('');
+
+  useEffect(() => {
+    loadPayroll();
+  }, [job]);
+
+  const loadPayroll = async () => {
+    const [payrollResult, jobTimesheets, jobAdjustments, jobPayments] = await Promise.all([
+      payrollStorage.getJobPayroll(job.id),
+      payrollStorage.getTimesheets(job.id),
+      payrollStorage.getAdjustments(job.id),
+      paymentStorage.getPaymentsForJob(job.id)
+    ]);
+
+    if (payrollResult.success) {
+      setPayroll(payrollResult.payroll || null);
+    }
+    setTimesheets(jobTimesheets);
+    setAdjustments(jobAdjustments);
+    setPayments(jobPayments);
+  };
+
+  // Disputed payments do not count, matching the statement_balances view
+  const getOutstanding = (line: PayrollLine) => {
+    const paid = payments
+      .filter(payment => payment.statementId === line.statementId && payment.status !== 'disputed')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    return Math.max(line.netAmount - paid, 0);
+  };
+
+  const startPayment = (line: PayrollLine) => {
+    setPayingStatement(line);
+    setPaymentAmount(getOutstanding(line).toString());
+    setPaymentMethod('cash');
+    setPaymentReference('');
+  };
+
+  const handleRecordPayment = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!payingStatement?.statementId) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      alert('Please enter an amount greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    const result = await paymentStorage.recordPayment(payingStatement.statementId, amount, paymentMethod, paymentReference);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setPayingStatement(null);
+    loadPayroll();
+  };
+
+  const getWorkerName = (workerId: string) =>
+    workers.find(worker => worker.id === workerId)?.name || 'Worker';
+
+  const startEditingQuantity = (line: PayrollLine) => {
+    setEditingQuantityFor(line.workerId);
+    setQuantity(line.quantity.toString());
+  };
+
+  const handleSaveQuantity = async (line: PayrollLine) => {
+    const value = quantity.trim() === '' ? undefined : parseFloat(quantity);
+    if (value !== undefined && (isNaN(value) || value < 0)) {
+      alert('Please enter a valid amount of work');
+      return;
+    }
+
+    const existing = timesheets.find(timesheet => timesheet.workerId === line.workerId);
+    setSaving(true);
+    const result = await payrollStorage.setTimesheet({
+      jobId: job.id,
+      workerId: line.workerId,
+      hoursWorked: line.wageType === 'per-hour' ? value : undefined,
+      daysWorked: line.wageType === 'per-day' ? value : undefined,
+      unitsCompleted: line.wageType === 'per-unit' ? value : undefined,
+      note: existing?.note
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setEditingQuantityFor(null);
+    loadPayroll();
+  };
+
+  const handleAddAdjustment = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!addingAdjustmentFor) return;
+
+    const amount = parseFloat(adjustmentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      alert('Please enter an amount greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    const result = await payrollStorage.addAdjustment(job.id, addingAdjustmentFor, adjustmentKind, amount, adjustmentNote);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setAddingAdjustmentFor(null);
+    setAdjustmentAmount('');
+    setAdjustmentNote('');
+    loadPayroll();
+  };
+
+  const handleRemoveAdjustment = async (adjustmentId: string) => {
+    const result = await payrollStorage.removeAdjustment(adjustmentId);
+    if (!result.success) {
+      alert(result.error);
+    }
+    loadPayroll();
+  };
+
+  if (!payroll || payroll.lines.length === 0) return null;
+
+  const total = payroll.lines.reduce((sum, line) => sum + line.netAmount, 0);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+          <Receipt size={16} className="mr-2 text-gray-500" />
+          {payroll.locked ? 'Pay Statements' : 'Timesheet & Pay'}
+        </h3>
+        {payroll.locked && (
+          <span className="flex items-center text-xs text-gray-600">
+            <Lock size={12} className="mr-1" />
+            Locked
+          </span>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {payroll.lines.map(line => {
+          const workerAdjustments = adjustments.filter(adjustment => adjustment.workerId === line.workerId);
+          return (
+            <li key={line.workerId} className="py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">{getWorkerName(line.workerId)}</span>
+                <span className="font-semibold text-gray-900">NPR.{line.netAmount.toLocaleString()}</span>
+              </div>
+
+              {editingQuantityFor === line.workerId ? (
+                <div className="flex items-center space-x-2 mt-1">
+                  <input
+                    type="number"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    min="0"
+                    step="0.5"
+                    className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <span className="text-gray-600">{line.wageType === 'per-unit' ? line.quantityUnit : `${line.quantityUnit}s`}</span>
+                  <button
+                    onClick={() => handleSaveQuantity(line)}
+                    disabled={saving}
+                    className="text-xs bg-green-600 text-white py-1 px-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setEditingQuantityFor(null)}
+                    className="text-xs text-gray-600 hover:text-gray-800"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center text-gray-600 mt-1">
+                  <span>
+                    {WageCalculator.formatQuantity(line)} × NPR.{line.rate.toLocaleString()} = NPR.{line.baseAmount.toLocaleString()}
+                    <span className="text-xs text-gray-500 ml-1">({QUANTITY_SOURCE_LABELS[line.quantitySource]})</span>
+                  </span>
+                  {!payroll.locked && line.wageType !== 'lump-sum' && (
+                    <button
+                      onClick={() => startEditingQuantity(line)}
+                      className="ml-2 text-blue-600 hover:text-blue-700"
+                      title="Correct the amount of work"
+                    >
+                      <Edit2 size={14} />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {workerAdjustments.map(adjustment => (
+                <div key={adjustment.id} className="flex items-center justify-between text-xs text-gray-600 mt-1">
+                  <span>
+                    {adjustment.kind === 'bonus' ? '+' : '−'} NPR.{adjustment.amount.toLocaleString()} {PAYROLL_ADJUSTMENT_LABELS[adjustment.kind].toLowerCase()}
+                    {adjustment.note && ` – ${adjustment.note}`}
+                  </span>
+                  {!payroll.locked && (
+                    <button
+                      onClick={() => handleRemoveAdjustment(adjustment.id)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {payroll.locked && payments
+                .filter(payment => payment.statementId === line.statementId)
+                .map(payment => (
+                  <div key={payment.id} className="flex items-start justify-between text-xs mt-1">
+                    <span className={payment.status === 'disputed' ? 'text-red-700' : 'text-gray-600'}>
+                      Paid NPR.{payment.amount.toLocaleString()} by {PAYMENT_METHOD_LABELS[payment.method].toLowerCase()}
+                      {payment.reference && ` (${payment.reference})`}
+                      {payment.status === 'disputed' && payment.disputeReason && ` – disputed: ${payment.disputeReason}`}
+                    </span>
+                    <span className={`ml-2 flex-shrink-0 ${
+                      payment.status === 'confirmed'
+                        ? 'text-green-700'
+                        : payment.status === 'disputed'
+                        ? 'text-red-700 flex items-center'
+                        : 'text-gray-500'
+                    }`}>
+                      {payment.status === 'disputed' && <AlertTriangle size={12} className="mr-1" />}
+                      {payment.status === 'recorded' ? 'awaiting confirmation' : payment.status}
+                    </span>
+                  </div>
+                ))}
+
+              {payroll.locked && line.statementId && (
+                getOutstanding(line) > 0 ? (
+                  payingStatement?.statementId === line.statementId ? (
+                    <form onSubmit={handleRecordPayment} className="bg-gray-50 rounded-lg p-2 mt-2 space-y-2">
+                      <div className="flex space-x-2">
+                        <input
+                          type="number"
+                          value={paymentAmount}
+                          onChange={(e) => setPaymentAmount(e.target.value)}
+                          min="1"
+                          max={getOutstanding(line)}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <select
+                          value={paymentMethod}
+                          onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        >
+                          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                            <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {paymentMethod !== 'cash' && (
+                        <input
+                          type="text"
+                          value={paymentReference}
+                          onChange={(e) => setPaymentReference(e.target.value)}
+                          placeholder="Transaction reference"
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        />
+                      )}
+                      <div className="flex space-x-2">
+                        <button
+                          type="submit"
+                          disabled={saving}
+                          className="text-xs bg-green-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Record payment
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setPayingStatement(null)}
+                          className="text-xs text-gray-600 hover:text-gray-800"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <button
+                      onClick={() => startPayment(line)}
+                      className="flex items-center text-xs text-green-700 hover:text-green-800 font-medium mt-1"
+                    >
+                      <Banknote size={12} className="mr-1" />
+                      Record payment (NPR.{getOutstanding(line).toLocaleString()} outstanding)
+                    </button>
+                  )
+                ) : (
+                  <div className="text-xs text-green-700 mt-1">Fully paid</div>
+                )
+              )}
+
+              {!payroll.locked && addingAdjustmentFor !== line.workerId && (
+                <button
+                  onClick={() => setAddingAdjustmentFor(line.workerId)}
+                  className="flex items-center text-xs text-blue-600 hover:text-blue-700 mt-1"
+                >
+                  <Plus size={12} className="mr-1" />
+                  Bonus, deduction or advance
+                </button>
+              )}
+
+              {addingAdjustmentFor === line.workerId && (
+                <form onSubmit={handleAddAdjustment} className="bg-gray-50 rounded-lg p-2 mt-2 space-y-2">
+                  <div className="flex space-x-2">
+                    <select
+                      value={adjustmentKind}
+                      onChange={(e) => setAdjustmentKind(e.target.value as PayrollAdjustmentKind)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {(Object.keys(PAYROLL_ADJUSTMENT_LABELS) as PayrollAdjustmentKind[]).map(kind => (
+                        <option key={kind} value={kind}>{PAYROLL_ADJUSTMENT_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={adjustmentAmount}
+                      onChange={(e) => setAdjustmentAmount(e.target.value)}
+                      min="1"
+                      placeholder="Amount"
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={adjustmentNote}
+                    onChange={(e) => setAdjustmentNote(e.target.value)}
+                    placeholder="Note, e.g. Broke a sickle"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="text-xs bg-green-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setAddingAdjustmentFor(null)}
+                      className="text-xs text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-3 mt-1 text-sm">
+        <span className="text-gray-600">{payroll.locked ? 'Total owed' : 'Total so far'}</span>
+        <span className="font-bold text-gray-900">NPR.{total.toLocaleString()}</span>
+      </div>
+      {payroll.locked && (
+        <div className="flex items-center justify-between text-sm mt-1">
+          <span className="text-gray-600">Still to pay</span>
+          <span className="font-semibold text-gray-900">
+            NPR.{payroll.lines.reduce((sum, line) => sum + getOutstanding(line), 0).toLocaleString()}
+          </span>
+        </div>
+      )}
+      {!payroll.locked && (
+        <p className="text-xs text-gray-500 mt-2">
+          Statements are locked when you mark the job as completed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Star } from 'lucide-react';
+import { RatingSummary } from '../types';
+
+interface RatingBadgeProps {
+  summary?: RatingSummary;
+  size?: 'sm' | 'md';
+}
+
+export function RatingBadge({ summary, size = 'sm' }: RatingBadgeProps) {
+  const textSize = size === 'sm' ? 'text-xs' : 'text-sm';
+
+  if (!summary || summary.reviewCount === 0) {
+    return <span className={`${textSize} text-gray-500`}>No reviews yet</span>;
+  }
+
+  return (
+    <span className={`inline-flex items-center ${textSize} text-gray-700`}>
+      <Star size={size === 'sm' ? 12 : 16} className="text-yellow-500 fill-yellow-400 mr-1" />
+      <span className="font-medium">{summary.averageRating.toFixed(1)}</span>
+      <span className="text-gray-500 ml-1">
+        ({summary.reviewCount} {summary.reviewCount === 1 ? 'review' : 'reviews'})
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, FormEvent } from 'react';
+import { X, Star } from 'lucide-react';
+import { ReviewTag } from '../types';
+import { REVIEW_TAG_LABELS } from '../utils/reviews';
+
+interface ReviewDialogProps {
+  revieweeName: string;
+  jobTitle: string;
+  tags: ReviewTag[];
+  submitting?: boolean;
+  onSubmit: (rating: number, tags: ReviewTag[], comment: string) => void;
+  onClose: () => void;
+}
+
+const MAX_COMMENT_LENGTH = 500;
+
+export function ReviewDialog({ revieweeName, jobTitle, tags, submitting = false, onSubmit, onClose }: ReviewDialogProps) {
+  const [rating, setRating] = useState(0);
+  const [selectedTags, setSelectedTags] = useState<ReviewTag[]>([]);
+  const [comment, setComment] = useState('');
+
+  const toggleTag = (tag: ReviewTag) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (rating === 0) {
+      alert('Please choose a star rating');
+      return;
+    }
+
+    onSubmit(rating, selectedTags, comment.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-md w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Rate {revieweeName}</h3>
+            <p className="text-sm text-gray-600">{jobTitle}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex justify-center space-x-1">
+            {[1, 2, 3, 4, 5].map(star => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                className="p-1"
+                aria-label={`${star} star${star === 1 ? '' : 's'}`}
+              >
+                <Star
+                  size={32}
+                  className={star <= rating ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}
+                />
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              What went well?
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                    selectedTags.includes(tag)
+                      ? 'bg-green-100 border-green-500 text-green-800'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {REVIEW_TAG_LABELS[tag]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Comment
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value.slice(0, MAX_COMMENT_LENGTH))}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? 'Submitting...' : 'Submit Review'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
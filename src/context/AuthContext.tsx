@@ -1,10 +1,22 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, AuthContextType } from '../types';
 import { supabase, handleSupabaseError } from '../lib/supabase';
+import { profileStorage, mapCoordinates, OFFLINE_CACHE_PREFIX } from '../utils/storage';
+import { getOfflineStore, isNetworkError } from '../lib/offlineStore';
+import { PushSubscriptionManager } from '../utils/pushSubscription';
 import type { AuthError } from '@supabase/supabase-js';
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// The signed-in user's own profile, so the app still opens without signal
+const profileCacheKey = (userId: string) => `${OFFLINE_CACHE_PREFIX}profile:${userId}`;
+
+const cacheProfile = (profile: User) => {
+  getOfflineStore().set(profileCacheKey(profile.id), profile).catch(error => {
+    console.error('Error caching profile:', error);
+  });
+};
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (!context) {
@@ -75,6 +87,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setLoading(false);
           return;
         }
+        if (isNetworkError(error)) {
+          const cached = await getOfflineStore().get<User>(profileCacheKey(userId)).catch(() => undefined);
+          if (cached) {
+            setUser(cached);
+            return;
+          }
+        }
         throw error;
       }
 
@@ -91,6 +110,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           height: data.height || undefined,
           profilePicture: data.profile_picture || undefined,
           workingPicture: data.working_picture || undefined,
+          homeLocation: mapCoordinates(data.home_latitude, data.home_longitude),
           createdAt: data.created_at
         };
 
@@ -101,6 +121,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
 
         setUser(userProfile);
+        cacheProfile(userProfile);
       }
     } catch (error) {
       console.error('Error loading user profile:', error);
@@ -184,6 +205,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       }
 
+      // Check before creating the auth user so a duplicate number does not leave an account without a profile
+      if (await profileStorage.isContactNumberTaken(contactNumber)) {
+        return { success: false, error: 'This contact number is already registered' };
+      }
+
       // Sign up with Supabase Auth
       const { data, error: authError } = await supabase.auth.signUp({
         email,
@@ -265,6 +291,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         if (updates.height !== undefined) updateData.height = updates.height;
         if (updates.profilePicture !== undefined) updateData.profile_picture = updates.profilePicture;
         if (updates.workingPicture !== undefined) updateData.working_picture = updates.workingPicture;
+        // Present but undefined means the pin was cleared
+        if ('homeLocation' in updates) {
+          updateData.home_latitude = updates.homeLocation?.lat ?? null;
+          updateData.home_longitude = updates.homeLocation?.lng ?? null;
+        }
 
         const { error } = await supabase
           .from('profiles')
@@ -273,8 +304,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         if (error) throw error;
 
+        profileStorage.invalidate(user.id);
         const updatedUser = { ...user, ...updates };
         setUser(updatedUser);
+        cacheProfile(updatedUser);
       } catch (error) {
         console.error('Error updating profile:', error);
       }
@@ -284,44 +317,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const logout = async () => {
+    // While still signed in, so the row can be deleted; otherwise the next person
+    // on a shared phone would get this user's pushes
+    await PushSubscriptionManager.unsubscribe();
     try {
       await supabase.auth.signOut();
     } catch (error) {
       console.error('Logout error:', error);
     }
+    profileStorage.invalidate();
+    // Queued actions stay, keyed by user, and replay on their next sign-in
+    await getOfflineStore().clear(OFFLINE_CACHE_PREFIX).catch(error => {
+      console.error('Error clearing offline cache:', error);
+    });
     setUser(null);
   };
 
   const getUserProfile = async (userId: string): Promise<User | null> => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        return {
-          id: data.id,
-          name: data.name,
-          email: '', // Email not stored in profiles
-          contactNumber: data.contact_number,
-          userType: data.user_type,
-          location: data.location || undefined,
-          dateOfBirth: data.date_of_birth || undefined,
-          weight: data.weight || undefined,
-          height: data.height || undefined,
-          profilePicture: data.profile_picture || undefined,
-          workingPicture: data.working_picture || undefined,
-          createdAt: data.created_at
-        };
-      }
-    } catch (error) {
-      console.error('Error getting user profile:', error);
-    }
-    return null;
+    return profileStorage.getProfile(userId);
   };
 
   return (
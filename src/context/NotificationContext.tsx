@@ -0,0 +1,110 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AppNotification } from '../types';
+import { notificationStorage } from '../utils/storage';
+import { useNotifications } from '../hooks/useRealtime';
+import { useAuth } from './AuthContext';
+
+interface NotificationContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  markAsRead: (notificationIds: string[]) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | null>(null);
+
+export function useNotificationCenter() {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotificationCenter must be used within a NotificationProvider');
+  }
+  return context;
+}
+
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  // Counted by the database, since only the latest notifications are loaded
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      notificationStorage.getNotifications(userId),
+      notificationStorage.getUnreadCount(userId)
+    ]).then(([loaded, count]) => {
+      if (!cancelled) {
+        setNotifications(loaded);
+        setUnreadCount(count);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const refreshUnreadCount = useCallback(() => {
+    if (userId) notificationStorage.getUnreadCount(userId).then(setUnreadCount);
+  }, [userId]);
+
+  useNotifications(userId, setNotifications, refreshUnreadCount);
+
+  // Applied locally straight away; the realtime echo of the update is a no-op
+  const markRead = (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev =>
+      prev.map(notification =>
+        ids.includes(notification.id) && !notification.readAt ? { ...notification, readAt } : notification
+      )
+    );
+  };
+
+  const markAsRead = async (notificationIds: string[]) => {
+    if (notificationIds.length === 0) return;
+
+    const newlyRead = notifications.filter(
+      notification => notificationIds.includes(notification.id) && !notification.readAt
+    ).length;
+    setUnreadCount(prev => Math.max(0, prev - newlyRead));
+    markRead(notificationIds);
+    const result = await notificationStorage.markAsRead(notificationIds);
+    if (!result.success) {
+      console.error('Error marking notifications as read:', result.error);
+    }
+    refreshUnreadCount();
+  };
+
+  const markAllAsRead = async () => {
+    if (!userId) return;
+
+    setUnreadCount(0);
+    markRead(notifications.map(notification => notification.id));
+    const result = await notificationStorage.markAllAsRead(userId);
+    if (!result.success) {
+      console.error('Error marking notifications as read:', result.error);
+    }
+    refreshUnreadCount();
+  };
+
+  const value = {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead
+  };
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
@@ -0,0 +1,103 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { OfflineActions, OfflineActionInput, OfflineActionResult, OfflineConflict, QueuedAction, REPLAY_SYNC_TAG } from '../utils/offlineActions';
+import { isOnline } from '../lib/offlineStore';
+import { useAuth } from './AuthContext';
+
+interface OfflineContextType {
+  online: boolean;
+  queued: QueuedAction[];
+  conflicts: OfflineConflict[];
+  lastReplayAt: number; // bumps after each replay that sent something, so pages can reload
+  run: (action: OfflineActionInput) => Promise<OfflineActionResult>;
+  dismissConflicts: () => void;
+}
+
+const OfflineContext = createContext<OfflineContextType | null>(null);
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (!context) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
+
+export function OfflineProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [online, setOnline] = useState(isOnline());
+  const [queued, setQueued] = useState<QueuedAction[]>([]);
+  const [conflicts, setConflicts] = useState<OfflineConflict[]>([]);
+  const [lastReplayAt, setLastReplayAt] = useState(0);
+
+  const replay = useCallback(async () => {
+    if (!userId || !isOnline()) return;
+
+    try {
+      const result = await OfflineActions.replay(userId);
+      if (result.conflicts.length > 0) {
+        setConflicts(prev => [...prev, ...result.conflicts]);
+      }
+      if (result.replayed > 0 || result.conflicts.length > 0) {
+        setLastReplayAt(Date.now());
+      }
+    } catch (error) {
+      console.error('Error replaying queued actions:', error);
+    }
+    setQueued(await OfflineActions.getQueued(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    setConflicts([]);
+    if (!userId) {
+      setQueued([]);
+      return;
+    }
+
+    OfflineActions.getQueued(userId).then(setQueued);
+    replay();
+  }, [userId, replay]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const handleOffline = () => setOnline(false);
+    // Background Sync fires in the service worker, which passes it on here
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_SYNC_TAG) replay();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [replay]);
+
+  const run = async (action: OfflineActionInput): Promise<OfflineActionResult> => {
+    if (!userId) return { success: false, error: 'Please sign in again.' };
+
+    const result = await OfflineActions.run(userId, action);
+    if (result.success && result.queued) {
+      setQueued(await OfflineActions.getQueued(userId));
+    }
+    return result;
+  };
+
+  const value = {
+    online,
+    queued,
+    conflicts,
+    lastReplayAt,
+    run,
+    dismissConflicts: () => setConflicts([])
+  };
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+}
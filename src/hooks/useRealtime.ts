@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState, Dispatch, SetStateAction } from 'react';
+import { Job, Application, JobSearchQuery, AppNotification, Message, User } from '../types';
+import { getRealtimeSource, RealtimeChange } from '../lib/realtime';
+import { mapJob, mapApplication, mapNotification, mapMessage, messageStorage } from '../utils/storage';
+import { GeoLocator } from '../utils/geolocation';
+
+const removeById = <T extends { id: string }>(items: T[], id?: string): T[] =>
+  id && items.some(item => item.id === id) ? items.filter(item => item.id !== id) : items;
+
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some(existing => existing.id === item.id)
+    ? items.map(existing => (existing.id === item.id ? item : existing))
+    : [...items, item];
+
+// Feeds are ordered like jobStorage.searchJobs: nearest first for distance searches, otherwise newest first
+const upsertJob = (jobs: Job[], job: Job, query: JobSearchQuery): Job[] => {
+  if (query.near) return GeoLocator.sortByDistance(upsertById(jobs, job), query.near);
+  if (jobs.some(existing => existing.id === job.id)) return upsertById(jobs, job);
+  const index = jobs.findIndex(existing => existing.createdAt < job.createdAt);
+  return index === -1 ? [...jobs, job] : [...jobs.slice(0, index), job, ...jobs.slice(index)];
+};
+
+const includesText = (value: string, term: string) => value.toLowerCase().includes(term.toLowerCase());
+
+// Client-side copy of the filters jobStorage.searchJobs sends to the database
+const matchesJobQuery = (job: Job, query: JobSearchQuery): boolean => {
+  if (job.deletedAt) return false;
+  if (query.farmerId && job.farmerId !== query.farmerId) return false;
+  if (query.statuses?.length && !query.statuses.includes(job.status)) return false;
+  if (query.durationType && job.durationType !== query.durationType) return false;
+  if (query.wageType && job.wageType !== query.wageType) return false;
+  if (query.minWage !== undefined && job.wage < query.minWage) return false;
+  if (query.maxWage !== undefined && job.wage > query.maxWage) return false;
+  if (query.dateFrom && (!job.preferredDate || job.preferredDate < query.dateFrom)) return false;
+  if (query.dateTo && (!job.preferredDate || job.preferredDate > query.dateTo)) return false;
+  if (query.location?.trim() && !includesText(job.location, query.location.trim())) return false;
+  if (query.near) {
+    if (!job.coordinates) return false;
+    if (GeoLocator.distanceInMeters(query.near, job.coordinates) > query.near.radiusKm * 1000) return false;
+  }
+
+  const term = query.searchTerm?.trim();
+  if (term && ![job.title, job.description, job.location].some(value => includesText(value, term))) return false;
+
+  return true;
+};
+
+/**
+ * Applies a jobs change to a feed loaded with `jobStorage.searchJobs(query)`
+ */
+export const applyJobFeedChange = (jobs: Job[], change: RealtimeChange<'jobs'>, query: JobSearchQuery): Job[] => {
+  if (!change.new) return removeById(jobs, change.old?.id);
+
+  const job = mapJob(change.new);
+  return matchesJobQuery(job, query) ? upsertJob(jobs, job, query) : removeById(jobs, job.id);
+};
+
+export const applyApplicationChange = (applications: Application[], change: RealtimeChange<'applications'>): Application[] =>
+  change.new ? upsertById(applications, mapApplication(change.new)) : removeById(applications, change.old?.id);
+
+// New notifications go on top; changed ones, e.g. read in another tab, stay in place
+export const applyNotificationChange = (
+  notifications: AppNotification[],
+  change: RealtimeChange<'notifications'>
+): AppNotification[] => {
+  if (!change.new) return removeById(notifications, change.old?.id);
+
+  const notification = mapNotification(change.new);
+  return notifications.some(existing => existing.id === notification.id)
+    ? upsertById(notifications, notification)
+    : [notification, ...notifications];
+};
+
+/**
+ * Keeps a job feed loaded with `jobStorage.searchJobs(query)` current: new
+ * matching jobs are added, changed jobs replaced, and jobs that stop matching
+ * (filled, deleted, ...) removed. Pass `null` to stay unsubscribed.
+ */
+export function useJobFeed(query: JobSearchQuery | null, setJobs: Dispatch<SetStateAction<Job[]>>) {
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const farmerId = query?.farmerId;
+  const enabled = query !== null;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return getRealtimeSource().subscribe(
+      farmerId ? { table: 'jobs', column: 'farmer_id', values: [farmerId] } : { table: 'jobs' },
+      change => {
+        setJobs(prev => (queryRef.current ? applyJobFeedChange(prev, change, queryRef.current) : prev));
+      }
+    );
+  }, [enabled, farmerId, setJobs]);
+}
+
+/**
+ * Calls `onUpdate` whenever one of the given jobs changes
+ */
+export function useJobUpdates(jobIds: string[], onUpdate: (job: Job) => void) {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const idsKey = [...jobIds].sort().join(',');
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    return getRealtimeSource().subscribe(
+      { table: 'jobs', column: 'id', values: idsKey.split(',') },
+      change => {
+        if (change.new) onUpdateRef.current(mapJob(change.new));
+      }
+    );
+  }, [idsKey]);
+}
+
+/**
+ * Keeps the applications for the given jobs current. `onInsert` runs for new
+ * applications, e.g. to fetch the applicant's profile.
+ */
+export function useJobApplications(
+  jobIds: string[],
+  setApplications: Dispatch<SetStateAction<Application[]>>,
+  onInsert?: (application: Application) => void
+) {
+  const onInsertRef = useRef(onInsert);
+  onInsertRef.current = onInsert;
+  const idsKey = [...jobIds].sort().join(',');
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    return getRealtimeSource().subscribe(
+      { table: 'applications', column: 'job_id', values: idsKey.split(',') },
+      change => {
+        setApplications(prev => applyApplicationChange(prev, change));
+        if (change.eventType === 'INSERT' && change.new) onInsertRef.current?.(mapApplication(change.new));
+      }
+    );
+  }, [idsKey, setApplications]);
+}
+
+/**
+ * Keeps a worker's own applications current, so status changes made by the
+ * farmer show up without a reload
+ */
+export function useWorkerApplications(
+  workerId: string | undefined,
+  setApplications: Dispatch<SetStateAction<Application[]>>
+) {
+  useEffect(() => {
+    if (!workerId) return;
+
+    return getRealtimeSource().subscribe(
+      { table: 'applications', column: 'worker_id', values: [workerId] },
+      change => {
+        setApplications(prev => applyApplicationChange(prev, change));
+      }
+    );
+  }, [workerId, setApplications]);
+}
+
+/**
+ * Keeps a user's notifications current: new ones are added at the top and
+ * read receipts from other tabs are applied. `onChange` runs after every
+ * change, including ones to notifications older than the loaded page.
+ */
+export function useNotifications(
+  userId: string | undefined,
+  setNotifications: Dispatch<SetStateAction<AppNotification[]>>,
+  onChange?: () => void
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return getRealtimeSource().subscribe(
+      { table: 'notifications', column: 'user_id', values: [userId] },
+      change => {
+        setNotifications(prev => applyNotificationChange(prev, change));
+        onChangeRef.current?.();
+      }
+    );
+  }, [userId, setNotifications]);
+}
+
+/**
+ * Calls `onMessage` for every new or updated message in the user's threads,
+ * whichever side sent it
+ */
+export function useMessages(user: User | null, onMessage: (message: Message) => void) {
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const userId = user?.id;
+  const column = user?.userType === 'farmer' ? 'farmer_id' : 'worker_id';
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return getRealtimeSource().subscribe(
+      { table: 'messages', column, values: [userId] },
+      change => {
+        if (change.new) onMessageRef.current(mapMessage(change.new));
+      }
+    );
+  }, [userId, column]);
+}
+
+/**
+ * Unread message counts per thread (see `threadKey`), recounted whenever a
+ * message arrives or a thread is read
+ */
+export function useUnreadMessageCounts(user: User | null): Record<string, number> {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setCounts({});
+      return;
+    }
+
+    let cancelled = false;
+    messageStorage.getUnreadCounts(userId).then(loaded => {
+      if (!cancelled) setCounts(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useMessages(user, () => {
+    if (userId) messageStorage.getUnreadCounts(userId).then(setCounts);
+  });
+
+  return counts;
+}
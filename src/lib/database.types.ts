@@ -21,6 +21,8 @@ export interface Database {
           height: number | null
           profile_picture: string | null
           working_picture: string | null
+          home_latitude: number | null
+          home_longitude: number | null
           created_at: string
           updated_at: string
         }
@@ -35,6 +37,8 @@ export interface Database {
           height?: number | null
           profile_picture?: string | null
           working_picture?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -49,6 +53,8 @@ export interface Database {
           height?: number | null
           profile_picture?: string | null
           working_picture?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -64,12 +70,20 @@ export interface Database {
           wage: number
           duration: number
           duration_type: 'hours' | 'days'
+          wage_type: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          wage_unit: string | null
+          estimated_units: number | null
           location: string
           required_workers: number
           accepted_worker_ids: string[]
-          status: 'open' | 'filled' | 'in-progress' | 'completed'
+          status: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          deletion_reason: string | null
+          waitlist_enabled: boolean
+          latitude: number | null
+          longitude: number | null
         }
         Insert: {
           id?: string
@@ -81,12 +95,20 @@ export interface Database {
           wage: number
           duration: number
           duration_type?: 'hours' | 'days'
+          wage_type?: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          wage_unit?: string | null
+          estimated_units?: number | null
           location: string
           required_workers?: number
           accepted_worker_ids?: string[]
-          status?: 'open' | 'filled' | 'in-progress' | 'completed'
+          status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deletion_reason?: string | null
+          waitlist_enabled?: boolean
+          latitude?: number | null
+          longitude?: number | null
         }
         Update: {
           id?: string
@@ -98,12 +120,20 @@ export interface Database {
           wage?: number
           duration?: number
           duration_type?: 'hours' | 'days'
+          wage_type?: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          wage_unit?: string | null
+          estimated_units?: number | null
           location?: string
           required_workers?: number
           accepted_worker_ids?: string[]
-          status?: 'open' | 'filled' | 'in-progress' | 'completed'
+          status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deletion_reason?: string | null
+          waitlist_enabled?: boolean
+          latitude?: number | null
+          longitude?: number | null
         }
       }
       applications: {
@@ -114,11 +144,22 @@ export interface Database {
           worker_name: string
           worker_email: string
           message: string | null
-          status: 'pending' | 'accepted' | 'rejected'
+          status: 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'withdrawn-by-farmer'
           applied_at: string
           rejected_at: string | null
           created_at: string
           updated_at: string
+          withdrawn_at: string | null
+          withdrawal_reason: string | null
+          availability_note: string | null
+          proposed_wage: number | null
+          proposal_status: 'pending' | 'accepted' | 'declined' | null
+          agreed_wage: number | null
+          accepted_at: string | null
+          shortlisted_at: string | null
+          waitlist_position: number | null
+          offered_at: string | null
+          offer_expires_at: string | null
         }
         Insert: {
           id?: string
@@ -127,11 +168,22 @@ export interface Database {
           worker_name: string
           worker_email: string
           message?: string | null
-          status?: 'pending' | 'accepted' | 'rejected'
+          status?: 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'withdrawn-by-farmer'
           applied_at?: string
           rejected_at?: string | null
           created_at?: string
           updated_at?: string
+          withdrawn_at?: string | null
+          withdrawal_reason?: string | null
+          availability_note?: string | null
+          proposed_wage?: number | null
+          proposal_status?: 'pending' | 'accepted' | 'declined' | null
+          agreed_wage?: number | null
+          accepted_at?: string | null
+          shortlisted_at?: string | null
+          waitlist_position?: number | null
+          offered_at?: string | null
+          offer_expires_at?: string | null
         }
         Update: {
           id?: string
@@ -140,25 +192,863 @@ export interface Database {
           worker_name?: string
           worker_email?: string
           message?: string | null
-          status?: 'pending' | 'accepted' | 'rejected'
+          status?: 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'withdrawn-by-farmer'
           applied_at?: string
           rejected_at?: string | null
           created_at?: string
           updated_at?: string
+          withdrawn_at?: string | null
+          withdrawal_reason?: string | null
+          availability_note?: string | null
+          proposed_wage?: number | null
+          proposal_status?: 'pending' | 'accepted' | 'declined' | null
+          agreed_wage?: number | null
+          accepted_at?: string | null
+          shortlisted_at?: string | null
+          waitlist_position?: number | null
+          offered_at?: string | null
+          offer_expires_at?: string | null
+        }
+      }
+      job_status_history: {
+        Row: {
+          id: string
+          job_id: string
+          from_status: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed' | null
+          to_status: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
+          changed_by: string | null
+          changed_by_name: string | null
+          reason: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          from_status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed' | null
+          to_status: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
+          changed_by?: string | null
+          changed_by_name?: string | null
+          reason?: string | null
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          from_status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed' | null
+          to_status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
+          changed_by?: string | null
+          changed_by_name?: string | null
+          reason?: string | null
+          changed_at?: string
+        }
+      }
+      attendance: {
+        Row: {
+          id: string
+          job_id: string
+          worker_id: string
+          work_date: string
+          status: 'checked-in' | 'checked-out' | 'no-show'
+          check_in_at: string | null
+          check_in_latitude: number | null
+          check_in_longitude: number | null
+          check_in_accuracy_m: number | null
+          check_in_distance_m: number | null
+          check_in_received_at: string | null
+          check_out_at: string | null
+          check_out_latitude: number | null
+          check_out_longitude: number | null
+          check_out_accuracy_m: number | null
+          check_out_distance_m: number | null
+          check_out_received_at: string | null
+          confirmed_at: string | null
+          confirmed_by: string | null
+          farmer_note: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          worker_id: string
+          work_date?: string
+          status: 'checked-in' | 'checked-out' | 'no-show'
+          check_in_at?: string | null
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
+          check_in_accuracy_m?: number | null
+          check_in_distance_m?: number | null
+          check_in_received_at?: string | null
+          check_out_at?: string | null
+          check_out_latitude?: number | null
+          check_out_longitude?: number | null
+          check_out_accuracy_m?: number | null
+          check_out_distance_m?: number | null
+          check_out_received_at?: string | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          farmer_note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          worker_id?: string
+          work_date?: string
+          status?: 'checked-in' | 'checked-out' | 'no-show'
+          check_in_at?: string | null
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
+          check_in_accuracy_m?: number | null
+          check_in_distance_m?: number | null
+          check_in_received_at?: string | null
+          check_out_at?: string | null
+          check_out_latitude?: number | null
+          check_out_longitude?: number | null
+          check_out_accuracy_m?: number | null
+          check_out_distance_m?: number | null
+          check_out_received_at?: string | null
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          farmer_note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      invitations: {
+        Row: {
+          id: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          message: string | null
+          status: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          created_at: string
+          responded_at: string | null
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          message?: string | null
+          status?: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          created_at?: string
+          responded_at?: string | null
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          farmer_id?: string
+          worker_id?: string
+          message?: string | null
+          status?: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          created_at?: string
+          responded_at?: string | null
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string | null
+          job_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          title: string
+          body?: string | null
+          job_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          body?: string | null
+          job_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      timesheets: {
+        Row: {
+          id: string
+          job_id: string
+          worker_id: string
+          hours_worked: number | null
+          days_worked: number | null
+          units_completed: number | null
+          note: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          worker_id: string
+          hours_worked?: number | null
+          days_worked?: number | null
+          units_completed?: number | null
+          note?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          worker_id?: string
+          hours_worked?: number | null
+          days_worked?: number | null
+          units_completed?: number | null
+          note?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      payroll_adjustments: {
+        Row: {
+          id: string
+          job_id: string
+          worker_id: string
+          kind: 'bonus' | 'deduction' | 'advance'
+          amount: number
+          note: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          worker_id: string
+          kind: 'bonus' | 'deduction' | 'advance'
+          amount: number
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          worker_id?: string
+          kind?: 'bonus' | 'deduction' | 'advance'
+          amount?: number
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      job_statements: {
+        Row: {
+          id: string
+          job_id: string
+          worker_id: string
+          wage_type: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          rate: number
+          quantity: number
+          quantity_unit: string
+          quantity_source: 'attendance' | 'timesheet' | 'planned'
+          base_amount: number
+          bonus_total: number
+          deduction_total: number
+          advance_total: number
+          net_amount: number
+          adjustments: Json
+          locked_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          worker_id: string
+          wage_type: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          rate: number
+          quantity: number
+          quantity_unit: string
+          quantity_source: 'attendance' | 'timesheet' | 'planned'
+          base_amount: number
+          bonus_total?: number
+          deduction_total?: number
+          advance_total?: number
+          net_amount: number
+          adjustments?: Json
+          locked_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          worker_id?: string
+          wage_type?: 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit'
+          rate?: number
+          quantity?: number
+          quantity_unit?: string
+          quantity_source?: 'attendance' | 'timesheet' | 'planned'
+          base_amount?: number
+          bonus_total?: number
+          deduction_total?: number
+          advance_total?: number
+          net_amount?: number
+          adjustments?: Json
+          locked_at?: string
+        }
+      }
+      payments: {
+        Row: {
+          id: string
+          statement_id: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          amount: number
+          method: 'cash' | 'bank' | 'esewa' | 'khalti' | 'other'
+          reference: string | null
+          note: string | null
+          status: 'recorded' | 'confirmed' | 'disputed'
+          paid_at: string
+          confirmed_at: string | null
+          disputed_at: string | null
+          dispute_reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          statement_id: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          amount: number
+          method: 'cash' | 'bank' | 'esewa' | 'khalti' | 'other'
+          reference?: string | null
+          note?: string | null
+          status?: 'recorded' | 'confirmed' | 'disputed'
+          paid_at?: string
+          confirmed_at?: string | null
+          disputed_at?: string | null
+          dispute_reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          statement_id?: string
+          job_id?: string
+          farmer_id?: string
+          worker_id?: string
+          amount?: number
+          method?: 'cash' | 'bank' | 'esewa' | 'khalti' | 'other'
+          reference?: string | null
+          note?: string | null
+          status?: 'recorded' | 'confirmed' | 'disputed'
+          paid_at?: string
+          confirmed_at?: string | null
+          disputed_at?: string | null
+          dispute_reason?: string | null
+          created_at?: string
+        }
+      }
+      reviews: {
+        Row: {
+          id: string
+          job_id: string
+          reviewer_id: string
+          reviewee_id: string
+          reviewer_role: 'farmer' | 'worker'
+          rating: number
+          tags: ('punctual' | 'hardworking' | 'skilled' | 'respectful' | 'would_work_again' | 'fair_pay' | 'paid_on_time' | 'safe_conditions' | 'clear_instructions')[]
+          comment: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          reviewer_id: string
+          reviewee_id: string
+          reviewer_role: 'farmer' | 'worker'
+          rating: number
+          tags?: ('punctual' | 'hardworking' | 'skilled' | 'respectful' | 'would_work_again' | 'fair_pay' | 'paid_on_time' | 'safe_conditions' | 'clear_instructions')[]
+          comment?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          reviewer_id?: string
+          reviewee_id?: string
+          reviewer_role?: 'farmer' | 'worker'
+          rating?: number
+          tags?: ('punctual' | 'hardworking' | 'skilled' | 'respectful' | 'would_work_again' | 'fair_pay' | 'paid_on_time' | 'safe_conditions' | 'clear_instructions')[]
+          comment?: string | null
+          created_at?: string
+        }
+      }
+      messages: {
+        Row: {
+          id: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          sender_id: string
+          body: string
+          is_broadcast: boolean
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          farmer_id: string
+          worker_id: string
+          sender_id: string
+          body: string
+          is_broadcast?: boolean
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          farmer_id?: string
+          worker_id?: string
+          sender_id?: string
+          body?: string
+          is_broadcast?: boolean
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          email: boolean
+          sms: boolean
+          push: boolean
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          email?: boolean
+          sms?: boolean
+          push?: boolean
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          email?: boolean
+          sms?: boolean
+          push?: boolean
+          updated_at?: string
+        }
+      }
+      outbox: {
+        Row: {
+          id: string
+          user_id: string
+          notification_id: string | null
+          channel: 'email' | 'sms' | 'push'
+          template: string
+          recipient: string | null
+          payload: Json
+          status: 'pending' | 'sent' | 'failed'
+          attempts: number
+          last_error: string | null
+          next_attempt_at: string
+          created_at: string
+          sent_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          notification_id?: string | null
+          channel: 'email' | 'sms' | 'push'
+          template: string
+          recipient?: string | null
+          payload?: Json
+          status?: 'pending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          created_at?: string
+          sent_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          notification_id?: string | null
+          channel?: 'email' | 'sms' | 'push'
+          template?: string
+          recipient?: string | null
+          payload?: Json
+          status?: 'pending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          created_at?: string
+          sent_at?: string | null
+        }
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string | null
+          created_at?: string
         }
       }
     }
     Views: {
-      [_ in never]: never
+      rating_summaries: {
+        Row: {
+          user_id: string
+          review_count: number
+          average_rating: number
+          top_tags: ('punctual' | 'hardworking' | 'skilled' | 'respectful' | 'would_work_again' | 'fair_pay' | 'paid_on_time' | 'safe_conditions' | 'clear_instructions')[]
+        }
+      }
+      statement_balances: {
+        Row: {
+          statement_id: string
+          job_id: string
+          job_title: string
+          farmer_id: string
+          worker_id: string
+          net_amount: number
+          paid_amount: number
+          confirmed_amount: number
+          disputed_amount: number
+          outstanding_amount: number
+          locked_at: string
+        }
+      }
+      worker_reliability: {
+        Row: {
+          worker_id: string
+          jobs_accepted: number
+          jobs_completed: number
+          completion_rate: number | null
+          no_shows: number
+          attendance_days: number
+          late_withdrawals: number
+          average_rating: number | null
+          review_count: number
+          farmers_worked_for: number
+          rehire_rate: number | null
+        }
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_application: {
+        Args: {
+          p_application_id: string
+        }
+        Returns: Json
+      }
+      accept_applications: {
+        Args: {
+          p_job_id: string
+          p_application_ids: string[]
+        }
+        Returns: Json
+      }
+      add_payroll_adjustment: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+          p_kind: 'bonus' | 'deduction' | 'advance'
+          p_amount: number
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      broadcast_message: {
+        Args: {
+          p_job_id: string
+          p_body: string
+        }
+        Returns: Json
+      }
+      check_in: {
+        Args: {
+          p_job_id: string
+          p_latitude?: number | null
+          p_longitude?: number | null
+          p_accuracy_m?: number | null
+          p_recorded_at?: string | null
+        }
+        Returns: Json
+      }
+      check_out: {
+        Args: {
+          p_job_id: string
+          p_latitude?: number | null
+          p_longitude?: number | null
+          p_accuracy_m?: number | null
+          p_recorded_at?: string | null
+        }
+        Returns: Json
+      }
+      claim_outbox: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database['public']['Tables']['outbox']['Row'][]
+      }
+      complete_outbox: {
+        Args: {
+          p_id: string
+          p_error?: string | null
+        }
+        Returns: undefined
+      }
+      confirm_attendance: {
+        Args: {
+          p_attendance_id: string
+          p_check_in_at?: string | null
+          p_check_out_at?: string | null
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      confirm_payment: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: Json
+      }
+      delete_job: {
+        Args: {
+          p_job_id: string
+          p_reason?: string | null
+        }
+        Returns: Json
+      }
+      dispute_payment: {
+        Args: {
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
+      get_job_payroll: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Json
+      }
+      invite_worker: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+          p_message?: string | null
+        }
+        Returns: Json
+      }
+      is_contact_number_taken: {
+        Args: {
+          p_contact_number: string
+          p_exclude_user_id?: string | null
+        }
+        Returns: boolean
+      }
+      mark_no_show: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+          p_work_date?: string
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      mark_thread_read: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+        }
+        Returns: Json
+      }
+      raise_job_wage: {
+        Args: {
+          p_job_id: string
+          p_new_wage: number
+        }
+        Returns: Json
+      }
+      record_payment: {
+        Args: {
+          p_statement_id: string
+          p_amount: number
+          p_method: 'cash' | 'bank' | 'esewa' | 'khalti' | 'other'
+          p_reference?: string | null
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      reject_applications: {
+        Args: {
+          p_job_id: string
+          p_application_ids?: string[] | null
+          p_message?: string | null
+        }
+        Returns: Json
+      }
+      remove_payroll_adjustment: {
+        Args: {
+          p_adjustment_id: string
+        }
+        Returns: Json
+      }
+      respond_to_invitation: {
+        Args: {
+          p_invitation_id: string
+          p_accept: boolean
+        }
+        Returns: Json
+      }
+      respond_to_wage_proposal: {
+        Args: {
+          p_application_id: string
+          p_accept: boolean
+        }
+        Returns: Json
+      }
+      respond_to_waitlist_offer: {
+        Args: {
+          p_application_id: string
+          p_accept: boolean
+        }
+        Returns: Json
+      }
+      save_push_subscription: {
+        Args: {
+          p_endpoint: string
+          p_p256dh: string
+          p_auth: string
+          p_user_agent?: string | null
+        }
+        Returns: Json
+      }
+      search_nearby_jobs: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_m: number
+          p_statuses?: string[] | null
+          p_farmer_id?: string | null
+          p_min_wage?: number | null
+          p_max_wage?: number | null
+          p_duration_type?: string | null
+          p_wage_type?: string | null
+          p_location?: string | null
+          p_search_term?: string | null
+          p_date_from?: string | null
+          p_date_to?: string | null
+          p_after_distance?: number | null
+          p_after_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          job: Database['public']['Tables']['jobs']['Row']
+          distance_m: number
+        }[]
+      }
+      send_message: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+          p_body: string
+        }
+        Returns: Json
+      }
+      set_timesheet: {
+        Args: {
+          p_job_id: string
+          p_worker_id: string
+          p_hours?: number | null
+          p_days?: number | null
+          p_units?: number | null
+          p_note?: string | null
+        }
+        Returns: Json
+      }
+      set_waitlist: {
+        Args: {
+          p_job_id: string
+          p_enabled: boolean
+          p_application_ids?: string[] | null
+        }
+        Returns: Json
+      }
+      submit_review: {
+        Args: {
+          p_job_id: string
+          p_reviewee_id: string
+          p_rating: number
+          p_tags?: ('punctual' | 'hardworking' | 'skilled' | 'respectful' | 'would_work_again' | 'fair_pay' | 'paid_on_time' | 'safe_conditions' | 'clear_instructions')[]
+          p_comment?: string | null
+        }
+        Returns: Json
+      }
+      transition_job_status: {
+        Args: {
+          p_job_id: string
+          p_status: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['jobs']['Row']
+      }
+      update_job: {
+        Args: {
+          p_job_id: string
+          p_changes?: Json
+          p_status?: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed' | null
+          p_reason?: string | null
+          p_new_wage?: number | null
+        }
+        Returns: Json
+      }
+      withdraw_application: {
+        Args: {
+          p_application_id: string
+          p_reason?: string | null
+        }
+        Returns: Json
+      }
     }
     Enums: {
       user_type_enum: 'farmer' | 'worker'
-      job_status_enum: 'open' | 'filled' | 'in-progress' | 'completed'
+      job_status_enum: 'open' | 'filled' | 'in-progress' | 'completed' | 'cancelled' | 'expired' | 'disputed'
       duration_type_enum: 'hours' | 'days'
-      application_status_enum: 'pending' | 'accepted' | 'rejected'
+      application_status_enum: 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'withdrawn-by-farmer'
     }
   }
 }
\ No newline at end of file
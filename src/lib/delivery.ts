@@ -0,0 +1,173 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from './database.types';
+import { NotificationChannel } from '../types';
+import { NotificationTemplates, RenderedMessage, TemplatePayload } from '../utils/notificationTemplates';
+
+type OutboxRow = Database['public']['Tables']['outbox']['Row'];
+
+export interface OutboxMessage {
+  id: string;
+  userId: string;
+  channel: NotificationChannel;
+  template: string;
+  recipient?: string; // email address or phone number; empty for push
+  payload: TemplatePayload;
+  attempts: number;
+  createdAt: string;
+}
+
+/**
+ * Sends one rendered message. Implementations throw when the provider
+ * rejects it; the dispatcher records the error and the outbox retries.
+ */
+export interface DeliveryChannel {
+  send(message: OutboxMessage, rendered: RenderedMessage): Promise<void>;
+}
+
+/**
+ * Where queued messages come from. Production uses the `outbox` table;
+ * tests and local runs use a `LocalOutbox`.
+ */
+export interface OutboxStore {
+  claim(limit: number): Promise<OutboxMessage[]>;
+  complete(id: string, error?: string): Promise<void>;
+}
+
+const mapOutboxMessage = (row: OutboxRow): OutboxMessage => ({
+  id: row.id,
+  userId: row.user_id,
+  channel: row.channel,
+  template: row.template,
+  recipient: row.recipient || undefined,
+  payload: (row.payload || {}) as TemplatePayload,
+  attempts: row.attempts,
+  createdAt: row.created_at
+});
+
+/**
+ * Outbox backed by the database. `claim_outbox` and `complete_outbox` are
+ * only executable by the service role, so pass a client created with the
+ * service key, never the browser client.
+ */
+export const createSupabaseOutbox = (client: SupabaseClient<Database>): OutboxStore => ({
+  claim: async (limit: number) => {
+    const { data, error } = await client.rpc('claim_outbox', { p_limit: limit });
+    if (error) throw error;
+    return ((data as OutboxRow[] | null) || []).map(mapOutboxMessage);
+  },
+
+  complete: async (id: string, error?: string) => {
+    const { error: rpcError } = await client.rpc('complete_outbox', { p_id: id, p_error: error ?? null });
+    if (rpcError) throw rpcError;
+  }
+});
+
+/**
+ * In-memory outbox. Messages passed to `enqueue` are claimed in order;
+ * `messages` shows where each one ended up.
+ */
+export class LocalOutbox implements OutboxStore {
+  private rows: (OutboxMessage & { status: 'pending' | 'sent' | 'failed'; lastError?: string })[] = [];
+  private nextId = 0;
+
+  constructor(private maxAttempts = 5) {}
+
+  enqueue(message: Omit<OutboxMessage, 'id' | 'attempts' | 'createdAt'>): OutboxMessage {
+    const row = {
+      ...message,
+      id: `local-${++this.nextId}`,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      status: 'pending' as const
+    };
+    this.rows.push(row);
+    return row;
+  }
+
+  async claim(limit: number): Promise<OutboxMessage[]> {
+    const due = this.rows.filter(row => row.status === 'pending').slice(0, limit);
+    due.forEach(row => {
+      row.attempts += 1;
+    });
+    return due.map(row => ({ ...row }));
+  }
+
+  async complete(id: string, error?: string): Promise<void> {
+    const row = this.rows.find(existing => existing.id === id);
+    if (!row) return;
+
+    if (!error) {
+      row.status = 'sent';
+      row.lastError = undefined;
+    } else {
+      row.status = row.attempts >= this.maxAttempts ? 'failed' : 'pending';
+      row.lastError = error;
+    }
+  }
+
+  get messages() {
+    return this.rows.map(row => ({ ...row }));
+  }
+}
+
+/**
+ * Writes messages to the console instead of sending them, so the whole
+ * pipeline can run without a provider
+ */
+export const consoleChannel = (channel: NotificationChannel): DeliveryChannel => ({
+  send: async (message, rendered) => {
+    console.log(`[${channel}] to ${message.recipient || message.userId}: ${rendered.subject}\n${rendered.text}`);
+  }
+});
+
+/**
+ * Posts messages as JSON to a provider endpoint (an email or SMS gateway, or
+ * a small API in front of one)
+ */
+export const webhookChannel = (endpoint: string, headers: Record<string, string> = {}): DeliveryChannel => ({
+  send: async (message, rendered) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ to: message.recipient, subject: rendered.subject, text: rendered.text })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Provider responded with ${response.status}`);
+    }
+  }
+});
+
+/**
+ * Claims due messages, renders each with its template and hands it to the
+ * channel. Messages for channels that are not configured fail and are
+ * retried, so adding a channel later still delivers the backlog.
+ * `npm run outbox:dispatch` runs it against the database.
+ */
+export async function dispatchOutbox(
+  store: OutboxStore,
+  channels: Partial<Record<NotificationChannel, DeliveryChannel>>,
+  limit = 20
+): Promise<{ sent: number; failed: number }> {
+  const messages = await store.claim(limit);
+  let sent = 0;
+  let failed = 0;
+
+  for (const message of messages) {
+    const channel = channels[message.channel];
+    try {
+      if (!channel) {
+        throw new Error(`No ${message.channel} channel configured`);
+      }
+
+      await channel.send(message, NotificationTemplates.render(message.channel, message.template, message.payload));
+      await store.complete(message.id);
+      sent += 1;
+    } catch (error) {
+      await store.complete(message.id, error instanceof Error ? error.message : String(error));
+      failed += 1;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,100 @@
+/**
+ * Key-value storage that survives reloads without signal. The app uses
+ * IndexedDB; tests and browsers without it get a `MemoryStore`.
+ */
+export interface OfflineStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(prefix: string): Promise<void>; // removes every key starting with prefix
+}
+
+const DB_NAME = 'kheticulture-offline';
+const STORE_NAME = 'entries';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const indexedDbStore: OfflineStore = {
+  get: <T>(key: string) => runRequest<T | undefined>('readonly', store => store.get(key)),
+
+  set: async <T>(key: string, value: T) => {
+    await runRequest('readwrite', store => store.put(value, key));
+  },
+
+  remove: async (key: string) => {
+    await runRequest('readwrite', store => store.delete(key));
+  },
+
+  clear: async (prefix: string) => {
+    await runRequest('readwrite', store => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  }
+};
+
+export class MemoryStore implements OfflineStore {
+  private entries = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.entries.get(key) as T | undefined;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    // Copy like IndexedDB's structured clone, so later edits to value do not leak in
+    this.entries.set(key, structuredClone(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix: string): Promise<void> {
+    [...this.entries.keys()].filter(key => key.startsWith(prefix)).forEach(key => this.entries.delete(key));
+  }
+}
+
+let activeStore: OfflineStore = typeof indexedDB !== 'undefined' ? indexedDbStore : new MemoryStore();
+
+export const getOfflineStore = (): OfflineStore => activeStore;
+
+// The offline action check (`npm run offline:check`) installs a MemoryStore here
+export const setOfflineStore = (store: OfflineStore): void => {
+  activeStore = store;
+};
+
+export const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * True for failures caused by missing signal rather than by the server
+ * refusing the request. Takes the thrown error or the message storage
+ * methods return.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!isOnline()) return true;
+  const message = typeof error === 'string' ? error : (error as { message?: string } | null)?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
@@ -0,0 +1,117 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Database } from './database.types';
+
+type Tables = Database['public']['Tables'];
+
+export type RealtimeTable = keyof Tables;
+export type RealtimeRow<T extends RealtimeTable> = Tables[T]['Row'];
+
+export interface RealtimeChange<T extends RealtimeTable> {
+  table: T;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: RealtimeRow<T> | null; // null for deletes
+  old: Partial<RealtimeRow<T>> | null; // deletes only carry the primary key
+}
+
+// Realtime accepts a single `column=eq.value` or `column=in.(a,b)` filter per subscription
+export interface RealtimeSubscription<T extends RealtimeTable> {
+  table: T;
+  column?: keyof RealtimeRow<T> & string;
+  values?: string[];
+}
+
+export type RealtimeListener<T extends RealtimeTable> = (change: RealtimeChange<T>) => void;
+
+/**
+ * Where row changes come from. The app uses Supabase Realtime; tests swap in
+ * a `LocalRealtime` and emit changes by hand.
+ */
+export interface RealtimeSource {
+  subscribe<T extends RealtimeTable>(subscription: RealtimeSubscription<T>, onChange: RealtimeListener<T>): () => void;
+}
+
+let channelCount = 0;
+
+export const supabaseRealtime: RealtimeSource = {
+  subscribe: <T extends RealtimeTable>(subscription: RealtimeSubscription<T>, onChange: RealtimeListener<T>) => {
+    const { table, column, values } = subscription;
+    let filter: string | undefined;
+    if (column && values) {
+      filter = values.length === 1 ? `${column}=eq.${values[0]}` : `${column}=in.(${values.join(',')})`;
+    }
+
+    const channel = supabase
+      .channel(`${table}-changes-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload: RealtimePostgresChangesPayload<RealtimeRow<T>>) => {
+          onChange({
+            table,
+            eventType: payload.eventType,
+            new: payload.eventType === 'DELETE' ? null : (payload.new as RealtimeRow<T>),
+            old: payload.eventType === 'INSERT' ? null : (payload.old as Partial<RealtimeRow<T>>)
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
+
+/**
+ * In-process stand-in for Supabase Realtime. Changes passed to `emit` reach
+ * every subscriber whose table and filter match, synchronously.
+ */
+export class LocalRealtime implements RealtimeSource {
+  private listeners = new Set<{
+    table: RealtimeTable;
+    column?: string;
+    values?: string[];
+    notify: (change: unknown) => void;
+  }>();
+
+  subscribe<T extends RealtimeTable>(subscription: RealtimeSubscription<T>, onChange: RealtimeListener<T>): () => void {
+    const listener = {
+      table: subscription.table,
+      column: subscription.column,
+      values: subscription.values,
+      notify: (change: unknown) => onChange(change as RealtimeChange<T>)
+    };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit<T extends RealtimeTable>(change: RealtimeChange<T>): void {
+    this.listeners.forEach(({ table, column, values, notify }) => {
+      if (table !== change.table) return;
+
+      if (column && values) {
+        const row = (change.new ?? change.old) as Record<string, unknown> | null;
+        const value = row?.[column];
+        if (typeof value !== 'string' || !values.includes(value)) return;
+      }
+
+      notify(change);
+    });
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+}
+
+let activeSource: RealtimeSource = supabaseRealtime;
+
+export const getRealtimeSource = (): RealtimeSource => activeSource;
+
+// The realtime check (`npm run realtime:check`) installs a LocalRealtime here
+export const setRealtimeSource = (source: RealtimeSource): void => {
+  activeSource = source;
+};
@@ -0,0 +1,230 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from './database.types';
+import { DeliveryChannel } from './delivery';
+import { getNotificationPath } from '../utils/notificationRoutes';
+
+type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row'];
+
+export interface WebPushSubscription {
+  endpoint: string;
+  p256dh: string; // base64url, uncompressed P-256 point
+  auth: string; // base64url, 16 bytes
+}
+
+// Keys in the format `web-push generate-vapid-keys` prints
+export interface VapidKeys {
+  publicKey: string; // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, 32-byte scalar
+  subject: string; // mailto: or https: contact for the push service
+}
+
+// What the service worker's push handler expects
+export interface PushMessage {
+  title: string;
+  body?: string;
+  url?: string;
+  tag?: string;
+}
+
+type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+const encoder = new TextEncoder();
+
+export const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export const bytesToBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const hkdf = async (salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+};
+
+/**
+ * Signs the VAPID token (RFC 8292) for the push service behind `endpoint`
+ * and returns the Authorization header value
+ */
+export async function createVapidAuthorization(endpoint: string, vapid: VapidKeys, expiresInSeconds = 12 * 60 * 60): Promise<string> {
+  const publicKey = base64UrlToBytes(vapid.publicKey);
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: bytesToBase64Url(publicKey.slice(1, 33)),
+      y: bytesToBase64Url(publicKey.slice(33, 65))
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const encodePart = (part: object) => bytesToBase64Url(encoder.encode(JSON.stringify(part)));
+  const unsigned = `${encodePart({ typ: 'JWT', alg: 'ES256' })}.${encodePart({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    sub: vapid.subject
+  })}`;
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, encoder.encode(unsigned));
+
+  return `vapid t=${unsigned}.${bytesToBase64Url(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for one subscription with the `aes128gcm` content
+ * encoding (RFC 8291), as a single record
+ */
+export async function encryptPushPayload(subscription: WebPushSubscription, payload: string): Promise<Uint8Array> {
+  const userAgentPublicKey = base64UrlToBytes(subscription.p256dh);
+  const authSecret = base64UrlToBytes(subscription.auth);
+
+  const localKeys = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits'])) as CryptoKeyPair;
+  const localPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', localKeys.publicKey));
+  const userAgentKey = await crypto.subtle.importKey('raw', userAgentPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: userAgentKey }, localKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), userAgentPublicKey, localPublicKey);
+  const inputKey = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, inputKey, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, inputKey, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record; no padding
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, 4096);
+  return concat(salt, recordSize, new Uint8Array([localPublicKey.length]), localPublicKey, ciphertext);
+}
+
+/**
+ * Sends one message to one subscription. `gone` means the browser dropped
+ * the subscription and it should be deleted.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  message: PushMessage,
+  vapid: VapidKeys,
+  options: { ttl?: number; fetch?: FetchLike } = {}
+): Promise<{ status: number; gone: boolean }> {
+  const send = options.fetch ?? fetch;
+  const response = await send(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: await createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttl ?? 24 * 60 * 60)
+    },
+    body: await encryptPushPayload(subscription, JSON.stringify(message))
+  });
+
+  const gone = response.status === 404 || response.status === 410;
+  if (!response.ok && !gone) {
+    throw new Error(`Push service responded with ${response.status}`);
+  }
+  return { status: response.status, gone };
+}
+
+export interface PushSubscriptionStore {
+  getSubscriptions(userId: string): Promise<WebPushSubscription[]>;
+  remove(endpoint: string): Promise<void>;
+}
+
+/**
+ * Subscriptions from the database. Reads other users' rows, so pass a
+ * client created with the service key.
+ */
+export const createSupabasePushSubscriptions = (client: SupabaseClient<Database>): PushSubscriptionStore => ({
+  getSubscriptions: async (userId: string) => {
+    const { data, error } = await client.from('push_subscriptions').select('*').eq('user_id', userId);
+    if (error) throw error;
+    return ((data as PushSubscriptionRow[] | null) || []).map(row => ({
+      endpoint: row.endpoint,
+      p256dh: row.p256dh,
+      auth: row.auth
+    }));
+  },
+
+  remove: async (endpoint: string) => {
+    const { error } = await client.from('push_subscriptions').delete().eq('endpoint', endpoint);
+    if (error) throw error;
+  }
+});
+
+/**
+ * Delivery channel that pushes outbox messages to every device the user
+ * subscribed. Users without devices are skipped rather than retried.
+ */
+export const webPushChannel = (
+  subscriptions: PushSubscriptionStore,
+  vapid: VapidKeys,
+  options: { fetch?: FetchLike } = {}
+): DeliveryChannel => ({
+  send: async (message, rendered) => {
+    const { payload } = message;
+    const pushMessage: PushMessage = {
+      title: rendered.subject,
+      body: payload.body || undefined,
+      url: getNotificationPath(message.template, payload.user_type ?? 'worker', payload.job_id) ?? '/notifications',
+      tag: payload.job_id ? `${message.template}:${payload.job_id}` : message.template
+    };
+
+    const devices = await subscriptions.getSubscriptions(message.userId);
+    for (const device of devices) {
+      const result = await sendWebPush(device, pushMessage, vapid, options);
+      if (result.gone) {
+        await subscriptions.remove(device.endpoint);
+      }
+    }
+  }
+});
+
+/**
+ * Stand-in push service for tests and local runs. Use `endpoint()` for
+ * subscriptions and pass `fetch` to `sendWebPush` or `webPushChannel`;
+ * every request is kept in `requests`. Expired endpoints answer 410.
+ */
+export function createMockPushService(origin = 'https://push.example.test') {
+  const requests: { endpoint: string; headers: Record<string, string>; body: Uint8Array }[] = [];
+  const expired = new Set<string>();
+  let count = 0;
+
+  const mockFetch: FetchLike = async (input, init) => {
+    requests.push({
+      endpoint: input,
+      headers: { ...(init.headers as Record<string, string>) },
+      body: init.body as Uint8Array
+    });
+    return new Response(null, { status: expired.has(input) ? 410 : 201 });
+  };
+
+  return {
+    endpoint: () => `${origin}/send/${++count}`,
+    expire: (endpoint: string) => {
+      expired.add(endpoint);
+    },
+    fetch: mockFetch,
+    requests
+  };
+}
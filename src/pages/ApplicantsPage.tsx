@@ -1,10 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { Job, Application, User } from '../types';
-import { jobStorage, applicationStorage } from '../utils/storage';
+import { Job, Application, User, JobStatusChange, Invitation, AttendanceRecord, RatingSummary, Review, ReviewTag, WorkerStats } from '../types';
+import { jobStorage, applicationStorage, profileStorage, invitationStorage, attendanceStorage, reviewStorage, messageStorage } from '../utils/storage';
 import { JobStatusManager } from '../utils/jobStatusManager';
-import { ArrowLeft, User as UserIcon, Mail, Calendar, CheckCircle, XCircle, Users, Award, Eye, MapPin, Weight, Ruler, X, Briefcase, Phone } from 'lucide-react';
+import { JobStateMachine } from '../utils/jobStateMachine';
+import { JobStatusHistory } from '../components/JobStatusHistory';
+import { AttendanceRoster } from '../components/AttendanceRoster';
+import { PayrollPanel } from '../components/PayrollPanel';
+import { InviteWorkerDialog } from '../components/InviteWorkerDialog';
+import { ReviewDialog } from '../components/ReviewDialog';
+import { ChatThread } from '../components/ChatThread';
+import { RatingBadge } from '../components/RatingBadge';
+import { WageCalculator } from '../utils/wageCalculator';
+import { REVIEW_TAG_LABELS, WORKER_REVIEW_TAGS } from '../utils/reviews';
+import { useJobUpdates, useJobApplications, useUnreadMessageCounts } from '../hooks/useRealtime';
+import { threadKey, MAX_MESSAGE_LENGTH } from '../utils/messages';
+import { ApplicantRanker, ApplicantSortKey, ApplicantFilters, APPLICANT_SORT_LABELS, DEFAULT_APPLICANT_FILTERS } from '../utils/applicantRanking';
+import { ArrowLeft, User as UserIcon, Mail, Calendar, Clock, CheckCircle, XCircle, Users, Award, Eye, MapPin, Weight, Ruler, X, Briefcase, Phone, Send, DollarSign, Filter, Bookmark, BookmarkCheck, ChevronUp, ChevronDown, ListOrdered, Hourglass, MessageCircle, Megaphone } from 'lucide-react';
 
 export function ApplicantsPage() {
   const { jobId } = useParams<{ jobId: string }>();
@@ -13,10 +26,32 @@ export function ApplicantsPage() {
   const [job, setJob] = useState<Job | null>(null);
   const [applications, setApplications] = useState<Application[]>([]);
   const [allJobs, setAllJobs] = useState<Job[]>([]);
-  const [allApplications, setAllApplications] = useState<Application[]>([]);
+  const [statusHistory, setStatusHistory] = useState<JobStatusChange[]>([]);
+  const [workerProfiles, setWorkerProfiles] = useState<Record<string, User>>({});
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [workerRatings, setWorkerRatings] = useState<Record<string, RatingSummary>>({});
+  const [workerStats, setWorkerStats] = useState<Record<string, WorkerStats>>({});
+  const [jobReviews, setJobReviews] = useState<Review[]>([]);
+  const [reviewingWorker, setReviewingWorker] = useState<{ id: string; name: string } | null>(null);
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [invitingWorker, setInvitingWorker] = useState<User | null>(null);
+  const [sendingInvitation, setSendingInvitation] = useState(false);
   const [selectedWorker, setSelectedWorker] = useState<User | null>(null);
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [loadingProfile, setLoadingProfile] = useState(false);
+  const [sortKey, setSortKey] = useState<ApplicantSortKey>('suggested');
+  const [filters, setFilters] = useState<ApplicantFilters>(DEFAULT_APPLICANT_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // applicationIds is null when rejecting every remaining pending applicant
+  const [bulkReject, setBulkReject] = useState<{ applicationIds: string[] | null } | null>(null);
+  const [bulkRejectMessage, setBulkRejectMessage] = useState('');
+  const [processingBulk, setProcessingBulk] = useState(false);
+  const [chattingWith, setChattingWith] = useState<{ id: string; name: string } | null>(null);
+  const [showBroadcast, setShowBroadcast] = useState(false);
+  const [broadcastBody, setBroadcastBody] = useState('');
+  const [sendingBroadcast, setSendingBroadcast] = useState(false);
 
   useEffect(() => {
     if (jobId) {
@@ -27,50 +62,70 @@ export function ApplicantsPage() {
   const loadData = async () => {
     if (!jobId) return;
 
-    // Update job status first
-    await JobStatusManager.updateAllJobStatuses();
-    
-    const jobs = await jobStorage.getJobs();
+    const jobs = JobStatusManager.predictStatuses(await jobStorage.getJobs());
     const currentJob = jobs.find((j: Job) => j.id === jobId);
-    setJob(currentJob || null);
     setAllJobs(jobs);
 
-    const applications = await applicationStorage.getApplications();
-    const jobApplications = applications.filter((app: Application) => app.jobId === jobId);
+    const jobApplications = await applicationStorage.getApplicationsForJob(jobId);
     setApplications(jobApplications);
-    setAllApplications(applications);
-  };
+    setJob(currentJob ? JobStatusManager.checkJobStatus(currentJob, jobApplications) : null);
 
-  const getWorkerProfile = (workerId: string): User | null => {
-    const users = JSON.parse(localStorage.getItem('kheticulture_users') || '[]');
-    return users.find((u: User) => u.id === workerId) || null;
+    const jobInvitations = await invitationStorage.getInvitationsForJob(jobId);
+    setInvitations(jobInvitations);
+
+    // One query for every applicant's and invitee's profile; repeat visits come from the session cache
+    const workerIds = [
+      ...jobApplications.map((app: Application) => app.workerId),
+      ...jobInvitations.map((invitation: Invitation) => invitation.workerId)
+    ];
+    setWorkerProfiles(await profileStorage.getProfiles(workerIds));
+    setWorkerRatings(await reviewStorage.getRatingSummaries(workerIds));
+    setWorkerStats(await profileStorage.getWorkerStatsByIds(workerIds));
+    setJobReviews(await reviewStorage.getReviewsForJob(jobId));
+
+    setStatusHistory(await jobStorage.getStatusHistory(jobId));
+    setAttendance(await attendanceStorage.getAttendanceForJob(jobId));
   };
 
-  const getWorkerJobsCompleted = (workerId: string): number => {
-    // Get all accepted applications for this worker
-    const acceptedApplications = allApplications.filter(
-      (app: Application) => app.workerId === workerId && app.status === 'accepted'
-    );
-    
-    // Count how many of those jobs are completed
-    const completedJobs = acceptedApplications.filter((app: Application) => {
-      const job = allJobs.find((j: Job) => j.id === app.jobId);
-      return job && job.status === 'completed';
-    });
-    
-    return completedJobs.length;
+  // Someone applied while the page is open: fetch what their card needs
+  const handleNewApplicant = async (application: Application) => {
+    const workerIds = [application.workerId];
+    const [profiles, ratings, stats] = await Promise.all([
+      profileStorage.getProfiles(workerIds),
+      reviewStorage.getRatingSummaries(workerIds),
+      profileStorage.getWorkerStatsByIds(workerIds)
+    ]);
+    setWorkerProfiles(prev => ({ ...prev, ...profiles }));
+    setWorkerRatings(prev => ({ ...prev, ...ratings }));
+    setWorkerStats(prev => ({ ...prev, ...stats }));
   };
 
-  const getWorkerTotalApplications = (workerId: string): number => {
-    return allApplications.filter((app: Application) => app.workerId === workerId).length;
+  useJobUpdates(jobId ? [jobId] : [], updatedJob => setJob(JobStatusManager.checkJobStatus(updatedJob, applications)));
+  useJobApplications(jobId ? [jobId] : [], setApplications, handleNewApplicant);
+  const unreadMessages = useUnreadMessageCounts(user);
+
+  const getWorkerProfile = (workerId: string): User | null => {
+    return workerProfiles[workerId] || null;
   };
 
-  const getWorkerSuccessRate = (workerId: string): number => {
-    const totalApplications = getWorkerTotalApplications(workerId);
-    const completedJobs = getWorkerJobsCompleted(workerId);
-    
-    if (totalApplications === 0) return 0;
-    return Math.round((completedJobs / totalApplications) * 100);
+  const formatRate = (rate?: number): string => (rate === undefined ? '–' : `${rate}%`);
+
+  const renderReliability = (workerId: string) => {
+    const stats = workerStats[workerId];
+    const jobsCompleted = stats?.jobsCompleted ?? 0;
+
+    return (
+      <div className="flex items-center text-sm text-green-600 mt-1">
+        <Briefcase size={14} className="mr-1" />
+        <span>{jobsCompleted} job{jobsCompleted !== 1 ? 's' : ''} completed</span>
+        {stats?.completionRate !== undefined && (
+          <span className="ml-1 text-gray-500">· {stats.completionRate}% completion</span>
+        )}
+        {stats && stats.noShows > 0 && (
+          <span className="ml-1 text-red-600">· {stats.noShows} no-show{stats.noShows !== 1 ? 's' : ''}</span>
+        )}
+      </div>
+    );
   };
 
   const handleViewProfile = async (workerId: string) => {
@@ -91,7 +146,68 @@ export function ApplicantsPage() {
     }
   };
 
-  const handleUpdateApplication = (applicationId: string, status: 'accepted' | 'rejected') => {
+  const getInvitableJobs = (workerId: string): Job[] => {
+    return allJobs.filter((j: Job) =>
+      j.farmerId === user?.id &&
+      j.status === 'open' &&
+      !j.deletedAt &&
+      !j.acceptedWorkerIds.includes(workerId)
+    );
+  };
+
+  const handleSendInvitation = async (targetJobId: string, message: string) => {
+    if (!invitingWorker) return;
+
+    setSendingInvitation(true);
+    const result = await invitationStorage.inviteWorker(targetJobId, invitingWorker.id, message);
+    setSendingInvitation(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setInvitingWorker(null);
+    alert(`Invitation sent to ${invitingWorker.name}.`);
+    loadData();
+  };
+
+  const handleBroadcast = async () => {
+    if (!job) return;
+
+    setSendingBroadcast(true);
+    const result = await messageStorage.broadcastMessage(job.id, broadcastBody);
+    setSendingBroadcast(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setShowBroadcast(false);
+    setBroadcastBody('');
+    alert(`Message sent to ${result.sentCount} worker${result.sentCount !== 1 ? 's' : ''}.`);
+  };
+
+  const handleCancelInvitation = async (invitationId: string) => {
+    const result = await invitationStorage.cancelInvitation(invitationId);
+    if (!result.success) {
+      alert(result.error);
+    }
+    loadData();
+  };
+
+  const handleWageProposal = async (application: Application, accept: boolean) => {
+    const result = await applicationStorage.respondToWageProposal(application.id, accept);
+    if (!result.success) {
+      alert(result.error);
+    } else if (accept) {
+      alert(`${application.workerName} will be paid NPR.${application.proposedWage} if you accept them.`);
+    }
+    loadData();
+  };
+
+  const handleUpdateApplication = async (applicationId: string, status: 'accepted' | 'rejected') => {
     if (!job) return;
 
     // Check if we can accept more workers
@@ -104,25 +220,17 @@ export function ApplicantsPage() {
     if (!application) return;
 
     if (status === 'accepted') {
-      // Update application status
-      applicationStorage.updateApplication(applicationId, { status: 'accepted' });
-      
-      // Add worker to accepted list
-      const updatedAcceptedWorkers = [...(job.acceptedWorkerIds ?? []), application.workerId];
-      
-      // Update job with new accepted workers
-      jobStorage.updateJob(job.id, { 
-        acceptedWorkerIds: updatedAcceptedWorkers
-      });
+      // Application, accepted workers and job status are updated atomically on the server
+      const result = await applicationStorage.acceptApplication(applicationId);
+      if (!result.success) {
+        alert(result.error);
+      }
       
-      // Check if job status should auto-update and reload data
-      JobStatusManager.checkStatusAfterWorkerAccepted(job.id).then(() => {
-        loadData(); // Reload to get updated job status
-      });
+      loadData(); // Reload to get updated job status
       
     } else if (status === 'rejected') {
       // Update application with rejection timestamp
-      applicationStorage.updateApplication(applicationId, { 
+      await applicationStorage.updateApplication(applicationId, { 
         status: 'rejected',
         rejectedAt: new Date().toISOString()
       });
@@ -131,11 +239,126 @@ export function ApplicantsPage() {
     }
   };
 
-  const handleMarkCompleted = () => {
+  const toggleSelected = (applicationId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(applicationId) ? prev.filter(id => id !== applicationId) : [...prev, applicationId]
+    );
+  };
+
+  const handleAcceptSelected = async (applicationIds: string[]) => {
+    if (!job || applicationIds.length === 0) return;
+
+    setProcessingBulk(true);
+    const result = await applicationStorage.acceptApplications(job.id, applicationIds);
+    setProcessingBulk(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setSelectedIds([]);
+    alert(`${result.acceptedCount} worker${result.acceptedCount !== 1 ? 's' : ''} accepted.`);
+    loadData();
+  };
+
+  const openBulkReject = (applicationIds: string[] | null) => {
+    setBulkReject({ applicationIds });
+    setBulkRejectMessage('');
+  };
+
+  const confirmBulkReject = async () => {
+    if (!job || !bulkReject) return;
+
+    setProcessingBulk(true);
+    const result = await applicationStorage.rejectApplications(job.id, bulkReject.applicationIds, bulkRejectMessage);
+    setProcessingBulk(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setBulkReject(null);
+    setSelectedIds([]);
+    loadData();
+  };
+
+  const handleToggleShortlist = async (application: Application) => {
+    const result = await applicationStorage.setShortlisted(application.id, !application.shortlistedAt);
+    if (!result.success) {
+      alert(result.error);
+    }
+    loadData();
+  };
+
+  const handleSetWaitlist = async (enabled: boolean, applicationIds?: string[]) => {
     if (!job) return;
+
+    if (!enabled && !confirm('Turn off the waitlist? Any place currently on offer will be withdrawn.')) {
+      return;
+    }
+
+    const result = await applicationStorage.setWaitlist(job.id, enabled, applicationIds);
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    if (enabled) {
+      setSortKey('waitlist');
+    }
+    loadData();
+  };
+
+  const handleMoveInWaitlist = async (applicationId: string, offset: number) => {
+    const order = applications
+      .filter(app => JobStatusManager.isWaitlistCandidate(app))
+      .sort(ApplicantRanker.compareWaitlist)
+      .map(app => app.id);
+    const from = order.indexOf(applicationId);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= order.length) return;
+
+    [order[from], order[to]] = [order[to], order[from]];
+    await handleSetWaitlist(true, order);
+  };
+
+  const getMyReview = (workerId: string): Review | undefined =>
+    jobReviews.find(review => review.reviewerId === user?.id && review.revieweeId === workerId);
+
+  const handleSubmitReview = async (rating: number, tags: ReviewTag[], comment: string) => {
+    if (!job || !reviewingWorker) return;
+
+    setSubmittingReview(true);
+    const result = await reviewStorage.submitReview(job.id, reviewingWorker.id, rating, tags, comment);
+    setSubmittingReview(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setReviewingWorker(null);
+    loadData();
+  };
+
+  const handleMarkCompleted = async () => {
+    if (!job) return;
+
+    // Completing the job closes the roster, so every entry needs the farmer's sign-off first
+    const unconfirmed = attendance.filter(record => !record.confirmedAt);
+    if (unconfirmed.length > 0) {
+      alert(`Please confirm or correct ${unconfirmed.length} attendance entr${unconfirmed.length !== 1 ? 'ies' : 'y'} before completing the job.`);
+      return;
+    }
     
-    jobStorage.updateJob(job.id, { status: 'completed' });
+    const result = await jobStorage.updateJob(job.id, { status: 'completed' }, 'Marked as completed by farmer');
     loadData();
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
     alert('Job marked as completed!');
   };
 
@@ -222,6 +445,367 @@ export function ApplicantsPage() {
   const pendingApplications = applications.filter(app => app.status === 'pending');
   const acceptedApplications = applications.filter(app => app.status === 'accepted');
   const rejectedApplications = applications.filter(app => app.status === 'rejected');
+  const withdrawnApplications = applications.filter(app => app.status === 'withdrawn');
+  const pendingInvitations = invitations.filter(invitation => invitation.status === 'pending');
+
+  const rankedPendingApplicants = ApplicantRanker.sort(
+    job,
+    ApplicantRanker.filter(
+      job,
+      pendingApplications.map(application => ({
+        application,
+        profile: getWorkerProfile(application.workerId) || undefined,
+        stats: workerStats[application.workerId],
+        rating: workerRatings[application.workerId]
+      })),
+      filters
+    ),
+    sortKey
+  );
+  const shortlistedCount = pendingApplications.filter(app => app.shortlistedAt).length;
+
+  // Applicants still in line for an offer, in the order the offers go out
+  const waitlist = pendingApplications
+    .filter(app => JobStatusManager.isWaitlistCandidate(app))
+    .sort(ApplicantRanker.compareWaitlist);
+  const liveOffers = pendingApplications.filter(app => JobStatusManager.isOfferLive(app));
+
+  const visibleIds = rankedPendingApplicants.map(({ application }) => application.id);
+  // Drop selections hidden by filters or already handled elsewhere
+  const activeSelection = selectedIds.filter(id => visibleIds.includes(id));
+  // A live offer holds its place unless that applicant is among the selected
+  const heldByOffers = liveOffers.filter(app => !activeSelection.includes(app.id)).length;
+  const openPositions = Math.max(job.requiredWorkers - (job.acceptedWorkerIds?.length ?? 0) - heldByOffers, 0);
+
+  const renderBulkActions = () => (
+    <div className="mb-4 space-y-3">
+      {openPositions === 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-center justify-between">
+          <span className="text-sm text-blue-900">
+            All positions are filled. {pendingApplications.length} applicant{pendingApplications.length !== 1 ? 's are' : ' is'} still waiting.
+          </span>
+          <button
+            onClick={() => openBulkReject(null)}
+            className="text-sm bg-red-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-red-700 transition-colors"
+          >
+            Reject all remaining
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              checked={visibleIds.length > 0 && activeSelection.length === visibleIds.length}
+              onChange={(e) => setSelectedIds(e.target.checked ? visibleIds : [])}
+              className="mr-2"
+            />
+            Select all
+          </label>
+          {activeSelection.length > 0 && (
+            <span className="text-gray-500">
+              {activeSelection.length} selected · {openPositions} position{openPositions !== 1 ? 's' : ''} open
+            </span>
+          )}
+        </div>
+        {activeSelection.length > 0 && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleAcceptSelected(activeSelection)}
+              disabled={processingBulk || activeSelection.length > openPositions}
+              className="bg-green-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              Accept selected
+            </button>
+            <button
+              onClick={() => openBulkReject(activeSelection)}
+              disabled={processingBulk}
+              className="bg-red-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              Reject selected
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderWaitlistPanel = () => (
+    <div className="mb-4 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center font-medium text-gray-900">
+          <ListOrdered size={16} className="mr-2" />
+          Waitlist {job.waitlistEnabled ? 'on' : 'off'}
+        </div>
+        <button
+          onClick={() => job.waitlistEnabled
+            ? handleSetWaitlist(false)
+            // The order on screen becomes the waitlist; applicants hidden by filters join at the back
+            : handleSetWaitlist(true, [
+              ...visibleIds,
+              ...pendingApplications.map(app => app.id).filter(id => !visibleIds.includes(id))
+            ])}
+          className="text-green-600 hover:text-green-700 font-medium"
+        >
+          {job.waitlistEnabled ? 'Turn off' : 'Use this order as waitlist'}
+        </button>
+      </div>
+      <p className="text-gray-600 mt-1">
+        {job.waitlistEnabled
+          ? 'If a hired worker withdraws or never turns up, the next applicant in line is offered the place and has 12 hours to confirm. The job reopens if nobody does.'
+          : 'When a hired worker drops out, the job reopens for new applicants.'}
+      </p>
+      {job.waitlistEnabled && (
+        <p className="text-gray-500 mt-1">
+          {waitlist.length} in line
+          {liveOffers.length > 0 && ` · ${liveOffers.length} place${liveOffers.length !== 1 ? 's' : ''} on offer`}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderBulkRejectModal = () => {
+    if (!bulkReject) return null;
+    const count = bulkReject.applicationIds?.length ?? pendingApplications.length;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-2xl max-w-md w-full p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Reject {count} Applicant{count !== 1 ? 's' : ''}
+          </h3>
+          <p className="text-gray-600 mb-4">
+            Each worker will be notified that they were not accepted for "{job.title}".
+          </p>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Message to the workers (optional)
+            </label>
+            <textarea
+              value={bulkRejectMessage}
+              onChange={(e) => setBulkRejectMessage(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              placeholder="e.g., Thank you for applying. All positions have been filled."
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setBulkReject(null)}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmBulkReject}
+              disabled={processingBulk}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {processingBulk ? 'Rejecting...' : 'Reject'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderMessageButton = (application: Application) => {
+    const unread = unreadMessages[threadKey(application.jobId, application.workerId)] || 0;
+    return (
+      <button
+        onClick={() => setChattingWith({ id: application.workerId, name: application.workerName })}
+        className="flex items-center text-gray-600 hover:text-gray-800 text-sm font-medium"
+      >
+        <MessageCircle size={16} className="mr-1" />
+        Message
+        {unread > 0 && (
+          <span className="ml-1 min-w-[20px] px-1.5 py-0.5 text-xs font-semibold text-white bg-red-500 rounded-full">
+            {unread}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const renderBroadcastModal = () => {
+    if (!showBroadcast) return null;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-2xl max-w-md w-full p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Message All Hired Workers
+          </h3>
+          <p className="text-gray-600 mb-4">
+            All {acceptedApplications.length} hired worker{acceptedApplications.length !== 1 ? 's' : ''} for "{job.title}" get this in their chat with you and as a notification. Their replies only come to you.
+          </p>
+
+          <div className="mb-4">
+            <textarea
+              value={broadcastBody}
+              onChange={(e) => setBroadcastBody(e.target.value)}
+              rows={3}
+              maxLength={MAX_MESSAGE_LENGTH}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="e.g., Bring sickles, meet at the farm gate at 6am."
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setShowBroadcast(false)}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleBroadcast}
+              disabled={sendingBroadcast || !broadcastBody.trim()}
+              className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {sendingBroadcast ? 'Sending...' : 'Send to all'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const parseFilterNumber = (value: string) => (value ? Number(value) : undefined);
+
+  const renderApplicantTools = () => (
+    <div className="mb-4">
+      <div className="flex items-center justify-between gap-3">
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as ApplicantSortKey)}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {(Object.keys(APPLICANT_SORT_LABELS) as ApplicantSortKey[]).map(key => (
+            <option key={key} value={key}>Sort: {APPLICANT_SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className="flex items-center text-green-600 hover:text-green-700 text-sm font-medium"
+        >
+          <Filter size={16} className="mr-1" />
+          Filters
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-3 p-4 rounded-lg space-y-3 border bg-green-50 border-green-200 text-sm">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={filters.shortlistedOnly}
+                onChange={(e) => setFilters({ ...filters, shortlistedOnly: e.target.checked })}
+                className="mr-2"
+              />
+              Shortlisted ({shortlistedCount})
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={filters.experiencedOnly}
+                onChange={(e) => setFilters({ ...filters, experiencedOnly: e.target.checked })}
+                className="mr-2"
+              />
+              Has completed jobs
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={filters.noNoShows}
+                onChange={(e) => setFilters({ ...filters, noNoShows: e.target.checked })}
+                className="mr-2"
+              />
+              No no-shows
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={filters.nearbyOnly}
+                onChange={(e) => setFilters({ ...filters, nearbyOnly: e.target.checked })}
+                className="mr-2"
+              />
+              Lives nearby
+            </label>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Minimum Rating</label>
+            <select
+              value={filters.minRating}
+              onChange={(e) => setFilters({ ...filters, minRating: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value={0}>Any</option>
+              <option value={3}>3+ stars</option>
+              <option value={4}>4+ stars</option>
+              <option value={4.5}>4.5+ stars</option>
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Age From</label>
+              <input
+                type="number"
+                value={filters.minAge ?? ''}
+                onChange={(e) => setFilters({ ...filters, minAge: parseFilterNumber(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Age To</label>
+              <input
+                type="number"
+                value={filters.maxAge ?? ''}
+                onChange={(e) => setFilters({ ...filters, maxAge: parseFilterNumber(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Min Weight (kg)</label>
+              <input
+                type="number"
+                value={filters.minWeight ?? ''}
+                onChange={(e) => setFilters({ ...filters, minWeight: parseFilterNumber(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Min Height (cm)</label>
+              <input
+                type="number"
+                value={filters.minHeight ?? ''}
+                onChange={(e) => setFilters({ ...filters, minHeight: parseFilterNumber(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={() => setFilters(DEFAULT_APPLICANT_FILTERS)}
+            className="text-green-700 hover:text-green-800 font-medium"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -233,32 +817,24 @@ export function ApplicantsPage() {
         return 'bg-yellow-100 text-yellow-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-orange-100 text-orange-800';
+      case 'disputed':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'open':
-        return 'Open';
-      case 'filled':
-        return 'Filled';
-      case 'in-progress':
-        return 'In Progress';
-      case 'completed':
-        return 'Completed';
-      default:
-        return status;
-    }
-  };
+  const getStatusText = (status: Job['status']) => JobStateMachine.getLabel(status);
 
   const WorkerProfileModal = () => {
     if (!selectedWorker || !showProfileModal) return null;
 
-    const jobsCompleted = getWorkerJobsCompleted(selectedWorker.id);
-    const totalApplications = getWorkerTotalApplications(selectedWorker.id);
-    const successRate = getWorkerSuccessRate(selectedWorker.id);
+    const stats = workerStats[selectedWorker.id];
+    const jobsCompleted = stats?.jobsCompleted ?? 0;
 
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -411,19 +987,49 @@ export function ApplicantsPage() {
                 Work History
               </h4>
               <div className="grid grid-cols-3 gap-3">
-                <div className="text-center">
-                  <div className="text-lg font-bold text-blue-600">{totalApplications}</div>
-                  <div className="text-xs text-gray-600">Total Applications</div>
-                </div>
                 <div className="text-center">
                   <div className="text-lg font-bold text-green-600">{jobsCompleted}</div>
                   <div className="text-xs text-gray-600">Jobs Completed</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-lg font-bold text-purple-600">{successRate}%</div>
-                  <div className="text-xs text-gray-600">Success Rate</div>
+                  <div className="text-lg font-bold text-purple-600">{formatRate(stats?.completionRate)}</div>
+                  <div className="text-xs text-gray-600">Completion Rate</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold text-blue-600">{formatRate(stats?.rehireRate)}</div>
+                  <div className="text-xs text-gray-600">Rehired</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold text-gray-700">{stats?.attendanceDays ?? 0}</div>
+                  <div className="text-xs text-gray-600">Days Attended</div>
                 </div>
+                <div className="text-center">
+                  <div className={`text-lg font-bold ${(stats?.noShows ?? 0) > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                    {stats?.noShows ?? 0}
+                  </div>
+                  <div className="text-xs text-gray-600">No-shows</div>
+                </div>
+                <div className="text-center">
+                  <div className={`text-lg font-bold ${(stats?.lateWithdrawals ?? 0) > 0 ? 'text-orange-600' : 'text-gray-700'}`}>
+                    {stats?.lateWithdrawals ?? 0}
+                  </div>
+                  <div className="text-xs text-gray-600">Late Withdrawals</div>
+                </div>
+              </div>
+              
+              <div className="mt-3 pt-3 border-t border-blue-200 flex items-center justify-between">
+                <span className="text-sm text-gray-600">Rating from farmers</span>
+                <RatingBadge summary={workerRatings[selectedWorker.id]} size="md" />
               </div>
+              {(workerRatings[selectedWorker.id]?.topTags.length ?? 0) > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {workerRatings[selectedWorker.id].topTags.map(tag => (
+                    <span key={tag} className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                      {REVIEW_TAG_LABELS[tag]}
+                    </span>
+                  ))}
+                </div>
+              )}
               
               {jobsCompleted > 0 && (
                 <div className="mt-3 pt-3 border-t border-blue-200">
@@ -436,7 +1042,7 @@ export function ApplicantsPage() {
                 </div>
               )}
               
-              {jobsCompleted === 0 && totalApplications > 0 && (
+              {jobsCompleted === 0 && (
                 <div className="mt-3 pt-3 border-t border-blue-200">
                   <div className="flex items-center justify-center">
                     <UserIcon size={16} className="text-blue-600 mr-2" />
@@ -444,16 +1050,18 @@ export function ApplicantsPage() {
                   </div>
                 </div>
               )}
-              
-              {totalApplications === 0 && (
-                <div className="mt-3 pt-3 border-t border-blue-200">
-                  <div className="flex items-center justify-center">
-                    <UserIcon size={16} className="text-gray-600 mr-2" />
-                    <span className="text-sm text-gray-700">First time applicant</span>
-                  </div>
-                </div>
-              )}
             </div>
+
+            <button
+              onClick={() => {
+                setShowProfileModal(false);
+                setInvitingWorker(selectedWorker);
+              }}
+              className="w-full flex items-center justify-center bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+            >
+              <Send size={16} className="mr-2" />
+              Invite to Another Job
+            </button>
           </div>
         </div>
       </div>
@@ -503,6 +1111,24 @@ export function ApplicantsPage() {
         )}
       </div>
 
+      <JobStatusHistory history={statusHistory} />
+
+      {(job.status === 'in-progress' || attendance.length > 0) && (
+        <AttendanceRoster
+          job={job}
+          workers={acceptedApplications.map(app => ({ id: app.workerId, name: app.workerName }))}
+          records={attendance}
+          onChanged={loadData}
+        />
+      )}
+
+      {['filled', 'in-progress', 'completed'].includes(job.status) && (
+        <PayrollPanel
+          job={job}
+          workers={acceptedApplications.map(app => ({ id: app.workerId, name: app.workerName }))}
+        />
+      )}
+
       {/* Applications Summary */}
       <div className="grid grid-cols-3 gap-3 mb-6">
         <div className="bg-yellow-50 rounded-lg p-3 text-center">
@@ -520,7 +1146,7 @@ export function ApplicantsPage() {
       </div>
 
       {/* Applications */}
-      {applications.length === 0 ? (
+      {applications.length === 0 && pendingInvitations.length === 0 ? (
         <div className="text-center py-12">
           <div className="text-gray-400 mb-4">
             <UserIcon size={48} className="mx-auto" />
@@ -534,16 +1160,38 @@ export function ApplicantsPage() {
           {pendingApplications.length > 0 && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                Pending Applications ({pendingApplications.length})
+                Pending Applications ({rankedPendingApplicants.length !== pendingApplications.length
+                  ? `${rankedPendingApplicants.length} of ${pendingApplications.length}`
+                  : pendingApplications.length})
               </h3>
+              {renderApplicantTools()}
+              {JobStateMachine.canHire(job.status) && renderWaitlistPanel()}
+              {JobStateMachine.canHire(job.status) && renderBulkActions()}
+              {rankedPendingApplicants.length === 0 && (
+                <p className="text-sm text-gray-600 mb-3">No applicants match these filters.</p>
+              )}
               <div className="space-y-3">
-                {pendingApplications.map(application => {
+                {rankedPendingApplicants.map(({ application, ...applicant }) => {
                   const workerProfile = getWorkerProfile(application.workerId);
-                  const jobsCompleted = getWorkerJobsCompleted(application.workerId);
+                  const placeInLine = waitlist.indexOf(application) + 1;
                   return (
-                    <div key={application.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div
+                      key={application.id}
+                      className={`bg-white border rounded-lg p-4 ${
+                        selectedIds.includes(application.id) ? 'border-green-500' : 'border-gray-200'
+                      }`}
+                    >
                       <div className="flex items-start justify-between mb-3">
                         <div className="flex items-center">
+                          {JobStateMachine.canHire(job.status) && (
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(application.id)}
+                              onChange={() => toggleSelected(application.id)}
+                              className="mr-3"
+                              aria-label={`Select ${application.workerName}`}
+                            />
+                          )}
                           <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center mr-3 overflow-hidden">
                             {workerProfile?.profilePicture ? (
                               <img 
@@ -567,23 +1215,79 @@ export function ApplicantsPage() {
                                 {workerProfile.location}
                               </div>
                             )}
-                            {/* Jobs completed indicator */}
-                            <div className="flex items-center text-sm text-green-600 mt-1">
-                              <Briefcase size={14} className="mr-1" />
-                              <span>{jobsCompleted} job{jobsCompleted !== 1 ? 's' : ''} completed</span>
-                            </div>
+                            {renderReliability(application.workerId)}
+                            <RatingBadge summary={workerRatings[application.workerId]} />
                           </div>
                         </div>
-                        <button
-                          onClick={() => handleViewProfile(application.workerId)}
-                          disabled={loadingProfile}
-                          className="flex items-center text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          <Eye size={16} className="mr-1" />
-                          {loadingProfile ? 'Loading...' : 'View Profile'}
-                        </button>
+                        <div className="flex flex-col items-end space-y-2">
+                          <button
+                            onClick={() => handleViewProfile(application.workerId)}
+                            disabled={loadingProfile}
+                            className="flex items-center text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Eye size={16} className="mr-1" />
+                            {loadingProfile ? 'Loading...' : 'View Profile'}
+                          </button>
+                          <button
+                            onClick={() => handleToggleShortlist(application)}
+                            className={`flex items-center text-sm font-medium ${
+                              application.shortlistedAt ? 'text-green-700 hover:text-green-800' : 'text-gray-500 hover:text-gray-700'
+                            }`}
+                          >
+                            {application.shortlistedAt ? (
+                              <BookmarkCheck size={16} className="mr-1" />
+                            ) : (
+                              <Bookmark size={16} className="mr-1" />
+                            )}
+                            {application.shortlistedAt ? 'Shortlisted' : 'Shortlist'}
+                          </button>
+                          {renderMessageButton(application)}
+                          {sortKey === 'suggested' && (
+                            <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                              Match {ApplicantRanker.getSuggestedScore(job, { application, ...applicant })}
+                            </span>
+                          )}
+                          {job.waitlistEnabled && placeInLine > 0 && (
+                            <div className="flex items-center">
+                              <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                                #{placeInLine} in line
+                              </span>
+                              {sortKey === 'waitlist' && (
+                                <>
+                                  <button
+                                    onClick={() => handleMoveInWaitlist(application.id, -1)}
+                                    className="ml-1 p-1 text-gray-500 hover:text-gray-700"
+                                    aria-label={`Move ${application.workerName} up the waitlist`}
+                                  >
+                                    <ChevronUp size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleMoveInWaitlist(application.id, 1)}
+                                    className="p-1 text-gray-500 hover:text-gray-700"
+                                    aria-label={`Move ${application.workerName} down the waitlist`}
+                                  >
+                                    <ChevronDown size={16} />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </div>
                       </div>
 
+                      {application.offerExpiresAt && (
+                        <div className={`flex items-center text-sm rounded-lg p-3 mb-4 border ${
+                          JobStatusManager.isOfferLive(application)
+                            ? 'bg-blue-50 border-blue-200 text-blue-900'
+                            : 'bg-gray-50 border-gray-200 text-gray-600'
+                        }`}>
+                          <Hourglass size={14} className="mr-2" />
+                          {JobStatusManager.isOfferLive(application)
+                            ? `Offered a freed place · must confirm by ${formatDate(application.offerExpiresAt)}`
+                            : 'The offer of a freed place has lapsed'}
+                        </div>
+                      )}
+
                       <div className="flex items-center text-sm text-gray-500 mb-4">
                         <Calendar size={14} className="mr-1" />
                         Applied on {formatDate(application.appliedAt)}
@@ -595,11 +1299,55 @@ export function ApplicantsPage() {
                         </div>
                       )}
 
-                      {job.status !== 'completed' && (
+                      {application.availabilityNote && (
+                        <div className="flex items-center text-sm text-gray-600 mb-4">
+                          <Clock size={14} className="mr-1" />
+                          Availability: {application.availabilityNote}
+                        </div>
+                      )}
+
+                      {application.proposedWage && (
+                        <div className={`rounded-lg p-3 mb-4 border ${
+                          application.proposalStatus === 'pending'
+                            ? 'bg-yellow-50 border-yellow-200'
+                            : application.proposalStatus === 'accepted'
+                            ? 'bg-green-50 border-green-200'
+                            : 'bg-gray-50 border-gray-200'
+                        }`}>
+                          <div className="flex items-center text-sm text-gray-800">
+                            <DollarSign size={14} className="mr-1" />
+                            Asking NPR.{application.proposedWage} (posted {WageCalculator.formatWage(job)})
+                          </div>
+                          {application.proposalStatus === 'pending' && JobStateMachine.canHire(job.status) ? (
+                            <div className="flex space-x-2 mt-2">
+                              <button
+                                onClick={() => handleWageProposal(application, true)}
+                                className="flex-1 bg-green-600 text-white py-1 px-3 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors"
+                              >
+                                Accept offer
+                              </button>
+                              <button
+                                onClick={() => handleWageProposal(application, false)}
+                                className="flex-1 bg-gray-200 text-gray-800 py-1 px-3 rounded-lg text-sm font-medium hover:bg-gray-300 transition-colors"
+                              >
+                                Decline offer
+                              </button>
+                            </div>
+                          ) : application.proposalStatus !== 'pending' && (
+                            <p className="text-xs text-gray-600 mt-1">
+                              {application.proposalStatus === 'accepted'
+                                ? `Agreed at NPR.${application.agreedWage ?? job.wage}`
+                                : 'Offer declined - the posted wage applies'}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {JobStateMachine.canHire(job.status) && (
                         <div className="flex space-x-2">
                           <button
                             onClick={() => handleUpdateApplication(application.id, 'accepted')}
-                            disabled={(job.acceptedWorkerIds?.length ?? 0) >= job.requiredWorkers}
+                            disabled={(job.acceptedWorkerIds?.length ?? 0) >= job.requiredWorkers || application.proposalStatus === 'pending'}
                             className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
                           >
                             <CheckCircle size={16} className="mr-1" />
@@ -614,9 +1362,9 @@ export function ApplicantsPage() {
                           </button>
                         </div>
                       )}
-                      {job.status === 'completed' && (
+                      {!JobStateMachine.canHire(job.status) && (
                         <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-center">
-                          <span className="text-sm text-gray-600">Job completed - no further actions available</span>
+                          <span className="text-sm text-gray-600">Job {getStatusText(job.status).toLowerCase()} - no further actions available</span>
                         </div>
                       )}
                     </div>
@@ -629,13 +1377,22 @@ export function ApplicantsPage() {
           {/* Accepted Applications */}
           {acceptedApplications.length > 0 && (
             <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                Accepted Workers ({acceptedApplications.length})
-              </h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Accepted Workers ({acceptedApplications.length})
+                </h3>
+                <button
+                  onClick={() => setShowBroadcast(true)}
+                  className="flex items-center text-sm text-green-600 hover:text-green-700 font-medium"
+                >
+                  <Megaphone size={16} className="mr-1" />
+                  Message all
+                </button>
+              </div>
               <div className="space-y-3">
                 {acceptedApplications.map(application => {
                   const workerProfile = getWorkerProfile(application.workerId);
-                  const jobsCompleted = getWorkerJobsCompleted(application.workerId);
+                  const myReview = getMyReview(application.workerId);
                   return (
                     <div key={application.id} className="bg-green-50 border border-green-200 rounded-lg p-4">
                       <div className="flex items-center justify-between">
@@ -663,14 +1420,12 @@ export function ApplicantsPage() {
                                 {workerProfile.location}
                               </div>
                             )}
-                            {/* Jobs completed indicator */}
-                            <div className="flex items-center text-sm text-green-600 mt-1">
-                              <Briefcase size={14} className="mr-1" />
-                              <span>{jobsCompleted} job{jobsCompleted !== 1 ? 's' : ''} completed</span>
-                            </div>
+                            {renderReliability(application.workerId)}
+                            <RatingBadge summary={workerRatings[application.workerId]} />
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
+                          {renderMessageButton(application)}
                           <button
                             onClick={() => handleViewProfile(application.workerId)}
                             disabled={loadingProfile}
@@ -680,10 +1435,30 @@ export function ApplicantsPage() {
                             {loadingProfile ? 'Loading...' : 'View Profile'}
                           </button>
                           <div className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
-                            Accepted
+                            {application.agreedWage ? `Accepted at NPR.${application.agreedWage}` : 'Accepted'}
                           </div>
                         </div>
                       </div>
+
+                      {job.status === 'completed' && (
+                        <div className="mt-3 pt-3 border-t border-green-200 flex items-center justify-between">
+                          {myReview ? (
+                            <span className="text-sm text-gray-700">
+                              You rated {application.workerName} {myReview.rating} out of 5
+                            </span>
+                          ) : (
+                            <>
+                              <span className="text-sm text-gray-700">How did {application.workerName} do?</span>
+                              <button
+                                onClick={() => setReviewingWorker({ id: application.workerId, name: application.workerName })}
+                                className="text-sm bg-green-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-green-700 transition-colors"
+                              >
+                                Rate Worker
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -700,7 +1475,6 @@ export function ApplicantsPage() {
               <div className="space-y-3">
                 {rejectedApplications.map(application => {
                   const workerProfile = getWorkerProfile(application.workerId);
-                  const jobsCompleted = getWorkerJobsCompleted(application.workerId);
                   return (
                     <div key={application.id} className="bg-red-50 border border-red-200 rounded-lg p-4">
                       <div className="flex items-center justify-between">
@@ -728,11 +1502,8 @@ export function ApplicantsPage() {
                                 {workerProfile.location}
                               </div>
                             )}
-                            {/* Jobs completed indicator */}
-                            <div className="flex items-center text-sm text-green-600 mt-1">
-                              <Briefcase size={14} className="mr-1" />
-                              <span>{jobsCompleted} job{jobsCompleted !== 1 ? 's' : ''} completed</span>
-                            </div>
+                            {renderReliability(application.workerId)}
+                            <RatingBadge summary={workerRatings[application.workerId]} />
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -755,11 +1526,109 @@ export function ApplicantsPage() {
               </div>
             </div>
           )}
+
+          {/* Invitations */}
+          {pendingInvitations.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                Invited Workers ({pendingInvitations.length})
+              </h3>
+              <div className="space-y-3">
+                {pendingInvitations.map(invitation => (
+                  <div key={invitation.id} className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-semibold text-gray-900">
+                          {getWorkerProfile(invitation.workerId)?.name || 'Worker'}
+                        </h4>
+                        <div className="flex items-center text-sm text-gray-500">
+                          <Calendar size={14} className="mr-1" />
+                          Invited on {formatDate(invitation.createdAt)}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleCancelInvitation(invitation.id)}
+                        className="text-sm text-red-600 hover:text-red-700 font-medium"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Withdrawn Applications */}
+          {withdrawnApplications.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                Withdrawn by Worker ({withdrawnApplications.length})
+              </h3>
+              <div className="space-y-3">
+                {withdrawnApplications.map(application => (
+                  <div key={application.id} className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-semibold text-gray-900">{application.workerName}</h4>
+                        {application.withdrawnAt && (
+                          <div className="flex items-center text-sm text-gray-500">
+                            <Calendar size={14} className="mr-1" />
+                            Withdrew on {formatDate(application.withdrawnAt)}
+                          </div>
+                        )}
+                      </div>
+                      <div className="px-2 py-1 text-xs font-medium rounded-full bg-gray-200 text-gray-800">
+                        Withdrawn
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-700 mt-2">
+                      {application.withdrawalReason || 'No reason given'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
       {/* Worker Profile Modal */}
       <WorkerProfileModal />
+
+      {invitingWorker && (
+        <InviteWorkerDialog
+          workerName={invitingWorker.name}
+          jobs={getInvitableJobs(invitingWorker.id)}
+          submitting={sendingInvitation}
+          onSubmit={handleSendInvitation}
+          onClose={() => setInvitingWorker(null)}
+        />
+      )}
+
+      {renderBulkRejectModal()}
+      {renderBroadcastModal()}
+
+      {chattingWith && (
+        <ChatThread
+          jobId={job.id}
+          jobTitle={job.title}
+          workerId={chattingWith.id}
+          otherPartyName={chattingWith.name}
+          onClose={() => setChattingWith(null)}
+        />
+      )}
+
+      {reviewingWorker && (
+        <ReviewDialog
+          revieweeName={reviewingWorker.name}
+          jobTitle={job.title}
+          tags={WORKER_REVIEW_TAGS}
+          submitting={submittingReview}
+          onSubmit={handleSubmitReview}
+          onClose={() => setReviewingWorker(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
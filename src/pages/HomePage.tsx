@@ -1,17 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useOffline } from '../context/OfflineContext';
 import { JobCard } from '../components/JobCard';
-import { Job, Application, User } from '../types';
-import { jobStorage, applicationStorage } from '../utils/storage';
-import { JobStatusManager } from '../utils/jobStatusManager';
+import { ApplyDialog } from '../components/ApplyDialog';
+import { ChatThread } from '../components/ChatThread';
+import { Job, Application, ApplicationStatus, User, JobSearchQuery, WageType, RatingSummary, Review, Coordinates } from '../types';
+import { jobStorage, applicationStorage, reviewStorage } from '../utils/storage';
+import { WAGE_TYPE_LABELS } from '../utils/wageCalculator';
+import { REVIEW_TAG_LABELS } from '../utils/reviews';
+import { RatingBadge } from '../components/RatingBadge';
+import { useJobFeed, useWorkerApplications, useUnreadMessageCounts } from '../hooks/useRealtime';
+import { threadKey } from '../utils/messages';
+import { GeoLocator } from '../utils/geolocation';
 import { useNavigate } from 'react-router-dom';
-import { Search, Filter, Sprout, Tractor, Users, User as UserIcon, Mail, MapPin, Calendar, Camera, X, Phone } from 'lucide-react';
+import { Search, Filter, Sprout, Tractor, Users, User as UserIcon, Mail, MapPin, Calendar, Camera, X, Phone, Crosshair } from 'lucide-react';
+
+const DISTANCE_OPTIONS_KM = [5, 10, 25, 50];
 
 export function HomePage() {
   const { user, getUserProfile } = useAuth();
+  const { queued, run, lastReplayAt } = useOffline();
   const navigate = useNavigate();
   const [jobs, setJobs] = useState<Job[]>([]);
-  const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -19,55 +31,158 @@ export function HomePage() {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedFarmer, setSelectedFarmer] = useState<User | null>(null);
   const [showFarmerModal, setShowFarmerModal] = useState(false);
+  const [farmerRatings, setFarmerRatings] = useState<Record<string, RatingSummary>>({});
+  const [farmerReviews, setFarmerReviews] = useState<Review[]>([]);
+  const [applyingJob, setApplyingJob] = useState<Job | null>(null);
+  const [chatJob, setChatJob] = useState<Job | null>(null);
+  const [submittingApplication, setSubmittingApplication] = useState(false);
   const [filters, setFilters] = useState({
+    minWage: '',
     maxWage: '',
     durationType: '',
-    location: ''
+    wageType: '',
+    location: '',
+    withinKm: '',
+    status: '',
+    dateFrom: '',
+    dateTo: ''
   });
-
+  // Distances are measured from here when set, otherwise from the worker's home pin
+  const [deviceLocation, setDeviceLocation] = useState<Coordinates | undefined>();
+  const [locating, setLocating] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Incremented on every new search so responses for stale queries are ignored
+  const searchRequestId = useRef(0);
+  const hasSearched = useRef(false);
+
+  // Reloads after queued actions were replayed too, to show what the server made of them
   useEffect(() => {
     if (user) {
       loadJobs();
     } else {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, lastReplayAt]);
+
+  // Re-run the server-side search when the search term or filters change
+  useEffect(() => {
+    if (!hasSearched.current) return;
+    const timeout = setTimeout(() => {
+      searchFirstPage().catch(error => {
+        console.error('Error searching jobs:', error);
+        setError('Failed to load jobs. Please try again.');
+      });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, filters, deviceLocation]);
+
+  // Fetch ratings for farmers that appear in the feed for the first time
+  useEffect(() => {
+    if (user?.userType !== 'worker') return;
+    const newFarmerIds = jobs.map(job => job.farmerId).filter(id => !(id in farmerRatings));
+    if (newFarmerIds.length === 0) return;
+
+    reviewStorage.getRatingSummaries(newFarmerIds).then(summaries => {
+      setFarmerRatings(prev => {
+        const next = { ...prev, ...summaries };
+        // Remember farmers without reviews so they are not fetched again
+        newFarmerIds.forEach(id => {
+          if (!next[id]) next[id] = { userId: id, reviewCount: 0, averageRating: 0, topTags: [] };
+        });
+        return next;
+      });
+    });
+  }, [jobs]);
 
+  // Load the next page when the bottom of the feed scrolls into view
   useEffect(() => {
-    filterJobs();
-  }, [jobs, searchTerm, filters]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMoreJobs();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  const searchCenter = deviceLocation ?? user?.homeLocation;
+
+  const buildSearchQuery = (): JobSearchQuery => {
+    const parseWage = (value: string) => (value ? parseFloat(value) : undefined);
+
+    return {
+      searchTerm: searchTerm.trim() || undefined,
+      farmerId: user?.userType === 'farmer' ? user.id : undefined,
+      // Workers can only see open jobs
+      statuses: user?.userType === 'farmer'
+        ? (filters.status ? [filters.status as Job['status']] : undefined)
+        : ['open'],
+      minWage: parseWage(filters.minWage),
+      maxWage: parseWage(filters.maxWage),
+      durationType: (filters.durationType || undefined) as Job['durationType'] | undefined,
+      wageType: (filters.wageType || undefined) as WageType | undefined,
+      location: filters.location.trim() || undefined,
+      near: filters.withinKm && searchCenter ? { ...searchCenter, radiusKm: parseFloat(filters.withinKm) } : undefined,
+      dateFrom: filters.dateFrom || undefined,
+      dateTo: filters.dateTo || undefined
+    };
+  };
+
+  // New and changed jobs arrive without a reload, as do the farmer's answers to applications
+  useJobFeed(user ? buildSearchQuery() : null, setJobs);
+  useWorkerApplications(user?.userType === 'worker' ? user.id : undefined, setApplications);
+  const unreadMessages = useUnreadMessageCounts(user);
+
+  const searchFirstPage = async () => {
+    const requestId = ++searchRequestId.current;
+    const result = await jobStorage.searchJobs(buildSearchQuery());
+    if (requestId !== searchRequestId.current) return;
+
+    hasSearched.current = true;
+    setJobs(result.jobs);
+    setNextCursor(result.nextCursor);
+  };
+
+  const loadMoreJobs = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const requestId = searchRequestId.current;
+    setLoadingMore(true);
+    try {
+      const result = await jobStorage.searchJobs(buildSearchQuery(), nextCursor);
+      if (requestId !== searchRequestId.current) return;
+
+      // Realtime may already have added some of these; its copy is the newer one
+      setJobs(prev => {
+        const loadedIds = new Set(prev.map(job => job.id));
+        return [...prev, ...result.jobs.filter(job => !loadedIds.has(job.id))];
+      });
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Error loading more jobs:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const loadJobs = async () => {
     try {
       setLoading(true);
       setError(null);
       
-      // Get jobs and applications in parallel without updating statuses immediately
-      const [allJobs, allApplications] = await Promise.all([
-        jobStorage.getJobs(),
-        applicationStorage.getApplications()
+      // Get the first page of jobs and the worker's applications in parallel
+      const [, allApplications] = await Promise.all([
+        searchFirstPage(),
+        user?.userType === 'worker' ? applicationStorage.getApplicationsForWorker(user.id) : Promise.resolve([])
       ]);
       
-      if (user?.userType === 'farmer') {
-        setJobs(allJobs.filter((job: Job) => job.farmerId === user.id));
-      } else {
-        // Workers can only see open jobs
-        setJobs(allJobs.filter((job: Job) => job.status === 'open'));
-        setApplications(allApplications.filter((app: Application) => app.workerId === user?.id));
+      if (user?.userType === 'worker') {
+        setApplications(allApplications);
       }
-      
-      // Update job statuses in the background after initial load
-      JobStatusManager.updateAllJobStatuses().then((updatedJobs) => {
-        if (user?.userType === 'farmer') {
-          setJobs(updatedJobs.filter((job: Job) => job.farmerId === user.id));
-        } else {
-          setJobs(updatedJobs.filter((job: Job) => job.status === 'open'));
-        }
-      }).catch(error => {
-        console.error('Error updating job statuses:', error);
-        // Don't show error to user as this is background operation
-      });
-      
     } catch (error) {
       console.error('Error loading jobs:', error);
       setError('Failed to load jobs. Please try again.');
@@ -76,35 +191,20 @@ export function HomePage() {
     }
   };
 
-  const filterJobs = () => {
-    let filtered = jobs;
-    if (searchTerm) {
-      filtered = filtered.filter((job: Job) =>
-        job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        job.location.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-    if (filters.maxWage) {
-      filtered = filtered.filter((job: Job) => job.wage <= parseInt(filters.maxWage));
-    }
-    if (filters.durationType) {
-      filtered = filtered.filter((job: Job) => job.durationType === filters.durationType);
-    }
-    if (filters.location) {
-      filtered = filtered.filter((job: Job) =>
-        job.location.toLowerCase().includes(filters.location.toLowerCase())
-      );
-    }
-    setFilteredJobs(filtered);
+  const isApplicationQueued = (jobId: string): boolean => {
+    return queued.some(action => action.kind === 'apply' && action.jobId === jobId);
   };
 
   const canApplyToJob = (jobId: string): boolean => {
     if (!user) return false;
+    if (isApplicationQueued(jobId)) return false;
     
     const existingApplication = applications.find(app => app.jobId === jobId);
     
     if (!existingApplication) return true;
+
+    // Workers who withdrew can change their mind and apply again
+    if (existingApplication.status === 'withdrawn') return true;
     
     // If rejected, check if 24 hours have passed
     if (existingApplication.status === 'rejected' && existingApplication.rejectedAt) {
@@ -117,16 +217,27 @@ export function HomePage() {
     return false;
   };
 
-  const getApplicationStatus = (jobId: string): 'pending' | 'accepted' | 'rejected' | null => {
+  const getApplicationStatus = (jobId: string): ApplicationStatus | null => {
+    if (isApplicationQueued(jobId)) return 'pending';
     const application = applications.find(app => app.jobId === jobId);
     return application ? application.status : null;
   };
 
+  // Chat with the farmer stays open while the application is live
+  const canMessageFarmer = (jobId: string): boolean => {
+    const status = getApplicationStatus(jobId);
+    return status === 'pending' || status === 'accepted';
+  };
+
   const handleViewFarmerProfile = async (farmerId: string) => {
     try {
-      const farmerProfile = await getUserProfile(farmerId);
+      const [farmerProfile, reviews] = await Promise.all([
+        getUserProfile(farmerId),
+        reviewStorage.getReviewsForUser(farmerId)
+      ]);
       if (farmerProfile) {
         setSelectedFarmer(farmerProfile);
+        setFarmerReviews(reviews);
         setShowFarmerModal(true);
       } else {
         alert('Farmer profile not found');
@@ -177,31 +288,71 @@ export function HomePage() {
       }
     }
 
-    // Create new application or update existing rejected one
+    setApplyingJob(job);
+  };
+
+  const submitApplication = async (message: string, availabilityNote: string, proposedWage?: number) => {
+    if (!user || !applyingJob) return;
+
+    const existingApplication = applications.find(app => app.jobId === applyingJob.id);
+
+    // Create new application or update existing rejected/withdrawn one
     const application: Application = {
       id: existingApplication?.id || Date.now().toString(),
-      jobId,
+      jobId: applyingJob.id,
       workerId: user.id,
       workerName: user.name,
       workerEmail: user.email,
+      message: message || undefined,
+      availabilityNote: availabilityNote || undefined,
+      proposedWage,
+      proposalStatus: proposedWage ? 'pending' : undefined,
       status: 'pending',
       appliedAt: new Date().toISOString()
     };
 
-    if (existingApplication) {
-      applicationStorage.updateApplication(application.id, {
-        status: 'pending',
-        appliedAt: new Date().toISOString(),
-        rejectedAt: undefined
-      });
-    } else {
-      applicationStorage.saveApplication(application);
+    setSubmittingApplication(true);
+    const result = await run({
+      kind: 'apply',
+      jobId: applyingJob.id,
+      jobTitle: applyingJob.title,
+      application,
+      isReapply: !!existingApplication
+    });
+    setSubmittingApplication(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
     }
-    
-    alert('Application submitted successfully!');
+
+    setApplyingJob(null);
+    if (result.queued) {
+      alert('You are offline. Your application is saved and will be sent when you are back online.');
+      return;
+    }
+    alert(proposedWage
+      ? `Application submitted! The farmer will see that you asked for NPR.${proposedWage}.`
+      : 'Application submitted successfully!');
     loadJobs(); // Reload to update application status
   };
 
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await GeoLocator.getCurrentPosition();
+      setDeviceLocation({ lat: position.latitude, lng: position.longitude });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not get your location.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const getDistanceToJob = (job: Job): number | undefined => {
+    return searchCenter && job.coordinates ? GeoLocator.distanceInMeters(searchCenter, job.coordinates) : undefined;
+  };
+
   const handleViewApplicants = (jobId: string) => {
     navigate(`/applicants/${jobId}`);
   };
@@ -364,6 +515,31 @@ export function HomePage() {
                 </div>
               </div>
             </div>
+
+            {/* Reviews from workers */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-700">Reviews from Workers</h4>
+                <RatingBadge summary={farmerRatings[selectedFarmer.id]} size="md" />
+              </div>
+              {(farmerRatings[selectedFarmer.id]?.topTags.length ?? 0) > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {farmerRatings[selectedFarmer.id].topTags.map(tag => (
+                    <span key={tag} className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      {REVIEW_TAG_LABELS[tag]}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                {farmerReviews.filter(review => review.comment).slice(0, 3).map(review => (
+                  <div key={review.id} className="text-sm bg-gray-50 rounded-lg p-3">
+                    <div className="text-yellow-500">{'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}</div>
+                    <p className="text-gray-700">{review.comment}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -488,29 +664,66 @@ export function HomePage() {
           />
         </div>
 
-        {user.userType === 'worker' && (
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="flex items-center text-blue-600 font-medium hover:text-blue-700 transition-colors"
-          >
-            <Filter size={20} className="mr-1" />
-            Filters
-          </button>
-        )}
-
-        {showFilters && user.userType === 'worker' && (
-          <div className="mt-4 p-4 bg-blue-50 rounded-lg space-y-3 border border-blue-200">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Max Wage (NPR.)
-              </label>
-              <input
-                type="number"
-                value={filters.maxWage}
-                onChange={(e) => setFilters({ ...filters, maxWage: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Enter maximum wage"
-              />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`flex items-center font-medium transition-colors ${
+            user.userType === 'farmer' ? 'text-green-600 hover:text-green-700' : 'text-blue-600 hover:text-blue-700'
+          }`}
+        >
+          <Filter size={20} className="mr-1" />
+          Filters
+        </button>
+
+        {showFilters && (
+          <div className={`mt-4 p-4 rounded-lg space-y-3 border ${
+            user.userType === 'farmer' ? 'bg-green-50 border-green-200' : 'bg-blue-50 border-blue-200'
+          }`}>
+            {user.userType === 'farmer' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Status
+                </label>
+                <select
+                  value={filters.status}
+                  onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="">All</option>
+                  <option value="open">Open</option>
+                  <option value="filled">Filled</option>
+                  <option value="in-progress">In Progress</option>
+                  <option value="completed">Completed</option>
+                  <option value="cancelled">Cancelled</option>
+                  <option value="expired">Expired</option>
+                  <option value="disputed">Disputed</option>
+                </select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Min Wage (NPR.)
+                </label>
+                <input
+                  type="number"
+                  value={filters.minWage}
+                  onChange={(e) => setFilters({ ...filters, minWage: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Minimum"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max Wage (NPR.)
+                </label>
+                <input
+                  type="number"
+                  value={filters.maxWage}
+                  onChange={(e) => setFilters({ ...filters, maxWage: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Maximum"
+                />
+              </div>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -526,6 +739,21 @@ export function HomePage() {
                 <option value="days">Days</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Pay Type
+              </label>
+              <select
+                value={filters.wageType}
+                onChange={(e) => setFilters({ ...filters, wageType: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All</option>
+                {(Object.keys(WAGE_TYPE_LABELS) as WageType[]).map(wageType => (
+                  <option key={wageType} value={wageType}>{WAGE_TYPE_LABELS[wageType]}</option>
+                ))}
+              </select>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Location
@@ -538,13 +766,74 @@ export function HomePage() {
                 placeholder="Enter location"
               />
             </div>
+            {user.userType === 'worker' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Distance
+                </label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={filters.withinKm}
+                    onChange={(e) => setFilters({ ...filters, withinKm: e.target.value })}
+                    disabled={!searchCenter}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  >
+                    <option value="">Any distance</option>
+                    {DISTANCE_OPTIONS_KM.map(km => (
+                      <option key={km} value={km}>Within {km} km</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleUseMyLocation}
+                    disabled={locating}
+                    className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Crosshair size={16} className="mr-1" />
+                    {locating ? 'Locating...' : 'Near me'}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {deviceLocation
+                    ? 'Measured from where you are now. Only jobs pinned on the map are shown, nearest first.'
+                    : searchCenter
+                      ? 'Measured from your home pin. Only jobs pinned on the map are shown, nearest first.'
+                      : 'Pin your home on your profile, or tap "Near me", to search by distance.'}
+                </p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  From Date
+                </label>
+                <input
+                  type="date"
+                  value={filters.dateFrom}
+                  onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  To Date
+                </label>
+                <input
+                  type="date"
+                  value={filters.dateTo}
+                  min={filters.dateFrom || undefined}
+                  onChange={(e) => setFilters({ ...filters, dateTo: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
           </div>
         )}
       </div>
 
       {/* Job Listings */}
       <div className="space-y-4">
-        {filteredJobs.length === 0 ? (
+        {jobs.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               <WelcomeIcon size={48} className="mx-auto" />
@@ -568,7 +857,7 @@ export function HomePage() {
             )}
           </div>
         ) : (
-          filteredJobs.map((job: Job) => (
+          jobs.map((job: Job) => (
             <JobCard
               key={job.id}
               job={job}
@@ -578,13 +867,44 @@ export function HomePage() {
               isOwner={user.userType === 'farmer'}
               canApply={canApplyToJob(job.id)}
               applicationStatus={getApplicationStatus(job.id)}
+              isQueued={isApplicationQueued(job.id)}
+              distanceM={getDistanceToJob(job)}
+              farmerRating={farmerRatings[job.farmerId]}
+              onMessage={user.userType === 'worker' && canMessageFarmer(job.id) ? setChatJob : undefined}
+              unreadMessages={unreadMessages[threadKey(job.id, user.id)]}
             />
           ))
         )}
+
+        {/* Infinite scroll sentinel */}
+        {nextCursor && (
+          <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+            {loadingMore ? 'Loading more jobs...' : ''}
+          </div>
+        )}
       </div>
 
       {/* Farmer Profile Modal */}
       <FarmerProfileModal />
+
+      {applyingJob && (
+        <ApplyDialog
+          job={applyingJob}
+          submitting={submittingApplication}
+          onSubmit={submitApplication}
+          onClose={() => setApplyingJob(null)}
+        />
+      )}
+
+      {chatJob && (
+        <ChatThread
+          jobId={chatJob.id}
+          jobTitle={chatJob.title}
+          workerId={user.id}
+          otherPartyName={chatJob.farmerName}
+          onClose={() => setChatJob(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
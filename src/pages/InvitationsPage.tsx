@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Invitation } from '../types';
+import { invitationStorage } from '../utils/storage';
+import { WageCalculator } from '../utils/wageCalculator';
+import { useNavigate } from 'react-router-dom';
+import { Mail, Calendar, MapPin, DollarSign, CheckCircle, XCircle } from 'lucide-react';
+
+export function InvitationsPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadInvitations();
+    }
+  }, [user]);
+
+  const loadInvitations = async () => {
+    if (!user) return;
+    setInvitations(await invitationStorage.getInvitationsForWorker(user.id));
+    setLoading(false);
+  };
+
+  const handleRespond = async (invitation: Invitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    const result = await invitationStorage.respondToInvitation(invitation.id, accept);
+    setRespondingId(null);
+
+    if (!result.success) {
+      alert(result.error);
+    } else if (accept) {
+      alert(`You have joined "${invitation.job?.title}". It is now listed in My Jobs.`);
+    }
+
+    loadInvitations();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: Invitation['status']) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      case 'declined':
+        return 'bg-red-100 text-red-800';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const pendingInvitations = invitations.filter(invitation => invitation.status === 'pending');
+  const pastInvitations = invitations.filter(invitation => invitation.status !== 'pending');
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center mb-6">
+        <Mail className="text-blue-600 mr-3" size={24} />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Invitations</h1>
+          <p className="text-gray-600">Jobs farmers have invited you to</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-600">Loading...</div>
+      ) : invitations.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-gray-400 mb-4">
+            <Mail size={48} className="mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No invitations yet</h3>
+          <p className="text-gray-600 mb-4">Farmers you have worked for can invite you straight to new jobs</p>
+          <button
+            onClick={() => navigate('/')}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Browse Jobs
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {pendingInvitations.length > 0 && (
+            <div className="space-y-3">
+              {pendingInvitations.map(invitation => (
+                <div key={invitation.id} className="bg-white border border-blue-200 rounded-lg p-4">
+                  <h3 className="font-semibold text-gray-900 text-lg">{invitation.job?.title || 'Job'}</h3>
+                  <p className="text-sm text-gray-600 mb-2">from {invitation.job?.farmerName}</p>
+
+                  {invitation.job && (
+                    <div className="space-y-1 mb-3 text-sm text-gray-600">
+                      <div className="flex items-center">
+                        <DollarSign size={14} className="mr-1" />
+                        {WageCalculator.formatWage(invitation.job)}
+                      </div>
+                      <div className="flex items-center">
+                        <MapPin size={14} className="mr-1" />
+                        {invitation.job.location}
+                      </div>
+                      {invitation.job.preferredDate && (
+                        <div className="flex items-center">
+                          <Calendar size={14} className="mr-1" />
+                          {formatDate(invitation.job.preferredDate)}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {invitation.message && (
+                    <div className="bg-gray-50 rounded-lg p-3 mb-3">
+                      <p className="text-sm text-gray-700">{invitation.message}</p>
+                    </div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleRespond(invitation, true)}
+                      disabled={respondingId === invitation.id}
+                      className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                    >
+                      <CheckCircle size={16} className="mr-1" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => handleRespond(invitation, false)}
+                      disabled={respondingId === invitation.id}
+                      className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                    >
+                      <XCircle size={16} className="mr-1" />
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {pastInvitations.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Earlier</h3>
+              <div className="space-y-2">
+                {pastInvitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+                    <div>
+                      <div className="font-medium text-gray-900">{invitation.job?.title || 'Job'}</div>
+                      <div className="text-xs text-gray-500">Invited on {formatDate(invitation.createdAt)}</div>
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${getStatusColor(invitation.status)}`}>
+                      {invitation.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
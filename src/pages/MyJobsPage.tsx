@@ -1,15 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useOffline } from '../context/OfflineContext';
 import { JobCard } from '../components/JobCard';
-import { Job, Application, User } from '../types';
-import { jobStorage, applicationStorage } from '../utils/storage';
+import { InviteWorkerDialog } from '../components/InviteWorkerDialog';
+import { ReviewDialog } from '../components/ReviewDialog';
+import { ChatThread } from '../components/ChatThread';
+import { RatingBadge } from '../components/RatingBadge';
+import { Job, Application, User, JobStatus, AttendanceRecord, AttendanceLocation, PayrollLine, Payment, Review, ReviewTag, RatingSummary } from '../types';
+import { jobStorage, applicationStorage, invitationStorage, attendanceStorage, payrollStorage, paymentStorage, reviewStorage } from '../utils/storage';
 import { JobStatusManager } from '../utils/jobStatusManager';
 import { useNavigate } from 'react-router-dom';
-import { Briefcase, Clock, CheckCircle, XCircle, AlertCircle, Edit2, Trash2, DollarSign, X, Save, Users, User as UserIcon, Mail, MapPin, Calendar, Camera, Phone } from 'lucide-react';
+import { Briefcase, Clock, CheckCircle, XCircle, AlertCircle, Edit2, Trash2, DollarSign, X, Save, Users, User as UserIcon, Mail, MapPin, Calendar, Camera, Phone, Send, LogIn, LogOut, Hourglass } from 'lucide-react';
 import { WageValidator } from '../utils/wageValidation';
+import { WageCalculator, PAYROLL_ADJUSTMENT_LABELS, PAYMENT_METHOD_LABELS } from '../utils/wageCalculator';
+import { JobStateMachine } from '../utils/jobStateMachine';
+import { GeoLocator } from '../utils/geolocation';
+import { FARMER_REVIEW_TAGS } from '../utils/reviews';
+import { useJobFeed, useJobUpdates, useJobApplications, useWorkerApplications, useUnreadMessageCounts } from '../hooks/useRealtime';
+import { threadKey } from '../utils/messages';
+import { QueuedAction } from '../utils/offlineActions';
 
 export function MyJobsPage() {
   const { user, getUserProfile } = useAuth();
+  const { queued, run, lastReplayAt } = useOffline();
   const navigate = useNavigate();
   const [jobs, setJobs] = useState<Job[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
@@ -19,50 +32,88 @@ export function MyJobsPage() {
   const [editData, setEditData] = useState({
     wage: '',
     requiredWorkers: '',
-    status: 'open' as 'open' | 'filled' | 'in-progress' | 'completed'
+    status: 'open' as JobStatus,
+    statusReason: ''
   });
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
-
+  const [deleteReason, setDeleteReason] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [withdrawingJobId, setWithdrawingJobId] = useState<string | null>(null);
+  const [withdrawReason, setWithdrawReason] = useState('');
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [respondingOfferId, setRespondingOfferId] = useState<string | null>(null);
+  const [invitingWorker, setInvitingWorker] = useState<{ id: string; name: string } | null>(null);
+  const [chatJob, setChatJob] = useState<Job | null>(null);
+  const [sendingInvitation, setSendingInvitation] = useState(false);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [recordingAttendanceFor, setRecordingAttendanceFor] = useState<string | null>(null);
+  const [statements, setStatements] = useState<PayrollLine[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [disputingPayment, setDisputingPayment] = useState<Payment | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [answeringPayment, setAnsweringPayment] = useState(false);
+  const [myReviews, setMyReviews] = useState<Review[]>([]);
+  const [farmerRatings, setFarmerRatings] = useState<Record<string, RatingSummary>>({});
+  const [reviewingJob, setReviewingJob] = useState<Job | null>(null);
+  const [submittingReview, setSubmittingReview] = useState(false);
+
+  // Reloads after queued actions were replayed too, to show what the server made of them
   useEffect(() => {
     if (user) {
       loadData();
     }
-  }, [user]);
+  }, [user, lastReplayAt]);
 
   const loadData = async () => {
     if (!user) return;
 
-    // Always update all job statuses first to ensure accurate status display
-    const updatedJobs = await JobStatusManager.updateAllJobStatuses();
+    // Statuses are advanced by the database; predict any pending transition for display
+    const updatedJobs = JobStatusManager.predictStatuses(await jobStorage.getJobs());
 
     if (user.userType === 'farmer') {
-      setJobs(updatedJobs.filter((job: Job) => job.farmerId === user.id));
-    } else {
+      // Soft-deleted jobs only remain visible to the workers who applied
+      const farmerJobs = updatedJobs.filter((job: Job) => job.farmerId === user.id && !job.deletedAt);
+      setJobs(farmerJobs);
+
       const allApplications = await applicationStorage.getApplications();
-      const userApplications = allApplications.filter((app: Application) => app.workerId === user.id);
+      const farmerJobIds = new Set(farmerJobs.map((job: Job) => job.id));
+      setApplications(allApplications.filter((app: Application) => farmerJobIds.has(app.jobId)));
+    } else {
+      const [userApplications, userAttendance, userStatements, userPayments, userReviews] = await Promise.all([
+        applicationStorage.getApplicationsForWorker(user.id),
+        attendanceStorage.getAttendanceForWorker(user.id),
+        payrollStorage.getStatementsForWorker(user.id),
+        paymentStorage.getPaymentsForWorker(user.id),
+        reviewStorage.getReviewsForUser(user.id, 'written')
+      ]);
       setApplications(userApplications);
+      setAttendance(userAttendance);
+      setStatements(userStatements);
+      setPayments(userPayments);
+      setMyReviews(userReviews);
 
       // Filter jobs to only include those that still exist AND have user applications
       const appliedJobs = updatedJobs.filter((job: Job) => 
         userApplications.some((app: Application) => app.jobId === job.id)
       );
       setJobs(appliedJobs);
-
-      // Clean up applications for deleted jobs
-      const validJobIds = new Set(updatedJobs.map((job: Job) => job.id));
-      const validApplications = userApplications.filter((app: Application) => validJobIds.has(app.jobId));
-      
-      // If some applications were for deleted jobs, update localStorage
-      if (validApplications.length !== userApplications.length) {
-        const allApps = await applicationStorage.getApplications();
-        const otherUsersApps = allApps.filter((app: Application) => app.workerId !== user.id);
-        const cleanedApplications = [...otherUsersApps, ...validApplications];
-        localStorage.setItem('kheticulture_applications', JSON.stringify(cleanedApplications));
-        setApplications(validApplications);
-      }
+      setFarmerRatings(await reviewStorage.getRatingSummaries(appliedJobs.map((job: Job) => job.farmerId)));
     }
   };
 
+  const isFarmer = user?.userType === 'farmer';
+  const jobIds = jobs.map(job => job.id);
+
+  useJobFeed(isFarmer && user ? { farmerId: user.id } : null, setJobs);
+  useJobApplications(isFarmer ? jobIds : [], setApplications);
+  useJobUpdates(isFarmer ? [] : jobIds, updatedJob =>
+    setJobs(prev => prev.map(job => (job.id === updatedJob.id ? JobStatusManager.checkJobStatus(updatedJob) : job)))
+  );
+  useWorkerApplications(isFarmer ? undefined : user?.id, setApplications);
+  const unreadMessages = useUnreadMessageCounts(user);
+
+  const getJobStatusText = (status: JobStatus) => JobStateMachine.getLabel(status);
+
   const getJobApplications = (jobId: string): Application[] => {
     return applications.filter((app: Application) => app.jobId === jobId);
   };
@@ -94,16 +145,17 @@ export function MyJobsPage() {
     const job = jobs.find(j => j.id === jobId);
     if (!job) return;
 
-    // Prevent editing of completed jobs
-    if (job.status === 'completed') {
-      alert('Cannot edit completed jobs. The job has been closed.');
+    // Prevent editing of closed jobs
+    if (JobStateMachine.isClosed(job.status)) {
+      alert(`Cannot edit ${getJobStatusText(job.status).toLowerCase()} jobs. The job has been closed.`);
       return;
     }
 
     setEditData({
       wage: job.wage?.toString() || '',
       requiredWorkers: job.requiredWorkers?.toString() || '',
-      status: job.status
+      status: job.status,
+      statusReason: ''
     });
     setEditingJob(jobId);
   };
@@ -114,27 +166,28 @@ export function MyJobsPage() {
     const job = jobs.find(j => j.id === editingJob);
     if (!job) return;
 
-    // Double-check that we're not editing a completed job
-    if (job.status === 'completed') {
-      alert('Cannot edit completed jobs. The job has been closed.');
+    // Double-check that we're not editing a closed job
+    if (JobStateMachine.isClosed(job.status)) {
+      alert(`Cannot edit ${getJobStatusText(job.status).toLowerCase()} jobs. The job has been closed.`);
       setEditingJob(null);
       return;
     }
 
+    const transition = JobStateMachine.validateTransition(job.status, editData.status, editData.statusReason);
+    if (!transition.valid) {
+      alert(transition.reason);
+      return;
+    }
+
     const jobApplications = getJobApplications(editingJob);
     const hasAnyApplications = jobApplications.length > 0;
     const acceptedCount = getAcceptedApplicationsCount(editingJob);
 
     // Validate wage
     const newWage = parseFloat(editData.wage);
-    if (isNaN(newWage) || newWage <= 0) {
-      alert('Please enter a valid wage amount');
-      return;
-    }
-
-    // Strict wage validation - prevent any wage changes if applications exist
-    if (hasAnyApplications && newWage !== job.wage) {
-      alert(`Cannot change wage from ₹${job.wage} to ₹${newWage}. ${jobApplications.length} worker${jobApplications.length !== 1 ? 's have' : ' has'} already applied based on the original wage amount.`);
+    const wageCheck = WageValidator.validateWageForType(newWage, job.wageType, job.wageUnit, job.estimatedUnits);
+    if (isNaN(newWage) || !wageCheck.valid) {
+      alert(wageCheck.error || 'Please enter a valid wage amount');
       return;
     }
 
@@ -176,15 +229,17 @@ export function MyJobsPage() {
       return;
     }
 
-    // Update job
+    // Update job; the database recomputes the status after the change
     jobStorage.updateJob(editingJob, {
       wage: newWage,
       requiredWorkers: newRequiredWorkers,
       status: editData.status
-    });
-
-    // Check if status should auto-update after manual changes and reload
-    JobStatusManager.checkStatusAfterWorkerAccepted(editingJob).then(() => {
+    }, editData.statusReason).then((result) => {
+      if (!result.success) {
+        alert(result.error);
+      } else if (result.notified) {
+        alert(`Wage raised to NPR.${newWage}. ${result.notified} worker${result.notified !== 1 ? 's were' : ' was'} notified.`);
+      }
       loadData(); // Reload to get updated status
     });
 
@@ -193,39 +248,276 @@ export function MyJobsPage() {
 
   const handleCancelEdit = () => {
     setEditingJob(null);
-    setEditData({ wage: '', requiredWorkers: '', status: 'open' });
+    setEditData({ wage: '', requiredWorkers: '', status: 'open', statusReason: '' });
   };
 
   const handleDeleteJob = (jobId: string) => {
     const job = jobs.find(j => j.id === jobId);
-    if (job?.status === 'completed') {
-      alert('Cannot delete completed jobs. The job has been closed and is now part of the historical record.');
+    if (job && !JobStateMachine.canDelete(job.status)) {
+      alert(`Cannot delete ${getJobStatusText(job.status).toLowerCase()} jobs. Work on this job has started and it is now part of the historical record.`);
       return;
     }
+    setDeleteReason('');
     setShowDeleteConfirm(jobId);
   };
 
   const confirmDeleteJob = async () => {
     if (!showDeleteConfirm) return;
 
-    // Get all jobs and filter out the one to delete
-    const allJobs = await jobStorage.getJobs();
-    const updatedJobs = allJobs.filter(job => job.id !== showDeleteConfirm);
-    localStorage.setItem('kheticulture_jobs', JSON.stringify(updatedJobs));
+    const jobApplications = getJobApplications(showDeleteConfirm);
+    if (jobApplications.length > 0 && !deleteReason.trim()) {
+      alert('Please give a reason so the workers who applied know why the job was removed.');
+      return;
+    }
+
+    setDeleting(true);
+    const result = await jobStorage.deleteJob(showDeleteConfirm, deleteReason);
+    setDeleting(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
 
-    // Also delete all applications for this job
-    const allApplications = await applicationStorage.getApplications();
-    const updatedApplications = allApplications.filter(app => app.jobId !== showDeleteConfirm);
-    localStorage.setItem('kheticulture_applications', JSON.stringify(updatedApplications));
+    if (result.notified) {
+      alert(`Job deleted. ${result.notified} worker${result.notified !== 1 ? 's have' : ' has'} been notified.`);
+    }
 
     setShowDeleteConfirm(null);
+    setDeleteReason('');
     loadData();
   };
 
+  // Actions for this job that were saved offline and have not been sent yet
+  const getQueuedActions = (jobId: string, kinds: QueuedAction['kind'][]): QueuedAction[] => {
+    return queued.filter(action => action.jobId === jobId && kinds.includes(action.kind));
+  };
+
   const getApplicationStatus = (jobId: string) => {
+    if (getQueuedActions(jobId, ['withdraw']).length > 0) return 'withdrawn';
     return applications.find(app => app.jobId === jobId)?.status || 'pending';
   };
 
+  const canMessageFarmer = (jobId: string): boolean => {
+    const status = applications.find(app => app.jobId === jobId)?.status;
+    return status === 'pending' || status === 'accepted';
+  };
+
+  const canWithdraw = (job: Job): boolean => {
+    const application = applications.find(app => app.jobId === job.id);
+    if (!application || getQueuedActions(job.id, ['withdraw']).length > 0) return false;
+    if (application.status === 'pending') return true;
+    // Accepted workers can only pull out before work starts
+    return application.status === 'accepted' && (job.status === 'open' || job.status === 'filled');
+  };
+
+  const handleWithdraw = (jobId: string) => {
+    setWithdrawReason('');
+    setWithdrawingJobId(jobId);
+  };
+
+  const confirmWithdraw = async () => {
+    const application = applications.find(app => app.jobId === withdrawingJobId);
+    if (!application) return;
+
+    setWithdrawing(true);
+    const result = await run({
+      kind: 'withdraw',
+      jobId: application.jobId,
+      jobTitle: jobs.find(job => job.id === application.jobId)?.title || '',
+      applicationId: application.id,
+      reason: withdrawReason
+    });
+    setWithdrawing(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setWithdrawingJobId(null);
+    setWithdrawReason('');
+    if (result.queued) {
+      alert('You are offline. Your withdrawal is saved and will be sent when you are back online.');
+      return;
+    }
+    loadData();
+  };
+
+  const getWaitlistOffer = (jobId: string): Application | undefined => {
+    const application = applications.find(app => app.jobId === jobId);
+    return application && JobStatusManager.isOfferLive(application) ? application : undefined;
+  };
+
+  const handleRespondToOffer = async (application: Application, accept: boolean) => {
+    if (!accept && !confirm('Decline this place? It will be offered to the next worker on the waitlist.')) {
+      return;
+    }
+
+    setRespondingOfferId(application.id);
+    const result = await applicationStorage.respondToWaitlistOffer(application.id, accept);
+    setRespondingOfferId(null);
+
+    if (!result.success) {
+      alert(result.error);
+    }
+    loadData();
+  };
+
+  const getPastWorkers = (job: Job): Application[] => {
+    return getJobApplications(job.id).filter(app => job.acceptedWorkerIds.includes(app.workerId));
+  };
+
+  const getInvitableJobs = (workerId: string): Job[] => {
+    return jobs.filter(job => job.status === 'open' && !job.acceptedWorkerIds.includes(workerId));
+  };
+
+  const handleSendInvitation = async (jobId: string, message: string) => {
+    if (!invitingWorker) return;
+
+    setSendingInvitation(true);
+    const result = await invitationStorage.inviteWorker(jobId, invitingWorker.id, message);
+    setSendingInvitation(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setInvitingWorker(null);
+    alert(`Invitation sent to ${invitingWorker.name}.`);
+  };
+
+  const getWithdrawalReason = (job: Job): string | undefined => {
+    return job.deletionReason || applications.find(app => app.jobId === job.id)?.withdrawalReason;
+  };
+
+  // Work dates follow the database's CURRENT_DATE, which is in UTC
+  const getTodayAttendance = (jobId: string): AttendanceRecord | undefined => {
+    const today = new Date().toISOString().split('T')[0];
+    return attendance.find(record => record.jobId === jobId && record.workDate === today);
+  };
+
+  const canRecordAttendance = (job: Job): boolean => {
+    return !!user && job.status === 'in-progress' && (job.acceptedWorkerIds || []).includes(user.id);
+  };
+
+  const handleAttendance = async (job: Job, action: 'check-in' | 'check-out') => {
+    setRecordingAttendanceFor(job.id);
+
+    let location: AttendanceLocation | undefined;
+    try {
+      location = GeoLocator.withDistanceFromJob(job, await GeoLocator.getCurrentPosition());
+    } catch (error) {
+      // Attendance is still recorded; the farmer just won't see where it happened
+      console.warn('Attendance recorded without location:', error);
+    }
+
+    const result = await run({ kind: action, jobId: job.id, jobTitle: job.title, location });
+    setRecordingAttendanceFor(null);
+
+    if (!result.success) {
+      alert(result.error);
+    } else if (result.queued) {
+      alert(`${action === 'check-in' ? 'Check-in' : 'Check-out'} saved with the current time. It will be sent when you are back online.`);
+      return;
+    } else if (!location) {
+      alert(`${action === 'check-in' ? 'Checked in' : 'Checked out'} without your location. The farmer will confirm your attendance.`);
+    } else if (GeoLocator.isOutsideGeofence(location)) {
+      alert(`Recorded, but you are ${GeoLocator.formatDistance(location.distanceM!)} from the job site. The farmer will be asked to confirm.`);
+    }
+
+    loadData();
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  };
+
+  const getStatement = (jobId: string): PayrollLine | undefined => {
+    return statements.find(statement => statement.jobId === jobId);
+  };
+
+  const getMyReview = (jobId: string): Review | undefined => {
+    return myReviews.find(review => review.jobId === jobId);
+  };
+
+  const canReviewFarmer = (job: Job): boolean => {
+    return job.status === 'completed' && getApplicationStatus(job.id) === 'accepted' && !getMyReview(job.id);
+  };
+
+  const handleSubmitReview = async (rating: number, tags: ReviewTag[], comment: string) => {
+    if (!reviewingJob) return;
+
+    setSubmittingReview(true);
+    const result = await reviewStorage.submitReview(reviewingJob.id, reviewingJob.farmerId, rating, tags, comment);
+    setSubmittingReview(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setReviewingJob(null);
+    loadData();
+  };
+
+  const getStatementPayments = (statement: PayrollLine): Payment[] => {
+    return payments.filter(payment => payment.statementId === statement.statementId);
+  };
+
+  // Disputed payments do not count, matching the statement_balances view
+  const getOutstanding = (statement: PayrollLine): number => {
+    const paid = getStatementPayments(statement)
+      .filter(payment => payment.status !== 'disputed')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    return Math.max(statement.netAmount - paid, 0);
+  };
+
+  const handleConfirmPayment = async (payment: Payment) => {
+    setAnsweringPayment(true);
+    const result = await paymentStorage.confirmPayment(payment.id);
+    setAnsweringPayment(false);
+
+    if (!result.success) {
+      alert(result.error);
+    }
+    loadData();
+  };
+
+  const handleDisputePayment = (payment: Payment) => {
+    setDisputeReason('');
+    setDisputingPayment(payment);
+  };
+
+  const confirmDisputePayment = async () => {
+    if (!disputingPayment) return;
+
+    if (!disputeReason.trim()) {
+      alert('Please say what is wrong with this payment');
+      return;
+    }
+
+    setAnsweringPayment(true);
+    const result = await paymentStorage.disputePayment(disputingPayment.id, disputeReason);
+    setAnsweringPayment(false);
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setDisputingPayment(null);
+    setDisputeReason('');
+    loadData();
+  };
+
+  // The worker's counter-offer on this job, if they made one
+  const getWageOffer = (jobId: string): Application | undefined => {
+    const application = applications.find(app => app.jobId === jobId);
+    return application?.proposedWage ? application : undefined;
+  };
+
   const canReapply = (jobId: string): boolean => {
     const application = applications.find(app => app.jobId === jobId);
     if (!application || application.status !== 'rejected' || !application.rejectedAt) {
@@ -295,6 +587,10 @@ export function MyJobsPage() {
         return <CheckCircle size={20} className="text-green-600" />;
       case 'rejected':
         return <XCircle size={20} className="text-red-600" />;
+      case 'withdrawn-by-farmer':
+        return <AlertCircle size={20} className="text-orange-600" />;
+      case 'withdrawn':
+        return <XCircle size={20} className="text-gray-500" />;
       default:
         return <Clock size={20} className="text-yellow-600" />;
     }
@@ -306,11 +602,19 @@ export function MyJobsPage() {
         return 'bg-green-100 text-green-800';
       case 'rejected':
         return 'bg-red-100 text-red-800';
+      case 'withdrawn-by-farmer':
+        return 'bg-orange-100 text-orange-800';
+      case 'withdrawn':
+        return 'bg-gray-100 text-gray-800';
       default:
         return 'bg-yellow-100 text-yellow-800';
     }
   };
 
+  const getStatusText = (status: string) => {
+    return status === 'withdrawn-by-farmer' ? 'Withdrawn by Farmer' : status;
+  };
+
   const getJobStatusColor = (status: string) => {
     switch (status) {
       case 'open':
@@ -321,30 +625,23 @@ export function MyJobsPage() {
         return 'bg-yellow-100 text-yellow-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-orange-100 text-orange-800';
+      case 'disputed':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getJobStatusText = (status: string) => {
-    switch (status) {
-      case 'open':
-        return 'Open';
-      case 'filled':
-        return 'Filled';
-      case 'in-progress':
-        return 'In Progress';
-      case 'completed':
-        return 'Completed';
-      default:
-        return status;
-    }
-  };
-
-  const DeleteConfirmModal = () => {
+  // Rendered as a plain function so the reason textarea keeps focus while typing
+  const renderDeleteConfirmModal = () => {
     if (!showDeleteConfirm) return null;
     const job = jobs.find(j => j.id === showDeleteConfirm);
     const jobApplications = getJobApplications(showDeleteConfirm);
+    const activeApplications = jobApplications.filter(app => app.status === 'pending' || app.status === 'accepted');
 
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -355,29 +652,147 @@ export function MyJobsPage() {
           </p>
           
           {jobApplications.length > 0 && (
+            <>
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+                <div className="flex items-center">
+                  <AlertCircle size={16} className="text-yellow-600 mr-2" />
+                  <span className="text-sm text-yellow-800">
+                    This job has {jobApplications.length} application{jobApplications.length !== 1 ? 's' : ''}. 
+                    The job will be cancelled and {activeApplications.length} pending or accepted worker{activeApplications.length !== 1 ? 's' : ''} will be notified.
+                  </span>
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason *
+                </label>
+                <textarea
+                  value={deleteReason}
+                  onChange={(e) => setDeleteReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  placeholder="e.g., Harvest postponed due to rain"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setShowDeleteConfirm(null)}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDeleteJob}
+              disabled={deleting}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {deleting ? 'Deleting...' : 'Delete Job'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Rendered as a plain function so the reason textarea keeps focus while typing
+  const renderDisputePaymentModal = () => {
+    if (!disputingPayment) return null;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-2xl max-w-md w-full p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Not Received</h3>
+          <p className="text-gray-600 mb-4">
+            The farmer recorded paying you NPR.{disputingPayment.amount.toLocaleString()}. Tell them what went wrong.
+          </p>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              What happened? *
+            </label>
+            <textarea
+              value={disputeReason}
+              onChange={(e) => setDisputeReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              placeholder="e.g., I only received NPR.500 in cash"
+            />
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setDisputingPayment(null)}
+              className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmDisputePayment}
+              disabled={answeringPayment}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {answeringPayment ? 'Sending...' : 'Dispute Payment'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderWithdrawModal = () => {
+    if (!withdrawingJobId) return null;
+    const job = jobs.find(j => j.id === withdrawingJobId);
+    const isAccepted = getApplicationStatus(withdrawingJobId) === 'accepted';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-2xl max-w-md w-full p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Withdraw Application</h3>
+          <p className="text-gray-600 mb-4">
+            Withdraw your application for "{job?.title}"? The farmer will be notified.
+          </p>
+
+          {isAccepted && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
               <div className="flex items-center">
                 <AlertCircle size={16} className="text-yellow-600 mr-2" />
                 <span className="text-sm text-yellow-800">
-                  This job has {jobApplications.length} application{jobApplications.length !== 1 ? 's' : ''}. 
-                  Deleting will also remove all applications.
+                  You were already accepted. Your place will be given up and the farmer may hire someone else.
                 </span>
               </div>
             </div>
           )}
 
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason (shown to the farmer)
+            </label>
+            <textarea
+              value={withdrawReason}
+              onChange={(e) => setWithdrawReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              placeholder="e.g., Found work closer to home"
+            />
+          </div>
+
           <div className="flex space-x-3">
             <button
-              onClick={() => setShowDeleteConfirm(null)}
+              onClick={() => setWithdrawingJobId(null)}
               className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors"
             >
               Cancel
             </button>
             <button
-              onClick={confirmDeleteJob}
-              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 transition-colors"
+              onClick={confirmWithdraw}
+              disabled={withdrawing}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              Delete Job
+              {withdrawing ? 'Withdrawing...' : 'Withdraw'}
             </button>
           </div>
         </div>
@@ -493,6 +908,10 @@ export function MyJobsPage() {
                   <div className="text-xs text-gray-600">Workers Hired</div>
                 </div>
               </div>
+              <div className="mt-3 pt-3 border-t border-green-200 flex items-center justify-between">
+                <span className="text-sm text-gray-600">Rating from workers</span>
+                <RatingBadge summary={farmerRatings[selectedFarmer.id]} size="md" />
+              </div>
             </div>
           </div>
         </div>
@@ -577,10 +996,62 @@ export function MyJobsPage() {
                       getStatusColor(getApplicationStatus(job.id))
                     }`}>
                       {getStatusIcon(getApplicationStatus(job.id))}
-                      <span className="ml-1 capitalize">{getApplicationStatus(job.id)}</span>
+                      <span className="ml-1 capitalize">{getStatusText(getApplicationStatus(job.id))}</span>
                     </div>
                   </div>
+
+                  {getApplicationStatus(job.id) === 'withdrawn-by-farmer' && (
+                    <div className="flex items-start text-xs text-orange-700 bg-orange-50 px-2 py-1 rounded mb-2">
+                      <AlertCircle size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {job.deletedAt ? 'The farmer removed this job' : 'The farmer released your place'}
+                        {getWithdrawalReason(job) && `: ${getWithdrawalReason(job)}`}
+                      </span>
+                    </div>
+                  )}
+
+                  {getWaitlistOffer(job.id) && (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-2">
+                      <div className="flex items-center text-sm text-blue-900">
+                        <Hourglass size={14} className="mr-2 flex-shrink-0" />
+                        A place opened up for you. Confirm by {formatTime(getWaitlistOffer(job.id)!.offerExpiresAt!)}, {formatDate(getWaitlistOffer(job.id)!.offerExpiresAt!)} or it goes to the next worker.
+                      </div>
+                      <div className="flex space-x-2 mt-2">
+                        <button
+                          onClick={() => handleRespondToOffer(getWaitlistOffer(job.id)!, true)}
+                          disabled={respondingOfferId !== null}
+                          className="flex-1 bg-green-600 text-white py-1 px-3 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Take the place
+                        </button>
+                        <button
+                          onClick={() => handleRespondToOffer(getWaitlistOffer(job.id)!, false)}
+                          disabled={respondingOfferId !== null}
+                          className="flex-1 bg-gray-200 text-gray-800 py-1 px-3 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  )}
                   
+                  {getWageOffer(job.id) && (
+                    <div className={`flex items-center text-xs px-2 py-1 rounded mb-2 ${
+                      getWageOffer(job.id)!.proposalStatus === 'accepted'
+                        ? 'text-green-700 bg-green-50'
+                        : getWageOffer(job.id)!.proposalStatus === 'declined'
+                        ? 'text-red-700 bg-red-50'
+                        : 'text-yellow-700 bg-yellow-50'
+                    }`}>
+                      <DollarSign size={14} className="mr-1" />
+                      {getWageOffer(job.id)!.proposalStatus === 'accepted'
+                        ? `The farmer agreed to pay you NPR.${getWageOffer(job.id)!.agreedWage ?? job.wage}`
+                        : getWageOffer(job.id)!.proposalStatus === 'declined'
+                        ? `Your offer of NPR.${getWageOffer(job.id)!.proposedWage} was declined`
+                        : `You asked for NPR.${getWageOffer(job.id)!.proposedWage}, waiting for the farmer`}
+                    </div>
+                  )}
+
                   {getApplicationStatus(job.id) === 'rejected' && !canReapply(job.id) && (
                     <div className="flex items-center text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded">
                       <AlertCircle size={14} className="mr-1" />
@@ -594,6 +1065,151 @@ export function MyJobsPage() {
                       You can reapply to this job now
                     </div>
                   )}
+
+                  {canRecordAttendance(job) && (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-2">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm text-blue-900">
+                          {!getTodayAttendance(job.id) && getQueuedActions(job.id, ['check-in', 'check-out']).length === 0 && 'Not checked in today'}
+                          {getTodayAttendance(job.id)?.status === 'checked-in' &&
+                            `Checked in at ${formatTime(getTodayAttendance(job.id)!.checkInAt!)}`}
+                          {getTodayAttendance(job.id)?.status === 'checked-out' &&
+                            `Worked ${formatTime(getTodayAttendance(job.id)!.checkInAt!)} – ${formatTime(getTodayAttendance(job.id)!.checkOutAt!)}`}
+                          {getTodayAttendance(job.id)?.status === 'no-show' && (
+                            <span className="text-red-700">
+                              Marked absent today{getTodayAttendance(job.id)!.farmerNote && `: ${getTodayAttendance(job.id)!.farmerNote}`}
+                            </span>
+                          )}
+                          {getTodayAttendance(job.id)?.confirmedAt && getTodayAttendance(job.id)!.status !== 'no-show' && (
+                            <span className="ml-2 text-xs text-green-700">✓ Confirmed</span>
+                          )}
+                          {getQueuedActions(job.id, ['check-in', 'check-out']).map(action => (
+                            <div key={action.id} className="text-xs text-gray-600">
+                              {action.kind === 'check-in' ? 'Checked in' : 'Checked out'} at {formatTime(action.queuedAt)} · waiting for signal
+                            </div>
+                          ))}
+                        </div>
+                        {!getTodayAttendance(job.id) && getQueuedActions(job.id, ['check-in']).length === 0 && (
+                          <button
+                            onClick={() => handleAttendance(job, 'check-in')}
+                            disabled={recordingAttendanceFor === job.id}
+                            className="flex items-center bg-green-600 text-white py-1 px-3 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <LogIn size={14} className="mr-1" />
+                            {recordingAttendanceFor === job.id ? 'Locating...' : 'Check in'}
+                          </button>
+                        )}
+                        {(getTodayAttendance(job.id)?.status === 'checked-in' || getQueuedActions(job.id, ['check-in']).length > 0) &&
+                          getQueuedActions(job.id, ['check-out']).length === 0 && (
+                          <button
+                            onClick={() => handleAttendance(job, 'check-out')}
+                            disabled={recordingAttendanceFor === job.id}
+                            className="flex items-center bg-blue-600 text-white py-1 px-3 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <LogOut size={14} className="mr-1" />
+                            {recordingAttendanceFor === job.id ? 'Locating...' : 'Check out'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {getStatement(job.id) && (
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">Pay statement</span>
+                        <span className="font-bold text-gray-900">NPR.{getStatement(job.id)!.netAmount.toLocaleString()}</span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {WageCalculator.formatQuantity(getStatement(job.id)!)} × NPR.{getStatement(job.id)!.rate.toLocaleString()} = NPR.{getStatement(job.id)!.baseAmount.toLocaleString()}
+                      </div>
+                      {getStatement(job.id)!.bonusTotal > 0 && (
+                        <div className="text-xs text-green-700">+ NPR.{getStatement(job.id)!.bonusTotal.toLocaleString()} {PAYROLL_ADJUSTMENT_LABELS.bonus.toLowerCase()}</div>
+                      )}
+                      {getStatement(job.id)!.deductionTotal > 0 && (
+                        <div className="text-xs text-red-700">− NPR.{getStatement(job.id)!.deductionTotal.toLocaleString()} {PAYROLL_ADJUSTMENT_LABELS.deduction.toLowerCase()}</div>
+                      )}
+                      {getStatement(job.id)!.advanceTotal > 0 && (
+                        <div className="text-xs text-gray-700">− NPR.{getStatement(job.id)!.advanceTotal.toLocaleString()} {PAYROLL_ADJUSTMENT_LABELS.advance.toLowerCase()}</div>
+                      )}
+
+                      {getStatementPayments(getStatement(job.id)!).map(payment => (
+                        <div key={payment.id} className="border-t border-gray-200 mt-2 pt-2">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-gray-700">
+                              NPR.{payment.amount.toLocaleString()} by {PAYMENT_METHOD_LABELS[payment.method].toLowerCase()}
+                              {payment.reference && ` (${payment.reference})`}
+                            </span>
+                            <span className={
+                              payment.status === 'confirmed'
+                                ? 'text-green-700'
+                                : payment.status === 'disputed'
+                                ? 'text-red-700'
+                                : 'text-yellow-700'
+                            }>
+                              {payment.status === 'recorded' ? 'Did you get this?' : payment.status}
+                            </span>
+                          </div>
+                          {payment.status !== 'confirmed' && (
+                            <div className="flex space-x-2 mt-1">
+                              <button
+                                onClick={() => handleConfirmPayment(payment)}
+                                disabled={answeringPayment}
+                                className="text-xs bg-green-600 text-white py-1 px-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                              >
+                                {payment.status === 'disputed' ? 'Received after all' : 'Yes, received'}
+                              </button>
+                              {payment.status === 'recorded' && (
+                                <button
+                                  onClick={() => handleDisputePayment(payment)}
+                                  disabled={answeringPayment}
+                                  className="text-xs text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                                >
+                                  Not received
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+
+                      <div className="flex items-center justify-between text-xs font-medium border-t border-gray-200 mt-2 pt-2">
+                        <span className="text-gray-600">Still owed</span>
+                        <span className={getOutstanding(getStatement(job.id)!) > 0 ? 'text-orange-700' : 'text-green-700'}>
+                          {getOutstanding(getStatement(job.id)!) > 0
+                            ? `NPR.${getOutstanding(getStatement(job.id)!).toLocaleString()}`
+                            : 'Fully paid'}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+
+                  {canReviewFarmer(job) && (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-2 flex items-center justify-between">
+                      <span className="text-sm text-green-900">How was working for {job.farmerName}?</span>
+                      <button
+                        onClick={() => setReviewingJob(job)}
+                        className="text-sm bg-green-600 text-white py-1 px-3 rounded-lg font-medium hover:bg-green-700 transition-colors"
+                      >
+                        Rate Farmer
+                      </button>
+                    </div>
+                  )}
+
+                  {getMyReview(job.id) && (
+                    <div className="text-xs text-gray-600 mb-2">
+                      You rated this farmer {getMyReview(job.id)!.rating} out of 5
+                    </div>
+                  )}
+
+                  {canWithdraw(job) && (
+                    <button
+                      onClick={() => handleWithdraw(job.id)}
+                      className="text-xs text-red-600 hover:text-red-700 hover:underline"
+                    >
+                      Withdraw application
+                    </button>
+                  )}
                 </div>
               )}
               
@@ -611,9 +1227,9 @@ export function MyJobsPage() {
                     <div className="flex items-center space-x-2">
                       <button
                         onClick={() => handleEditJob(job.id)}
-                        disabled={job.status === 'completed'}
+                        disabled={JobStateMachine.isClosed(job.status)}
                         className={`p-2 transition-colors ${
-                          job.status === 'completed' 
+                          JobStateMachine.isClosed(job.status) 
                             ? 'text-gray-300 cursor-not-allowed' 
                             : 'text-gray-600 hover:text-green-600 hover:bg-green-50'
                         } rounded-lg`}
@@ -623,9 +1239,9 @@ export function MyJobsPage() {
                       </button>
                       <button
                         onClick={() => handleDeleteJob(job.id)}
-                        disabled={job.status === 'completed'}
+                        disabled={!JobStateMachine.canDelete(job.status)}
                         className={`p-2 transition-colors ${
-                          job.status === 'completed' 
+                          !JobStateMachine.canDelete(job.status) 
                             ? 'text-gray-300 cursor-not-allowed' 
                             : 'text-gray-600 hover:text-red-600 hover:bg-red-50'
                         } rounded-lg`}
@@ -644,16 +1260,16 @@ export function MyJobsPage() {
                       <div className="space-y-3">
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Wage (₹)
+                            Wage (₹ {WageCalculator.getWageSuffix(job.wageType, job.wageUnit)})
                           </label>
                           {getJobApplications(job.id).length > 0 && (
                             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-2">
                               <div className="flex items-center">
                                 <div className="text-amber-600 mr-2">🔒</div>
                                 <div>
-                                  <div className="text-sm font-medium text-amber-800">Wage Locked</div>
+                                  <div className="text-sm font-medium text-amber-800">Wage Can Only Be Raised</div>
                                   <div className="text-xs text-amber-700">
-                                    Cannot change wage - {getJobApplications(job.id).length} worker{getJobApplications(job.id).length !== 1 ? 's have' : ' has'} applied based on ₹{job.wage}
+                                    {getJobApplications(job.id).length} worker{getJobApplications(job.id).length !== 1 ? 's have' : ' has'} applied based on ₹{job.wage}. If you raise it, they will all be notified.
                                   </div>
                                 </div>
                               </div>
@@ -665,15 +1281,10 @@ export function MyJobsPage() {
                               type="number"
                               value={editData.wage}
                               onChange={(e) => setEditData({ ...editData, wage: e.target.value })}
-                              className={`w-full pl-10 pr-4 py-2 border rounded-lg transition-colors ${
-                                getJobApplications(job.id).length > 0
-                                  ? 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                                  : 'border-gray-300 bg-white text-gray-900 focus:ring-2 focus:ring-green-500 focus:border-transparent'
-                              }`}
+                              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                               placeholder="500"
-                              min="1"
-                              disabled={getJobApplications(job.id).length > 0}
-                              step="1"
+                              min={getJobApplications(job.id).length > 0 ? job.wage : WageValidator.getWageLimits(job.wageType).min}
+                              step={job.wageType === 'per-unit' ? '0.01' : '1'}
                             />
                           </div>
                         </div>
@@ -717,16 +1328,30 @@ export function MyJobsPage() {
                           )}
                           <select
                             value={editData.status}
-                            onChange={(e) => setEditData({ ...editData, status: e.target.value as 'open' | 'filled' | 'in-progress' | 'completed' })}
+                            onChange={(e) => setEditData({ ...editData, status: e.target.value as JobStatus })}
                             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                           >
-                            <option value="open">Open</option>
-                            <option value="filled">Filled</option>
-                            <option value="in-progress">In Progress</option>
-                            <option value="completed">Completed</option>
+                            {JobStateMachine.getManualStatuses(job.status).map(status => (
+                              <option key={status} value={status}>{getJobStatusText(status)}</option>
+                            ))}
                           </select>
                         </div>
 
+                        {editData.status !== job.status && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Reason {JobStateMachine.requiresReason(editData.status) ? '*' : '(Optional)'}
+                            </label>
+                            <textarea
+                              value={editData.statusReason}
+                              onChange={(e) => setEditData({ ...editData, statusReason: e.target.value })}
+                              rows={2}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                              placeholder="Why is the status changing?"
+                            />
+                          </div>
+                        )}
+
                         <div className="flex space-x-2">
                           <button
                             onClick={handleSaveEdit}
@@ -750,10 +1375,31 @@ export function MyJobsPage() {
                   {/* Application count info */}
                   <div className="text-xs text-gray-500 mb-2">
                     {getJobApplications(job.id).length} application{getJobApplications(job.id).length !== 1 ? 's' : ''}
-                    {job.status === 'completed' && (
+                    {JobStateMachine.isClosed(job.status) && (
                       <span className="ml-2 text-green-600 font-medium">• Job Closed</span>
                     )}
                   </div>
+
+                  {/* Hire again */}
+                  {job.status === 'completed' && getPastWorkers(job).length > 0 && (
+                    <div className="bg-green-50 rounded-lg p-3 mb-2">
+                      <div className="text-xs font-medium text-gray-700 mb-2">Hire again</div>
+                      <div className="space-y-1">
+                        {getPastWorkers(job).map(app => (
+                          <div key={app.id} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-900">{app.workerName}</span>
+                            <button
+                              onClick={() => setInvitingWorker({ id: app.workerId, name: app.workerName })}
+                              className="flex items-center text-green-600 hover:text-green-700 font-medium"
+                            >
+                              <Send size={14} className="mr-1" />
+                              Invite
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -761,8 +1407,11 @@ export function MyJobsPage() {
                 job={job}
                 onViewApplicants={handleViewApplicants}
                 onViewFarmerProfile={handleViewFarmerProfile}
-                showActions={user.userType === 'farmer' && job.status !== 'completed'}
+                showActions={user.userType === 'farmer' && !JobStateMachine.isClosed(job.status)}
                 isOwner={user.userType === 'farmer'}
+                farmerRating={farmerRatings[job.farmerId]}
+                onMessage={!isFarmer && canMessageFarmer(job.id) ? setChatJob : undefined}
+                unreadMessages={unreadMessages[threadKey(job.id, user.id)]}
               />
             </div>
           ))}
@@ -770,10 +1419,45 @@ export function MyJobsPage() {
       )}
 
       {/* Delete Confirmation Modal */}
-      <DeleteConfirmModal />
+      {renderDeleteConfirmModal()}
+
+      {/* Withdraw Application Modal */}
+      {renderWithdrawModal()}
+      {renderDisputePaymentModal()}
 
       {/* Farmer Profile Modal */}
       <FarmerProfileModal />
+
+      {invitingWorker && (
+        <InviteWorkerDialog
+          workerName={invitingWorker.name}
+          jobs={getInvitableJobs(invitingWorker.id)}
+          submitting={sendingInvitation}
+          onSubmit={handleSendInvitation}
+          onClose={() => setInvitingWorker(null)}
+        />
+      )}
+
+      {reviewingJob && (
+        <ReviewDialog
+          revieweeName={reviewingJob.farmerName}
+          jobTitle={reviewingJob.title}
+          tags={FARMER_REVIEW_TAGS}
+          submitting={submittingReview}
+          onSubmit={handleSubmitReview}
+          onClose={() => setReviewingJob(null)}
+        />
+      )}
+
+      {chatJob && (
+        <ChatThread
+          jobId={chatJob.id}
+          jobTitle={chatJob.title}
+          workerId={user.id}
+          otherPartyName={chatJob.farmerName}
+          onClose={() => setChatJob(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
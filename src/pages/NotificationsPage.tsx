@@ -0,0 +1,90 @@
+import { useAuth } from '../context/AuthContext';
+import { useNotificationCenter } from '../context/NotificationContext';
+import { AppNotification } from '../types';
+import { getNotificationPath } from '../utils/notificationRoutes';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+
+export function NotificationsPage() {
+  const { user } = useAuth();
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotificationCenter();
+  const navigate = useNavigate();
+
+  const handleOpen = (notification: AppNotification) => {
+    markAsRead([notification.id]);
+    const target = user && getNotificationPath(notification.type, user.userType, notification.jobId);
+    if (target) {
+      navigate(target);
+    }
+  };
+
+  const formatTime = (dateString: string) => {
+    const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+    return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Bell className={`${user.userType === 'farmer' ? 'text-green-600' : 'text-blue-600'} mr-3`} size={24} />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+            <p className="text-gray-600">{unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}</p>
+          </div>
+        </div>
+        {unreadCount > 0 && (
+          <button
+            onClick={markAllAsRead}
+            className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-800"
+          >
+            <CheckCheck size={16} className="mr-1" />
+            Mark all read
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-600">Loading notifications...</div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-gray-400 mb-4">
+            <Bell size={48} className="mx-auto" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No notifications yet</h3>
+          <p className="text-gray-600">Applications, hiring decisions and job reminders will show up here</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {notifications.map(notification => (
+            <button
+              key={notification.id}
+              onClick={() => handleOpen(notification)}
+              className={`w-full text-left border rounded-lg p-3 transition-colors ${
+                notification.readAt
+                  ? 'bg-white border-gray-200 hover:bg-gray-50'
+                  : 'bg-yellow-50 border-yellow-200 hover:bg-yellow-100'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <h4 className={`text-sm text-gray-900 ${notification.readAt ? '' : 'font-semibold'}`}>
+                  {notification.title}
+                </h4>
+                <span className="ml-3 text-xs text-gray-500 whitespace-nowrap">{formatTime(notification.createdAt)}</span>
+              </div>
+              {notification.body && <p className="text-sm text-gray-600 mt-1">{notification.body}</p>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
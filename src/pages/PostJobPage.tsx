@@ -2,9 +2,11 @@ import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { jobStorage } from '../utils/storage';
-import { Job } from '../types';
+import { Job, WageType, Coordinates } from '../types';
 import { ArrowLeft, MapPin, Users } from 'lucide-react';
 import { WageValidator } from '../utils/wageValidation';
+import { WageCalculator, WAGE_TYPE_LABELS, COMMON_WAGE_UNITS } from '../utils/wageCalculator';
+import { MapPicker } from '../components/MapPicker';
 
 export function PostJobPage() {
   const { user } = useAuth();
@@ -14,11 +16,15 @@ export function PostJobPage() {
     description: '',
     preferredDate: '',
     wage: '',
+    wageType: 'per-hour' as WageType,
+    wageUnit: '',
+    estimatedUnits: '',
     duration: '',
     durationType: 'hours' as 'hours' | 'days',
     location: '',
     requiredWorkers: '1'
   });
+  const [coordinates, setCoordinates] = useState<Coordinates | undefined>();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -35,15 +41,14 @@ export function PostJobPage() {
       return;
     }
 
-    if (!formData.wage || parseFloat(formData.wage) <= 0) {
-      setError('Please enter a valid wage amount (minimum NPR.1)');
-      return;
-    }
-
-    // Additional wage validation
-    const wageAmount = parseFloat(formData.wage);
-    if (wageAmount > 100000) {
-      setError('Wage amount seems too high. Please enter a reasonable amount.');
+    const wageCheck = WageValidator.validateWageForType(
+      parseFloat(formData.wage),
+      formData.wageType,
+      formData.wageUnit,
+      formData.estimatedUnits ? parseFloat(formData.estimatedUnits) : undefined
+    );
+    if (!wageCheck.valid) {
+      setError(wageCheck.error!);
       return;
     }
 
@@ -69,16 +74,26 @@ export function PostJobPage() {
         description: formData.description.trim(),
         preferredDate: formData.preferredDate,
         wage: parseFloat(formData.wage),
+        wageType: formData.wageType,
+        wageUnit: formData.wageType === 'per-unit' ? formData.wageUnit.trim() : undefined,
+        estimatedUnits: formData.wageType === 'per-unit' && formData.estimatedUnits
+          ? parseFloat(formData.estimatedUnits)
+          : undefined,
         duration: parseInt(formData.duration),
         durationType: formData.durationType,
         location: formData.location.trim(),
+        coordinates,
         requiredWorkers: parseInt(formData.requiredWorkers),
         acceptedWorkerIds: [],
         createdAt: new Date().toISOString(),
         status: 'open'
       };
 
-      jobStorage.saveJob(job);
+      const result = await jobStorage.saveJob(job);
+      if (!result.success) {
+        setError(result.error || 'Failed to create job. Please try again.');
+        return;
+      }
       navigate('/');
     } catch (err) {
       setError('Failed to create job. Please try again.');
@@ -88,6 +103,24 @@ export function PostJobPage() {
   };
 
   const today = new Date().toISOString().split('T')[0];
+  const wageLimits = WageValidator.getWageLimits(formData.wageType);
+
+  const handleWageTypeChange = (wageType: WageType) => {
+    // Hourly and daily pay usually match how the job's length is measured
+    const durationType = wageType === 'per-hour' ? 'hours' : wageType === 'per-day' ? 'days' : formData.durationType;
+    setFormData({ ...formData, wageType, durationType });
+  };
+
+  const earningsEstimate = formData.wage && formData.duration
+    ? WageCalculator.estimateEarnings({
+        wage: parseFloat(formData.wage),
+        wageType: formData.wageType,
+        wageUnit: formData.wageUnit.trim() || undefined,
+        estimatedUnits: formData.estimatedUnits ? parseFloat(formData.estimatedUnits) : undefined,
+        duration: parseInt(formData.duration),
+        durationType: formData.durationType
+      } as Job)
+    : null;
 
   return (
     <div className="p-4">
@@ -163,10 +196,32 @@ export function PostJobPage() {
           />
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            How will workers be paid? *
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(WAGE_TYPE_LABELS) as WageType[]).map(wageType => (
+              <button
+                key={wageType}
+                type="button"
+                onClick={() => handleWageTypeChange(wageType)}
+                className={`py-2 px-3 rounded-lg border text-sm font-medium transition-colors ${
+                  formData.wageType === wageType
+                    ? 'border-green-600 bg-green-50 text-green-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {WAGE_TYPE_LABELS[wageType]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={formData.wageType === 'per-unit' ? 'grid grid-cols-2 gap-4' : ''}>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Daily/Hourly Wage (NPR.) *
+              {formData.wageType === 'lump-sum' ? 'Total Pay per Worker' : 'Wage'} (NPR.) *
             </label>
             <div className="relative">
               <span className="absolute left-2.8 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">NPR.</span>
@@ -175,37 +230,64 @@ export function PostJobPage() {
                 value={formData.wage}
                 onChange={(e) => setFormData({ ...formData, wage: e.target.value })}
                 className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                placeholder="500"
-                min="1"
-                max="100000"
-                step="1"
+                placeholder={formData.wageType === 'per-unit' ? '10' : '500'}
+                min={wageLimits.min}
+                max={wageLimits.max}
+                step={formData.wageType === 'per-unit' ? '0.01' : '1'}
                 required
               />
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Enter amount per {formData.durationType.slice(0, -1)} (NPR.1 - NPR.100,000)
+              Amount {WageCalculator.getWageSuffix(formData.wageType, formData.wageUnit.trim() || undefined)} (NPR.{wageLimits.min} - NPR.{wageLimits.max.toLocaleString()})
             </p>
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mt-2">
-              <div className="flex items-center">
-                <div className="text-blue-600 mr-2">💡</div>
-                <div className="text-xs text-blue-700">
-                  <strong>Important:</strong> Once workers apply, you cannot change the wage amount. Set it carefully!
-                </div>
-              </div>
-            </div>
           </div>
+          {formData.wageType === 'per-unit' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Unit *
+              </label>
+              <input
+                type="text"
+                list="wage-units"
+                value={formData.wageUnit}
+                onChange={(e) => setFormData({ ...formData, wageUnit: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="kg"
+                required
+              />
+              <datalist id="wage-units">
+                {COMMON_WAGE_UNITS.map(unit => (
+                  <option key={unit} value={unit} />
+                ))}
+              </datalist>
+            </div>
+          )}
+        </div>
+
+        {formData.wageType === 'per-unit' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Per
+              Expected Quantity per Worker
             </label>
-            <select
-              value={formData.durationType}
-              onChange={(e) => setFormData({ ...formData, durationType: e.target.value as 'hours' | 'days' })}
+            <input
+              type="number"
+              value={formData.estimatedUnits}
+              onChange={(e) => setFormData({ ...formData, estimatedUnits: e.target.value })}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-            >
-              <option value="hours">Hour</option>
-              <option value="days">Day</option>
-            </select>
+              placeholder="e.g., 200"
+              min="0"
+              step="any"
+            />
+            <p className="text-xs text-gray-500 mt-1">Optional. Lets workers see what they can expect to earn.</p>
+          </div>
+        )}
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+          <div className="flex items-center">
+            <div className="text-blue-600 mr-2">💡</div>
+            <div className="text-xs text-blue-700">
+              <strong>Important:</strong> Once workers apply, you can only raise the wage, never lower it. Set it carefully!
+            </div>
           </div>
         </div>
 
@@ -223,8 +305,20 @@ export function PostJobPage() {
               min="1"
               required
             />
-            <span className="text-gray-600">{formData.durationType}</span>
+            <select
+              value={formData.durationType}
+              onChange={(e) => setFormData({ ...formData, durationType: e.target.value as 'hours' | 'days' })}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="hours">Hours</option>
+              <option value="days">Days</option>
+            </select>
           </div>
+          {earningsEstimate && (
+            <p className="text-sm text-green-700 mt-2">
+              Each worker earns about <strong>NPR.{earningsEstimate.amount.toLocaleString()}</strong> ({earningsEstimate.breakdown})
+            </p>
+          )}
         </div>
 
         <div>
@@ -244,6 +338,17 @@ export function PostJobPage() {
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Job site on the map
+          </label>
+          <MapPicker
+            value={coordinates}
+            onChange={setCoordinates}
+            hint="Optional. Pinned jobs show up in distance searches."
+          />
+        </div>
+
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm">
             {error}
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
-import { User, Mail, Type as UserType, LogOut, Edit2, Save, X, MapPin, Calendar, Weight, Ruler, Camera, Upload, Phone } from 'lucide-react';
-import { jobStorage, applicationStorage } from '../utils/storage';
-import { Job, Application } from '../types';
+import { User, Mail, Type as UserType, LogOut, Edit2, Save, X, MapPin, Calendar, Weight, Ruler, Camera, Upload, Phone, Bell } from 'lucide-react';
+import { jobStorage, applicationStorage, profileStorage, paymentStorage, reviewStorage, notificationStorage } from '../utils/storage';
+import { Job, Application, StatementBalance, RatingSummary, Review, NotificationChannel, NotificationPreferences } from '../types';
+import { RatingBadge } from '../components/RatingBadge';
+import { REVIEW_TAG_LABELS } from '../utils/reviews';
+import { PushSubscriptionManager } from '../utils/pushSubscription';
+import { MapPicker } from '../components/MapPicker';
 
 export function ProfilePage() {
   const { user, logout, updateUser } = useAuth();
@@ -22,11 +26,16 @@ export function ProfilePage() {
     weight: user?.weight || '',
     height: user?.height || '',
     profilePicture: user?.profilePicture || '',
-    workingPicture: user?.workingPicture || ''
+    workingPicture: user?.workingPicture || '',
+    homeLocation: user?.homeLocation
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [jobs, setJobs] = useState<Job[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
+  const [balances, setBalances] = useState<StatementBalance[]>([]);
+  const [ratingSummary, setRatingSummary] = useState<RatingSummary | undefined>(undefined);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -36,6 +45,10 @@ export function ProfilePage() {
         const applicationsData = await applicationStorage.getApplications();
         setApplications(applicationsData);
         calculateActivityStats(jobsData, applicationsData);
+        setBalances(await paymentStorage.getBalances(user!.id, user!.userType));
+        setRatingSummary((await reviewStorage.getRatingSummaries([user!.id]))[user!.id]);
+        setReviews(await reviewStorage.getReviewsForUser(user!.id));
+        setPreferences(await notificationStorage.getPreferences(user!.id));
       }
       fetchData();
     }
@@ -60,6 +73,34 @@ export function ProfilePage() {
     }
   };
 
+  const handleTogglePreference = async (channel: NotificationChannel) => {
+    if (!user || !preferences) return;
+
+    const previous = preferences;
+    const updated = { ...preferences, [channel]: !preferences[channel] };
+
+    // Push needs this browser's subscription before there is anything to deliver to
+    if (channel === 'push') {
+      if (updated.push) {
+        const subscribed = await PushSubscriptionManager.subscribe();
+        if (!subscribed.success) {
+          alert(subscribed.error);
+          return;
+        }
+      } else {
+        await PushSubscriptionManager.unsubscribe();
+      }
+    }
+
+    setPreferences(updated);
+
+    const result = await notificationStorage.savePreferences(user.id, updated);
+    if (!result.success) {
+      setPreferences(previous);
+      alert(result.error);
+    }
+  };
+
   const handleLogout = () => {
     logout();
     navigate('/auth');
@@ -127,7 +168,7 @@ export function ProfilePage() {
     reader.readAsDataURL(file);
   };
 
-  const validateForm = (): boolean => {
+  const validateForm = async (): Promise<boolean> => {
     const newErrors: { [key: string]: string } = {};
 
     if (!editData.name.trim()) {
@@ -138,14 +179,8 @@ export function ProfilePage() {
       newErrors.contactNumber = 'Contact number is required';
     } else if (!validateContactNumber(editData.contactNumber)) {
       newErrors.contactNumber = 'Please enter a valid 10-digit mobile number';
-    } else {
-      // Check if contact number is already used by another user
-      const users = JSON.parse(localStorage.getItem('kheticulture_users') || '[]');
-      const cleanNumber = editData.contactNumber.replace(/\D/g, '');
-      const existingUser = users.find((u: any) => u.contactNumber === cleanNumber && u.id !== user?.id);
-      if (existingUser) {
-        newErrors.contactNumber = 'This contact number is already registered';
-      }
+    } else if (await profileStorage.isContactNumberTaken(editData.contactNumber, user?.id)) {
+      newErrors.contactNumber = 'This contact number is already registered';
     }
 
     if (user?.userType === 'worker') {
@@ -174,8 +209,8 @@ export function ProfilePage() {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSave = () => {
-    if (!validateForm()) return;
+  const handleSave = async () => {
+    if (!(await validateForm())) return;
 
     const updates: Partial<typeof user> = {
       name: editData.name.trim(),
@@ -184,7 +219,8 @@ export function ProfilePage() {
       weight: editData.weight ? parseFloat(editData.weight.toString()) : undefined,
       height: editData.height ? parseFloat(editData.height.toString()) : undefined,
       profilePicture: editData.profilePicture || undefined,
-      workingPicture: editData.workingPicture || undefined
+      workingPicture: editData.workingPicture || undefined,
+      ...(user?.userType === 'worker' ? { homeLocation: editData.homeLocation } : {})
     };
 
     updateUser(updates);
@@ -202,7 +238,8 @@ export function ProfilePage() {
       weight: user?.weight || '',
       height: user?.height || '',
       profilePicture: user?.profilePicture || '',
-      workingPicture: user?.workingPicture || ''
+      workingPicture: user?.workingPicture || '',
+      homeLocation: user?.homeLocation
     });
     setIsEditing(false);
     setErrors({});
@@ -411,6 +448,31 @@ export function ProfilePage() {
             )}
           </div>
 
+          {/* Home pin for distance searches, workers only */}
+          {isWorker && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Home on the map (Optional)
+              </label>
+              {isEditing ? (
+                <MapPicker
+                  value={editData.homeLocation}
+                  onChange={homeLocation => setEditData({ ...editData, homeLocation })}
+                  hint="Used to find jobs near you."
+                />
+              ) : (
+                <div className="flex items-center py-3">
+                  <MapPin size={20} className="text-gray-400 mr-3" />
+                  <span className="text-gray-900">
+                    {user.homeLocation
+                      ? `${user.homeLocation.lat.toFixed(5)}, ${user.homeLocation.lng.toFixed(5)}`
+                      : 'Not pinned'}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Profile Picture for both farmers and workers */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -723,6 +785,121 @@ export function ProfilePage() {
         )}
       </div>
 
+      {/* Reviews */}
+      <div className="mt-6 bg-white rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Reviews from {isFarmer ? 'Workers' : 'Farmers'}
+          </h3>
+          <RatingBadge summary={ratingSummary} size="md" />
+        </div>
+
+        {ratingSummary && ratingSummary.topTags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {ratingSummary.topTags.map(tag => (
+              <span key={tag} className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                {REVIEW_TAG_LABELS[tag]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {reviews.slice(0, 5).map(review => (
+            <div key={review.id} className="text-sm bg-gray-50 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-yellow-500">{'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}</span>
+                <span className="text-xs text-gray-500">{new Date(review.createdAt).toLocaleDateString()}</span>
+              </div>
+              {review.tags.length > 0 && (
+                <div className="text-xs text-gray-600 mt-1">
+                  {review.tags.map(tag => REVIEW_TAG_LABELS[tag]).join(' · ')}
+                </div>
+              )}
+              {review.comment && <p className="text-gray-700 mt-1">{review.comment}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Payments */}
+      {balances.length > 0 && (
+        <div className="mt-6 bg-white rounded-xl border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Payments</h3>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="text-center p-4 bg-orange-50 rounded-lg">
+              <div className="text-2xl font-bold text-orange-600">
+                NPR.{balances.reduce((sum, balance) => sum + balance.outstandingAmount, 0).toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-600">
+                {isFarmer ? 'Still to Pay' : 'Still Owed to You'}
+              </div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">
+                NPR.{balances.reduce((sum, balance) => sum + balance.confirmedAmount, 0).toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-600">Confirmed Paid</div>
+            </div>
+          </div>
+
+          {balances.some(balance => balance.disputedAmount > 0) && (
+            <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              NPR.{balances.reduce((sum, balance) => sum + balance.disputedAmount, 0).toLocaleString()} in disputed payments
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {balances
+              .filter(balance => balance.outstandingAmount > 0)
+              .map(balance => (
+                <div key={balance.statementId} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">{balance.jobTitle}</span>
+                  <span className="font-medium text-gray-900">NPR.{balance.outstandingAmount.toLocaleString()}</span>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {/* Notification Preferences */}
+      {preferences && (
+        <div className="mt-6 bg-white rounded-xl border border-gray-200 p-6">
+          <div className="flex items-center mb-1">
+            <Bell size={18} className={`${themeColors.textPrimary} mr-2`} />
+            <h3 className="text-lg font-semibold text-gray-900">Notifications</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Everything shows up under the bell. Choose where else we should reach you.
+          </p>
+          <div className="space-y-3">
+            {([
+              { channel: 'email', label: 'Email', detail: user.email || 'Your account email' },
+              { channel: 'sms', label: 'SMS', detail: formatDisplayContactNumber(user.contactNumber) },
+              {
+                channel: 'push',
+                label: 'Push notifications',
+                detail: PushSubscriptionManager.isSupported() ? 'On this device' : 'Not available in this browser'
+              }
+            ] as { channel: NotificationChannel; label: string; detail: string }[]).map(({ channel, label, detail }) => (
+              <label key={channel} className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{label}</div>
+                  <div className="text-xs text-gray-500">{detail}</div>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={preferences[channel]}
+                  onChange={() => handleTogglePreference(channel)}
+                  disabled={channel === 'push' && !preferences.push && !PushSubscriptionManager.isSupported()}
+                  className="h-5 w-5"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Logout Button */}
       <div className="mt-6">
         <button
@@ -0,0 +1,82 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Same precaching the generated worker did; VitePWA injects the manifest at build time
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// registerType 'autoUpdate': new versions take over open tabs straight away
+self.skipWaiting();
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+// Sent by webPushChannel; see PushMessage in src/lib/webPush.ts
+interface PushMessage {
+  title: string;
+  body?: string;
+  url?: string;
+  tag?: string;
+}
+
+self.addEventListener('push', event => {
+  if (!event.data) return;
+
+  let message: PushMessage;
+  try {
+    message = event.data.json() as PushMessage;
+  } catch {
+    message = { title: 'Kheticulture', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      tag: message.tag,
+      data: { url: message.url || '/notifications' }
+    })
+  );
+});
+
+// Reuse an open app window when there is one, otherwise open a new one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL((event.notification.data?.url as string) || '/', self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const client = windows.find(candidate => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        await client.focus();
+        await client.navigate(url);
+        return;
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});
+
+// Not in the WebWorker lib yet; Chromium-based browsers fire it for registered tags
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+// Queued actions live with the app's session, so an open tab does the replay;
+// only one is asked, or every tab would send the same queue
+self.addEventListener('sync', event => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag !== 'replay-actions') return;
+
+  syncEvent.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const client = windows.find(candidate => candidate.focused) || windows[0];
+      client?.postMessage({ type: 'replay-actions' });
+    })()
+  );
+});
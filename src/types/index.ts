@@ -1,3 +1,8 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -10,9 +15,21 @@ export interface User {
   height?: number; // in cm
   profilePicture?: string; // base64 or URL
   workingPicture?: string; // base64 or URL
+  homeLocation?: Coordinates; // workers only; centre for distance searches
   createdAt: string;
 }
 
+export type JobStatus =
+  | 'open'
+  | 'filled'
+  | 'in-progress'
+  | 'completed'
+  | 'cancelled'
+  | 'expired'
+  | 'disputed';
+
+export type WageType = 'per-hour' | 'per-day' | 'lump-sum' | 'per-unit';
+
 export interface Job {
   id: string;
   farmerId: string;
@@ -21,19 +38,57 @@ export interface Job {
   description: string;
   preferredDate: string;
   wage: number;
+  wageType: WageType;
+  wageUnit?: string; // per-unit only, e.g. kg, bundle, ropani, tree
+  estimatedUnits?: number; // per-unit only, expected quantity per worker
   duration: number;
   durationType: 'hours' | 'days';
   location: string;
-  coordinates?: {
-    lat: number;
-    lng: number;
-  };
+  coordinates?: Coordinates;
   requiredWorkers: number;
   acceptedWorkerIds: string[];
   createdAt: string;
-  status: 'open' | 'filled' | 'in-progress' | 'completed';
+  status: JobStatus;
+  deletedAt?: string;
+  deletionReason?: string;
+  waitlistEnabled?: boolean; // offer places freed by drop-outs to waiting applicants
+}
+
+export interface JobStatusChange {
+  id: string;
+  jobId: string;
+  fromStatus: JobStatus | null;
+  toStatus: JobStatus;
+  changedBy?: string; // undefined for automatic changes
+  changedByName?: string;
+  reason?: string;
+  changedAt: string;
+}
+
+export interface JobSearchQuery {
+  searchTerm?: string;
+  farmerId?: string;
+  statuses?: Job['status'][];
+  minWage?: number;
+  maxWage?: number;
+  durationType?: Job['durationType'];
+  wageType?: WageType;
+  location?: string;
+  near?: Coordinates & { radiusKm: number }; // only pinned jobs, nearest first
+  dateFrom?: string; // inclusive, YYYY-MM-DD
+  dateTo?: string; // inclusive, YYYY-MM-DD
+  limit?: number;
 }
 
+export interface JobSearchResult {
+  jobs: Job[];
+  nextCursor: string | null;
+}
+
+export type ApplicationStatus = 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'withdrawn-by-farmer';
+
+export type WageProposalStatus = 'pending' | 'accepted' | 'declined';
+
 export interface Application {
   id: string;
   jobId: string;
@@ -41,9 +96,214 @@ export interface Application {
   workerName: string;
   workerEmail: string;
   message?: string;
-  status: 'pending' | 'accepted' | 'rejected';
+  availabilityNote?: string;
+  proposedWage?: number; // worker's counter-offer
+  proposalStatus?: WageProposalStatus;
+  agreedWage?: number; // set when this worker is paid something other than the posted wage
+  status: ApplicationStatus;
   appliedAt: string;
+  acceptedAt?: string;
   rejectedAt?: string;
+  withdrawnAt?: string;
+  withdrawalReason?: string;
+  shortlistedAt?: string; // set by the farmer while comparing applicants
+  waitlistPosition?: number; // farmer's waitlist order; unordered applicants follow by applied date
+  offeredAt?: string; // a freed place was offered from the waitlist
+  offerExpiresAt?: string; // the offer lapses to the next applicant after this
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface Invitation {
+  id: string;
+  jobId: string;
+  farmerId: string;
+  workerId: string;
+  message?: string;
+  status: InvitationStatus;
+  createdAt: string;
+  respondedAt?: string;
+  job?: Job;
+}
+
+export type AttendanceStatus = 'checked-in' | 'checked-out' | 'no-show';
+
+export interface AttendanceLocation {
+  latitude: number;
+  longitude: number;
+  accuracyM?: number;
+  distanceM?: number; // distance from Job.coordinates, when the job has them
+}
+
+export interface AttendanceRecord {
+  id: string;
+  jobId: string;
+  workerId: string;
+  workDate: string; // YYYY-MM-DD
+  status: AttendanceStatus;
+  checkInAt?: string;
+  checkInLocation?: AttendanceLocation;
+  checkInReceivedAt?: string; // when the server got it; later than checkInAt for check-ins sent from the offline queue
+  checkOutAt?: string;
+  checkOutLocation?: AttendanceLocation;
+  checkOutReceivedAt?: string;
+  confirmedAt?: string;
+  confirmedBy?: string;
+  farmerNote?: string;
+}
+
+export type PayrollAdjustmentKind = 'bonus' | 'deduction' | 'advance';
+
+export interface PayrollAdjustment {
+  id: string;
+  jobId: string;
+  workerId: string;
+  kind: PayrollAdjustmentKind;
+  amount: number;
+  note?: string;
+  createdAt: string;
+}
+
+// Farmer-entered override of what a worker did; only the field matching the wage model is used
+export interface Timesheet {
+  jobId: string;
+  workerId: string;
+  hoursWorked?: number;
+  daysWorked?: number;
+  unitsCompleted?: number;
+  note?: string;
+}
+
+export interface PayrollLine {
+  jobId: string;
+  workerId: string;
+  wageType: WageType;
+  rate: number;
+  quantity: number;
+  quantityUnit: string; // hour, day, job or the per-unit wage unit
+  quantitySource: 'attendance' | 'timesheet' | 'planned';
+  baseAmount: number;
+  bonusTotal: number;
+  deductionTotal: number;
+  advanceTotal: number;
+  netAmount: number;
+  statementId?: string; // set once the statement is locked
+  lockedAt?: string;
+}
+
+export interface JobPayroll {
+  locked: boolean;
+  lines: PayrollLine[];
+}
+
+export type PaymentMethod = 'cash' | 'bank' | 'esewa' | 'khalti' | 'other';
+
+export type PaymentStatus = 'recorded' | 'confirmed' | 'disputed';
+
+export interface Payment {
+  id: string;
+  statementId: string;
+  jobId: string;
+  farmerId: string;
+  workerId: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string; // bank or eSewa/Khalti transaction id, free text
+  note?: string;
+  status: PaymentStatus;
+  paidAt: string;
+  confirmedAt?: string;
+  disputedAt?: string;
+  disputeReason?: string;
+}
+
+export interface StatementBalance {
+  statementId: string;
+  jobId: string;
+  jobTitle: string;
+  farmerId: string;
+  workerId: string;
+  netAmount: number;
+  paidAmount: number; // recorded or confirmed, disputed payments excluded
+  confirmedAmount: number;
+  disputedAmount: number;
+  outstandingAmount: number;
+  lockedAt: string;
+}
+
+// Farmers pick from the worker tags, workers from the farmer tags
+export type ReviewTag =
+  | 'punctual'
+  | 'hardworking'
+  | 'skilled'
+  | 'respectful'
+  | 'would_work_again'
+  | 'fair_pay'
+  | 'paid_on_time'
+  | 'safe_conditions'
+  | 'clear_instructions';
+
+export interface Review {
+  id: string;
+  jobId: string;
+  reviewerId: string;
+  revieweeId: string;
+  reviewerRole: 'farmer' | 'worker';
+  rating: number; // 1-5 stars
+  tags: ReviewTag[];
+  comment?: string;
+  createdAt: string;
+}
+
+export interface RatingSummary {
+  userId: string;
+  reviewCount: number;
+  averageRating: number;
+  topTags: ReviewTag[];
+}
+
+// Server-computed track record; rates are percentages and undefined until there is history
+export interface WorkerStats {
+  workerId: string;
+  jobsAccepted: number; // ended commitments: completed or withdrawn after acceptance
+  jobsCompleted: number;
+  completionRate?: number;
+  noShows: number;
+  attendanceDays: number;
+  lateWithdrawals: number;
+  averageRating?: number;
+  reviewCount: number;
+  farmersWorkedFor: number;
+  rehireRate?: number;
+}
+
+// Named to stay clear of the browser's Notification API
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: string; // e.g. new_applicant, application_accepted, job_starting_tomorrow
+  title: string;
+  body?: string;
+  jobId?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export type NotificationChannel = 'email' | 'sms' | 'push';
+
+// Channels notifications are delivered on besides the in-app list
+export type NotificationPreferences = Record<NotificationChannel, boolean>;
+
+export interface Message {
+  id: string;
+  jobId: string;
+  farmerId: string;
+  workerId: string;
+  senderId: string;
+  body: string;
+  isBroadcast: boolean; // copy of a message the farmer sent to all hired workers
+  readAt?: string;
+  createdAt: string;
 }
 
 export interface AuthContextType {
@@ -0,0 +1,186 @@
+import { Application, Job, User, WorkerStats, RatingSummary } from '../types';
+import { GeoLocator } from './geolocation';
+
+// Workers whose home pin is within this distance of the job site count as nearby
+export const NEARBY_RADIUS_M = 15000;
+
+type RankedJob = Pick<Job, 'location' | 'coordinates'>;
+
+export type ApplicantSortKey = 'suggested' | 'newest' | 'rating' | 'reliability' | 'completed' | 'nearest' | 'age' | 'waitlist';
+
+export const APPLICANT_SORT_LABELS: Record<ApplicantSortKey, string> = {
+  suggested: 'Suggested',
+  newest: 'Newest first',
+  rating: 'Highest rated',
+  reliability: 'Most reliable',
+  completed: 'Most jobs completed',
+  nearest: 'Nearest',
+  age: 'Youngest first',
+  waitlist: 'Waitlist order'
+};
+
+export interface ApplicantFilters {
+  shortlistedOnly: boolean;
+  minRating: number; // 0 means any rating, including unrated workers
+  experiencedOnly: boolean;
+  noNoShows: boolean;
+  nearbyOnly: boolean;
+  minAge?: number;
+  maxAge?: number;
+  minWeight?: number; // kg
+  minHeight?: number; // cm
+}
+
+export const DEFAULT_APPLICANT_FILTERS: ApplicantFilters = {
+  shortlistedOnly: false,
+  minRating: 0,
+  experiencedOnly: false,
+  noNoShows: false,
+  nearbyOnly: false
+};
+
+// Everything known about one applicant, gathered by the page
+export interface RankedApplicant {
+  application: Application;
+  profile?: User;
+  stats?: WorkerStats;
+  rating?: RatingSummary;
+}
+
+// Rating an unreviewed worker is treated as having, so newcomers are not buried
+const NEUTRAL_RATING = 3;
+
+export class ApplicantRanker {
+  static getAge(dateOfBirth?: string): number | undefined {
+    if (!dateOfBirth) return undefined;
+
+    const today = new Date();
+    const birthDate = new Date(dateOfBirth);
+    let age = today.getFullYear() - birthDate.getFullYear();
+    const monthDiff = today.getMonth() - birthDate.getMonth();
+
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+      age--;
+    }
+
+    return age;
+  }
+
+  /**
+   * Metres between the job site and the worker's home, when both are pinned
+   */
+  static getDistance(job: RankedJob, profile?: User): number | undefined {
+    if (!job.coordinates || !profile?.homeLocation) return undefined;
+    return GeoLocator.distanceInMeters(job.coordinates, profile.homeLocation);
+  }
+
+  /**
+   * Uses the pinned distance when the job and the worker both have one.
+   * Otherwise only place names are known, so a worker counts as nearby when
+   * the first part of their location matches the job's (e.g. "Chitwan").
+   */
+  static isNearby(job: RankedJob, profile?: User): boolean {
+    const distance = ApplicantRanker.getDistance(job, profile);
+    if (distance !== undefined) return distance <= NEARBY_RADIUS_M;
+    if (!profile?.location) return false;
+    const area = (location: string) => location.split(',')[0].trim().toLowerCase();
+    const jobArea = area(job.location);
+    const workerArea = area(profile.location);
+    return jobArea !== '' && workerArea !== '' && (jobArea.includes(workerArea) || workerArea.includes(jobArea));
+  }
+
+  /**
+   * Combines rating, reliability, experience and closeness into a 0-100
+   * score. No-shows cost points on top of the completion rate.
+   */
+  static getSuggestedScore(job: RankedJob, applicant: RankedApplicant): number {
+    const { stats, rating, profile } = applicant;
+
+    const averageRating = rating && rating.reviewCount > 0 ? rating.averageRating : NEUTRAL_RATING;
+    const completionRate = stats?.completionRate ?? 50;
+    const experience = Math.min(stats?.jobsCompleted ?? 0, 10) / 10;
+    const rehireRate = stats?.rehireRate ?? 0;
+    const noShowPenalty = Math.min((stats?.noShows ?? 0) * 5, 15);
+
+    const score =
+      (averageRating / 5) * 35 +
+      (completionRate / 100) * 25 +
+      experience * 15 +
+      (rehireRate / 100) * 10 +
+      (ApplicantRanker.isNearby(job, profile) ? 15 : 0) -
+      noShowPenalty;
+
+    return Math.max(0, Math.round(score));
+  }
+
+  static filter(job: RankedJob, applicants: RankedApplicant[], filters: ApplicantFilters): RankedApplicant[] {
+    return applicants.filter(({ application, profile, stats, rating }) => {
+      if (filters.shortlistedOnly && !application.shortlistedAt) return false;
+      if (filters.minRating > 0 && (!rating || rating.averageRating < filters.minRating)) return false;
+      if (filters.experiencedOnly && (stats?.jobsCompleted ?? 0) === 0) return false;
+      if (filters.noNoShows && (stats?.noShows ?? 0) > 0) return false;
+      if (filters.nearbyOnly && !ApplicantRanker.isNearby(job, profile)) return false;
+
+      const age = ApplicantRanker.getAge(profile?.dateOfBirth);
+      if (filters.minAge !== undefined && (age === undefined || age < filters.minAge)) return false;
+      if (filters.maxAge !== undefined && (age === undefined || age > filters.maxAge)) return false;
+      if (filters.minWeight !== undefined && (profile?.weight ?? 0) < filters.minWeight) return false;
+      if (filters.minHeight !== undefined && (profile?.height ?? 0) < filters.minHeight) return false;
+
+      return true;
+    });
+  }
+
+  /**
+   * The order waitlist offers go out in: the farmer's positions first, then
+   * everyone else by when they applied. Mirrors `fill_from_waitlist`.
+   */
+  static compareWaitlist(a: Application, b: Application): number {
+    const positionA = a.waitlistPosition ?? Number.MAX_SAFE_INTEGER;
+    const positionB = b.waitlistPosition ?? Number.MAX_SAFE_INTEGER;
+    if (positionA !== positionB) return positionA - positionB;
+    return new Date(a.appliedAt).getTime() - new Date(b.appliedAt).getTime();
+  }
+
+  /**
+   * Returns a sorted copy. Ties, and applicants missing the sorted value,
+   * fall back to the most recent application first.
+   */
+  static sort(job: RankedJob, applicants: RankedApplicant[], key: ApplicantSortKey): RankedApplicant[] {
+    const valueOf = (applicant: RankedApplicant): number => {
+      switch (key) {
+        case 'suggested':
+          return ApplicantRanker.getSuggestedScore(job, applicant);
+        case 'rating':
+          return applicant.rating?.averageRating ?? -1;
+        case 'reliability':
+          return applicant.stats?.completionRate ?? -1;
+        case 'completed':
+          return applicant.stats?.jobsCompleted ?? 0;
+        case 'nearest': {
+          // Pinned distances first, closest on top, then place-name matches, then the rest
+          const distance = ApplicantRanker.getDistance(job, applicant.profile);
+          if (distance !== undefined) return 2 - distance / (distance + NEARBY_RADIUS_M);
+          return ApplicantRanker.isNearby(job, applicant.profile) ? 0.5 : 0;
+        }
+        case 'age': {
+          // Negated so that younger workers sort first with the shared descending order
+          const age = ApplicantRanker.getAge(applicant.profile?.dateOfBirth);
+          return age === undefined ? -1000 : -age;
+        }
+        default:
+          return 0;
+      }
+    };
+
+    if (key === 'waitlist') {
+      return [...applicants].sort((a, b) => ApplicantRanker.compareWaitlist(a.application, b.application));
+    }
+
+    return [...applicants].sort((a, b) => {
+      const difference = key === 'newest' ? 0 : valueOf(b) - valueOf(a);
+      if (difference !== 0) return difference;
+      return new Date(b.application.appliedAt).getTime() - new Date(a.application.appliedAt).getTime();
+    });
+  }
+}
@@ -1,30 +0,0 @@
-export async function sendWelcomeEmail(name: string, email: string): Promise<void> {
-  try {
-    // In a real application, you would call your backend API or Resend API
-    // For demo purposes, we'll just log the email that would be sent
-    console.log('Welcome email would be sent to:', email);
-    console.log('Subject: Welcome to Kheticulture');
-    console.log(`Body: Hi ${name}, your account has been created. Start connecting with local jobs today.`);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // In production, you would implement this with Resend:
-    /*
-    const response = await fetch('/api/send-welcome-email', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ name, email }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to send welcome email');
-    }
-    */
-  } catch (error) {
-    console.error('Error sending welcome email:', error);
-    // Don't throw error to prevent signup failure due to email issues
-  }
-}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Job, AttendanceLocation, Coordinates } from '../types';
+
+// Check-ins further than this from the job's coordinates are flagged for the farmer
+export const GEOFENCE_RADIUS_M = 500;
+
+const EARTH_RADIUS_M = 6371000;
+
+export class GeoLocator {
+  /**
+   * Reads the device's current position. Rejects with a user-facing message
+   * when location is unavailable or permission is denied.
+   */
+  static getCurrentPosition(timeoutMs: number = 15000): Promise<AttendanceLocation> {
+    return new Promise((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(new Error('Location is not available on this device.'));
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracyM: Math.round(position.coords.accuracy)
+        }),
+        (error) => reject(new Error(
+          error.code === error.PERMISSION_DENIED
+            ? 'Location permission was denied.'
+            : 'Could not get your location.'
+        )),
+        { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+      );
+    });
+  }
+
+  /**
+   * Great-circle distance between two points in metres (haversine formula)
+   */
+  static distanceInMeters(from: Coordinates, to: Coordinates): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * Returns the jobs that have coordinates, nearest to `center` first
+   */
+  static sortByDistance(jobs: Job[], center: Coordinates): Job[] {
+    return jobs
+      .filter(job => job.coordinates)
+      .map(job => ({ job, distance: GeoLocator.distanceInMeters(center, job.coordinates!) }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ job }) => job);
+  }
+
+  /**
+   * Adds the distance from the job site to a location reading.
+   * Jobs without coordinates leave the distance unset.
+   */
+  static withDistanceFromJob(job: Pick<Job, 'coordinates'>, location: AttendanceLocation): AttendanceLocation {
+    if (!job.coordinates) return location;
+    const distanceM = GeoLocator.distanceInMeters(job.coordinates, { lat: location.latitude, lng: location.longitude });
+    return { ...location, distanceM: Math.round(distanceM) };
+  }
+
+  /**
+   * Whether a reading was taken outside the job's geofence
+   */
+  static isOutsideGeofence(location?: AttendanceLocation): boolean {
+    return location?.distanceM !== undefined && location.distanceM > GEOFENCE_RADIUS_M;
+  }
+
+  /**
+   * Formats a distance for display, e.g. "350 m" or "2.4 km"
+   */
+  static formatDistance(meters: number): string {
+    return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+  }
+}
@@ -0,0 +1,118 @@
+import { JobStatus } from '../types';
+
+export interface JobTransitionResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Legal job status transitions. Must stay in sync with
+ * `is_valid_job_transition` in the database, which enforces the same table.
+ */
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  open: ['filled', 'in-progress', 'cancelled', 'expired'],
+  filled: ['open', 'in-progress', 'cancelled'],
+  'in-progress': ['completed', 'disputed'],
+  completed: ['disputed'],
+  disputed: ['completed', 'cancelled'],
+  expired: ['open', 'cancelled'],
+  cancelled: []
+};
+
+// Statuses only the system moves a job into; farmers cannot pick them by hand
+const AUTOMATIC_STATUSES: JobStatus[] = ['in-progress', 'expired'];
+
+// Statuses that need an explanation when a farmer moves a job into them
+const REASON_REQUIRED_STATUSES: JobStatus[] = ['cancelled', 'disputed'];
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  open: 'Open',
+  filled: 'Filled',
+  'in-progress': 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  disputed: 'Disputed'
+};
+
+export class JobStateMachine {
+  /**
+   * Checks whether a job may move from one status to another
+   */
+  static canTransition(from: JobStatus, to: JobStatus): boolean {
+    return from === to || TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Validates a transition and explains why it is not allowed
+   */
+  static validateTransition(from: JobStatus, to: JobStatus, reason?: string): JobTransitionResult {
+    if (!JobStateMachine.canTransition(from, to)) {
+      const allowed = TRANSITIONS[from].map(status => STATUS_LABELS[status]);
+      return {
+        valid: false,
+        reason: allowed.length > 0
+          ? `Cannot change job status from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}. Allowed: ${allowed.join(', ')}.`
+          : `Cannot change job status from ${STATUS_LABELS[from]}. ${STATUS_LABELS[from]} jobs are closed.`
+      };
+    }
+
+    if (from !== to && JobStateMachine.requiresReason(to) && !reason?.trim()) {
+      return {
+        valid: false,
+        reason: `Please give a reason for marking the job as ${STATUS_LABELS[to].toLowerCase()}.`
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Gets every status a job can move to next
+   */
+  static getNextStatuses(from: JobStatus): JobStatus[] {
+    return [...TRANSITIONS[from]];
+  }
+
+  /**
+   * Gets the statuses a farmer may pick by hand, including the current one
+   */
+  static getManualStatuses(from: JobStatus): JobStatus[] {
+    return [from, ...TRANSITIONS[from].filter(status => !AUTOMATIC_STATUSES.includes(status))];
+  }
+
+  /**
+   * Checks if moving a job into this status needs a reason
+   */
+  static requiresReason(status: JobStatus): boolean {
+    return REASON_REQUIRED_STATUSES.includes(status);
+  }
+
+  /**
+   * Checks if a job in this status can no longer be edited
+   */
+  static isClosed(status: JobStatus): boolean {
+    return status === 'completed' || status === 'cancelled';
+  }
+
+  /**
+   * Checks if a job in this status can still be deleted (work has not started)
+   */
+  static canDelete(status: JobStatus): boolean {
+    return status === 'open' || status === 'filled' || status === 'expired' || status === 'cancelled';
+  }
+
+  /**
+   * Checks if workers can still be accepted onto a job in this status
+   */
+  static canHire(status: JobStatus): boolean {
+    return status === 'open' || status === 'filled' || status === 'in-progress';
+  }
+
+  /**
+   * Gets the display label for a status
+   */
+  static getLabel(status: JobStatus): string {
+    return STATUS_LABELS[status] ?? status;
+  }
+}
@@ -1,167 +1,130 @@
-import { Job } from '../types';
-import { jobStorage } from './storage';
+import { Job, Application } from '../types';
+import { JobStateMachine } from './jobStateMachine';
 
+/**
+ * Read-only predictor for job status transitions.
+ *
+ * The authoritative `open → filled → in-progress` and `open → expired`
+ * transitions run in the database (`compute_job_status`, applied by a trigger
+ * and a scheduled `refresh_job_statuses` job), as does the waitlist's
+ * `filled → open` when a freed place runs out of people to offer it to
+ * (`fill_from_waitlist`). These helpers mirror those rules so the UI can show
+ * what a job's status is about to become between scheduled runs; they never
+ * write to the database.
+ */
 export class JobStatusManager {
   /**
-   * Updates job status based on accepted workers and job date
+   * Checks what the job status should be without updating the database.
+   * Pass the job's applications to also predict the waitlist reopening it.
    */
-  static async updateJobStatus(job: Job): Promise<Job> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Reset time to start of day for accurate comparison
-    
-    const jobDate = new Date(job.preferredDate);
-    jobDate.setHours(0, 0, 0, 0); // Reset time to start of day
-    
+  static checkJobStatus(job: Job, applications?: Application[]): Job {
     const acceptedWorkers = job.acceptedWorkerIds?.length || 0;
     let newStatus = job.status;
-    
+
+    // Back to 'open' when a freed place has nobody left on the waitlist to take it
+    if (
+      job.status === 'filled' &&
+      job.waitlistEnabled &&
+      applications &&
+      JobStatusManager.getUnofferedPlaces(job, applications) > 0
+    ) {
+      newStatus = 'open';
+    }
+
     // Auto-change to 'filled' when required workers are reached and job is open
     if (acceptedWorkers >= job.requiredWorkers && job.status === 'open') {
       newStatus = 'filled';
-      console.log(`Job ${job.id} status changed to 'filled' - all ${job.requiredWorkers} positions filled`);
     }
-    
+
     // Auto-change to 'in-progress' if job date has arrived and workers are accepted
-    if (jobDate <= today && acceptedWorkers > 0 && (job.status === 'open' || job.status === 'filled')) {
+    if (
+      job.preferredDate &&
+      JobStatusManager.isJobDateReached(job.preferredDate) &&
+      acceptedWorkers > 0 &&
+      (newStatus === 'open' || newStatus === 'filled')
+    ) {
       newStatus = 'in-progress';
-      console.log(`Job ${job.id} status changed to 'in-progress' - job date has arrived`);
     }
-    
-    // If status changed, update the job in database
-    if (newStatus !== job.status) {
-      const updateResult = await jobStorage.updateJob(job.id, { status: newStatus });
-      if (updateResult.success) {
-        const updatedJob = { ...job, status: newStatus };
-        console.log(`Job ${job.id} status updated from '${job.status}' to '${newStatus}'`);
-        return updatedJob;
-      } else {
-        console.error(`Failed to update job ${job.id} status:`, updateResult.error);
-        return job;
-      }
+
+    // Auto-change to 'expired' once the job date has passed with nobody accepted
+    if (
+      job.preferredDate &&
+      JobStatusManager.isJobDatePassed(job.preferredDate) &&
+      acceptedWorkers === 0 &&
+      newStatus === 'open'
+    ) {
+      newStatus = 'expired';
     }
-    
-    return job;
+
+    if (!JobStateMachine.canTransition(job.status, newStatus)) {
+      return job;
+    }
+
+    return { ...job, status: newStatus };
   }
-  
+
   /**
-   * Updates all jobs' statuses based on current conditions
+   * Checks if an application holds a waitlist offer that can still be confirmed
    */
-  static async updateAllJobStatuses(): Promise<Job[]> {
-    try {
-      const allJobs = await jobStorage.getJobs();
-      const updatedJobs: Job[] = [];
-      let hasUpdates = false;
-      
-      for (const job of allJobs) {
-        // Only process jobs that are not completed
-        if (job.status !== 'completed') {
-          const updatedJob = await this.checkJobStatus(job);
-          updatedJobs.push(updatedJob);
-          if (updatedJob.status !== job.status) {
-            hasUpdates = true;
-          }
-        } else {
-          updatedJobs.push(job);
-        }
-      }
-      
-      // Only perform database updates if there are actual changes
-      if (hasUpdates) {
-        console.log('Updating job statuses in database...');
-        // Update jobs with changed statuses
-        for (const job of updatedJobs) {
-          const originalJob = allJobs.find(j => j.id === job.id);
-          if (originalJob && originalJob.status !== job.status) {
-            await jobStorage.updateJob(job.id, { status: job.status });
-          }
-        }
-      }
-      
-      return updatedJobs;
-    } catch (error) {
-      console.error('Error updating job statuses:', error);
-      return await jobStorage.getJobs();
-    }
+  static isOfferLive(application: Application): boolean {
+    return (
+      application.status === 'pending' &&
+      !!application.offerExpiresAt &&
+      new Date(application.offerExpiresAt) > new Date()
+    );
   }
-  
+
   /**
-   * Checks what the job status should be without updating the database
+   * Checks if an application is still in line for a waitlist offer
    */
-  static checkJobStatus(job: Job): Job {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const jobDate = new Date(job.preferredDate);
-    jobDate.setHours(0, 0, 0, 0);
-    
-    const acceptedWorkers = job.acceptedWorkerIds?.length || 0;
-    let newStatus = job.status;
-    
-    // Auto-change to 'filled' when required workers are reached and job is open
-    if (acceptedWorkers >= job.requiredWorkers && job.status === 'open') {
-      newStatus = 'filled';
-    }
-    
-    // Auto-change to 'in-progress' if job date has arrived and workers are accepted
-    if (jobDate <= today && acceptedWorkers > 0 && (job.status === 'open' || job.status === 'filled')) {
-      newStatus = 'in-progress';
-    }
-    
-    return { ...job, status: newStatus };
+  static isWaitlistCandidate(application: Application): boolean {
+    return application.status === 'pending' && !application.offeredAt && application.proposalStatus !== 'pending';
   }
-  
+
   /**
-   * Checks if a job should automatically change status when workers are accepted
+   * Free places on a waitlisted job that can be neither held by a live offer
+   * nor offered to the next applicant in line
    */
-  static async checkStatusAfterWorkerAccepted(jobId: string): Promise<Job | null> {
-    try {
-      const allJobs = await jobStorage.getJobs();
-      const job = allJobs.find(j => j.id === jobId);
-      
-      if (job) {
-        const updatedJob = await this.updateJobStatus(job);
-        return updatedJob;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error checking job status after worker accepted:', error);
-      return null;
-    }
+  static getUnofferedPlaces(job: Job, applications: Application[]): number {
+    const acceptedWorkers = job.acceptedWorkerIds?.length || 0;
+    const liveOffers = applications.filter(app => JobStatusManager.isOfferLive(app)).length;
+    const candidates = applications.filter(app => JobStatusManager.isWaitlistCandidate(app)).length;
+    return Math.max(job.requiredWorkers - acceptedWorkers - liveOffers - candidates, 0);
   }
-  
+
   /**
-   * Updates a single job's status and returns the updated job
+   * Applies the predicted status to a list of jobs
    */
-  static async refreshJobStatus(jobId: string): Promise<Job | null> {
-    try {
-      const allJobs = await jobStorage.getJobs();
-      const job = allJobs.find(j => j.id === jobId);
-      
-      if (job) {
-        return await this.updateJobStatus(job);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error refreshing job status:', error);
-      return null;
-    }
+  static predictStatuses(jobs: Job[]): Job[] {
+    return jobs.map(job => JobStatusManager.checkJobStatus(job));
   }
-  
+
   /**
    * Checks if a job should automatically transition to in-progress based on date
    */
   static isJobDateReached(jobDate: string): boolean {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    
+
     const preferredDate = new Date(jobDate);
     preferredDate.setHours(0, 0, 0, 0);
-    
+
     return preferredDate <= today;
   }
-  
+
+  /**
+   * Checks if a job's date is already behind us (strictly before today)
+   */
+  static isJobDatePassed(jobDate: string): boolean {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const preferredDate = new Date(jobDate);
+    preferredDate.setHours(0, 0, 0, 0);
+
+    return preferredDate < today;
+  }
+
   /**
    * Checks if a job should automatically transition to filled based on worker count
    */
@@ -169,4 +132,4 @@ export class JobStatusManager {
     const acceptedWorkers = job.acceptedWorkerIds?.length || 0;
     return acceptedWorkers >= job.requiredWorkers;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,4 @@
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// Chats are scoped to a job and one worker; the farmer is implied by the job
+export const threadKey = (jobId: string, workerId: string): string => `${jobId}:${workerId}`;
@@ -0,0 +1,11 @@
+// Where a notification leads: the screen that lets the user act on it
+export const getNotificationPath = (
+  type: string,
+  userType: 'farmer' | 'worker',
+  jobId?: string | null
+): string | null => {
+  if (type === 'job_invitation') return '/invitations';
+  if (type === 'review_received') return '/profile';
+  if (!jobId) return null;
+  return userType === 'farmer' ? `/applicants/${jobId}` : '/my-jobs';
+};
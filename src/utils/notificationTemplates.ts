@@ -0,0 +1,69 @@
+import { NotificationChannel } from '../types';
+
+// What the database puts in an outbox row's payload
+export interface TemplatePayload {
+  name?: string;
+  user_type?: 'farmer' | 'worker';
+  title?: string;
+  body?: string | null;
+  job_id?: string | null;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+}
+
+const SMS_MAX_LENGTH = 160;
+
+const APP_NAME = 'Kheticulture';
+
+type TemplateRenderer = (payload: TemplatePayload) => RenderedMessage;
+
+const withBody = (lead: string, body?: string | null) => (body ? `${lead}\n\n${body}` : lead);
+
+const TEMPLATES: Record<string, TemplateRenderer> = {
+  welcome: ({ name }) => ({
+    subject: `Welcome to ${APP_NAME}`,
+    text: `Hi ${name || 'there'}, your account has been created. Start connecting with local jobs today.`
+  }),
+  new_applicant: ({ title, body }) => ({
+    subject: title || 'New application',
+    text: withBody(`${title || 'Someone applied to your job'}. Open ${APP_NAME} to review the applicant.`, body)
+  }),
+  application_accepted: ({ title, body }) => ({
+    subject: title || 'You were hired',
+    text: withBody(`Good news! ${title || 'You were hired'}.`, body)
+  }),
+  application_rejected: ({ title, body }) => ({
+    subject: title || 'Application update',
+    text: withBody(`${title || 'Your application was not accepted'}. Keep an eye on ${APP_NAME} for new jobs nearby.`, body)
+  }),
+  job_starting_tomorrow: ({ title, body }) => ({
+    subject: title || 'Work starts tomorrow',
+    text: withBody(`Reminder: ${title || 'your job starts tomorrow'}.`, body)
+  })
+};
+
+// Events without their own template are sent as the in-app notification reads
+const fallbackTemplate: TemplateRenderer = ({ title, body }) => ({
+  subject: title || `Update from ${APP_NAME}`,
+  text: body ? `${title}\n\n${body}` : title || `You have a new update on ${APP_NAME}.`
+});
+
+export class NotificationTemplates {
+  /**
+   * Renders an outbox row for a channel. SMS gets a single line that fits one
+   * message; email and push get the subject and full text.
+   */
+  static render(channel: NotificationChannel, template: string, payload: TemplatePayload): RenderedMessage {
+    const rendered = (TEMPLATES[template] || fallbackTemplate)(payload);
+    if (channel !== 'sms') return rendered;
+
+    const text = `${APP_NAME}: ${rendered.text.replace(/\s+/g, ' ')}`;
+    return {
+      subject: rendered.subject,
+      text: text.length > SMS_MAX_LENGTH ? `${text.slice(0, SMS_MAX_LENGTH - 1)}…` : text
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { Application, AttendanceLocation, Job } from '../types';
+import { applicationStorage, attendanceStorage, jobStorage } from './storage';
+import { getOfflineStore, isOnline, isNetworkError } from '../lib/offlineStore';
+
+// Background Sync tag; the service worker forwards it to open tabs as a message
+export const REPLAY_SYNC_TAG = 'replay-actions';
+
+// What a worker can do without signal. jobTitle is kept for the conflict notice.
+export type OfflineActionInput =
+  | { kind: 'apply'; jobId: string; jobTitle: string; application: Application; isReapply: boolean }
+  | { kind: 'withdraw'; jobId: string; jobTitle: string; applicationId: string; reason?: string }
+  | { kind: 'check-in' | 'check-out'; jobId: string; jobTitle: string; location?: AttendanceLocation };
+
+export type QueuedAction = OfflineActionInput & {
+  id: string;
+  queuedAt: string; // also the time recorded for queued check-ins and check-outs
+};
+
+export interface OfflineConflict {
+  action: QueuedAction;
+  error: string;
+}
+
+export type OfflineActionResult =
+  | { success: true; queued: boolean }
+  | { success: false; error: string };
+
+const queueKey = (userId: string) => `queue:${userId}`;
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+// Why a queued application can no longer go through, or null when it still can
+const getApplyConflict = (job: Job | null): string | null => {
+  if (!job || job.deletedAt) return 'The farmer removed this job before your application was sent.';
+  if (job.status === 'filled' || (job.acceptedWorkerIds?.length ?? 0) >= job.requiredWorkers) {
+    return 'All positions were filled before your application was sent.';
+  }
+  if (job.status !== 'open') return 'This job stopped taking applications before your application was sent.';
+  return null;
+};
+
+/**
+ * Applies, withdrawals and attendance that survive a lost signal. Actions
+ * run straight away when possible; otherwise they are kept per user and
+ * replayed in order once the phone is back online.
+ */
+export class OfflineActions {
+  private static replaying = new Map<string, Promise<{ replayed: number; conflicts: OfflineConflict[] }>>();
+
+  private static async perform(action: OfflineActionInput, recordedAt?: string): Promise<{ success: boolean; error?: string }> {
+    switch (action.kind) {
+      case 'apply': {
+        const { application } = action;
+        return action.isReapply
+          ? applicationStorage.updateApplication(application.id, {
+              status: 'pending',
+              appliedAt: application.appliedAt,
+              message: application.message,
+              availabilityNote: application.availabilityNote,
+              proposedWage: application.proposedWage
+            })
+          : applicationStorage.saveApplication(application);
+      }
+      case 'withdraw':
+        return applicationStorage.withdrawApplication(action.applicationId, action.reason);
+      case 'check-in':
+        return attendanceStorage.checkIn(action.jobId, action.location, recordedAt);
+      case 'check-out':
+        return attendanceStorage.checkOut(action.jobId, action.location, recordedAt);
+    }
+  }
+
+  /**
+   * Performs the action, or queues it when there is no signal. Errors from
+   * the server are returned as usual and nothing is queued for them.
+   */
+  static async run(userId: string, action: OfflineActionInput): Promise<OfflineActionResult> {
+    if (isOnline()) {
+      const result = await this.perform(action);
+      if (result.success) return { success: true, queued: false };
+      if (!isNetworkError(result.error)) {
+        return { success: false, error: result.error || 'Something went wrong. Please try again.' };
+      }
+    }
+
+    await this.enqueue(userId, action);
+    return { success: true, queued: true };
+  }
+
+  static async enqueue(userId: string, action: OfflineActionInput): Promise<QueuedAction> {
+    const queued: QueuedAction = {
+      ...action,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString()
+    };
+    await getOfflineStore().set(queueKey(userId), [...(await this.getQueued(userId)), queued]);
+
+    // Lets the browser wake the app for the replay even if the tab is closed
+    try {
+      const registration = (await navigator.serviceWorker?.getRegistration()) as SyncRegistration | undefined;
+      await registration?.sync?.register(REPLAY_SYNC_TAG);
+    } catch (error) {
+      console.error('Error registering background sync:', error);
+    }
+
+    return queued;
+  }
+
+  static async getQueued(userId: string): Promise<QueuedAction[]> {
+    return (await getOfflineStore().get<QueuedAction[]>(queueKey(userId))) || [];
+  }
+
+  private static async dequeue(userId: string, actionId: string): Promise<void> {
+    const remaining = (await this.getQueued(userId)).filter(action => action.id !== actionId);
+    await getOfflineStore().set(queueKey(userId), remaining);
+  }
+
+  /**
+   * Sends queued actions in the order they were taken. Applications are
+   * checked against the job first, since it may have filled in the
+   * meantime. Anything the server refuses, or that fails for another
+   * reason than the signal, is dropped and reported as a conflict; losing
+   * the signal again stops the replay with the rest still queued. Calls
+   * made while a replay is running share it, and other tabs wait for it
+   * and then find only what is still queued.
+   */
+  static replay(userId: string): Promise<{ replayed: number; conflicts: OfflineConflict[] }> {
+    const running = this.replaying.get(userId);
+    if (running) return running;
+
+    const locks = globalThis.navigator?.locks;
+    const replay = (
+      locks ? locks.request(`${REPLAY_SYNC_TAG}:${userId}`, () => this.replayQueue(userId)) : this.replayQueue(userId)
+    ).finally(() => {
+      this.replaying.delete(userId);
+    });
+    this.replaying.set(userId, replay);
+    return replay;
+  }
+
+  private static async replayQueue(userId: string): Promise<{ replayed: number; conflicts: OfflineConflict[] }> {
+    const conflicts: OfflineConflict[] = [];
+    let replayed = 0;
+
+    for (const action of await this.getQueued(userId)) {
+      let error: string | undefined;
+      try {
+        const conflict = action.kind === 'apply' ? getApplyConflict(await jobStorage.getJob(action.jobId)) : null;
+        if (conflict) {
+          error = conflict;
+        } else {
+          const result = await this.perform(action, action.queuedAt);
+          if (!result.success) {
+            if (isNetworkError(result.error)) break;
+            error = result.error || 'The server refused this action.';
+          }
+        }
+      } catch (caught) {
+        if (isNetworkError(caught)) break;
+        // Anything else would fail the same way on every replay and hold up the actions behind it
+        console.error('Error replaying queued action:', caught);
+        error = 'This action could not be sent and was dropped.';
+      }
+
+      await this.dequeue(userId, action.id);
+      if (error) {
+        conflicts.push({ action, error });
+      } else {
+        replayed++;
+      }
+    }
+
+    return { replayed, conflicts };
+  }
+}
@@ -0,0 +1,65 @@
+import { pushSubscriptionStorage } from './storage';
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const toApplicationServerKey = (base64Url: string): Uint8Array => {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64Url.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export class PushSubscriptionManager {
+  static isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+  }
+
+  /**
+   * Asks for permission if needed, subscribes this browser through the PWA
+   * service worker and stores the subscription for the signed-in user
+   */
+  static async subscribe(): Promise<{ success: boolean; error?: string }> {
+    if (!PushSubscriptionManager.isSupported()) {
+      return { success: false, error: 'Push notifications are not available in this browser.' };
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      return { success: false, error: 'Notifications are blocked. Allow them in your browser settings first.' };
+    }
+
+    try {
+      // Not registered in development builds, where VitePWA is off
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) {
+        return { success: false, error: 'Install or reload the app to turn on push notifications.' };
+      }
+
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: toApplicationServerKey(VAPID_PUBLIC_KEY!)
+        }));
+
+      return pushSubscriptionStorage.save(subscription);
+    } catch (error) {
+      console.error('Error subscribing to push:', error);
+      return { success: false, error: 'This browser could not be registered for notifications.' };
+    }
+  }
+
+  // Removes this browser only; the user's other devices keep their subscriptions
+  static async unsubscribe(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+
+      await pushSubscriptionStorage.remove(subscription.endpoint);
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.error('Error unsubscribing from push:', error);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { ReviewTag } from '../types';
+
+export const REVIEW_TAG_LABELS: Record<ReviewTag, string> = {
+  punctual: 'Punctual',
+  hardworking: 'Hardworking',
+  skilled: 'Skilled',
+  respectful: 'Respectful',
+  would_work_again: 'Would work again',
+  fair_pay: 'Fair pay',
+  paid_on_time: 'Paid on time',
+  safe_conditions: 'Safe conditions',
+  clear_instructions: 'Clear instructions'
+};
+
+// Tags a farmer can give a worker
+export const WORKER_REVIEW_TAGS: ReviewTag[] = ['punctual', 'hardworking', 'skilled', 'respectful', 'would_work_again'];
+
+// Tags a worker can give a farmer
+export const FARMER_REVIEW_TAGS: ReviewTag[] = ['fair_pay', 'paid_on_time', 'safe_conditions', 'clear_instructions', 'respectful'];
@@ -1,40 +1,706 @@
-import { Job, Application } from '../types';
+import { Job, Application, User, Coordinates, Invitation, JobSearchQuery, JobSearchResult, JobStatus, JobStatusChange, AttendanceRecord, AttendanceLocation, JobPayroll, PayrollLine, PayrollAdjustment, PayrollAdjustmentKind, Timesheet, Payment, PaymentMethod, StatementBalance, Review, ReviewTag, RatingSummary, WorkerStats, AppNotification, Message, NotificationPreferences } from '../types';
 import { supabase, handleSupabaseError } from '../lib/supabase';
+import { Database } from '../lib/database.types';
 import { WageValidator } from './wageValidation';
+import { JobStateMachine } from './jobStateMachine';
+import { threadKey } from './messages';
+import { getOfflineStore, isOnline, isNetworkError } from '../lib/offlineStore';
+
+type JobRow = Database['public']['Tables']['jobs']['Row'];
+type ApplicationRow = Database['public']['Tables']['applications']['Row'];
+type ProfileRow = Database['public']['Tables']['profiles']['Row'];
+type InvitationRow = Database['public']['Tables']['invitations']['Row'];
+type AttendanceRow = Database['public']['Tables']['attendance']['Row'];
+type TimesheetRow = Database['public']['Tables']['timesheets']['Row'];
+type PayrollAdjustmentRow = Database['public']['Tables']['payroll_adjustments']['Row'];
+type JobStatementRow = Database['public']['Tables']['job_statements']['Row'];
+type PaymentRow = Database['public']['Tables']['payments']['Row'];
+type StatementBalanceRow = Database['public']['Views']['statement_balances']['Row'];
+type ReviewRow = Database['public']['Tables']['reviews']['Row'];
+type RatingSummaryRow = Database['public']['Views']['rating_summaries']['Row'];
+type WorkerReliabilityRow = Database['public']['Views']['worker_reliability']['Row'];
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+type NotificationPreferencesRow = Database['public']['Tables']['notification_preferences']['Row'];
+type NearbyJobRow = Database['public']['Functions']['search_nearby_jobs']['Returns'][number];
+
+// Both columns of a coordinate pair are set together (see the *_coordinates_check constraints)
+export const mapCoordinates = (lat: number | null, lng: number | null): Coordinates | undefined =>
+  lat !== null && lng !== null ? { lat, lng } : undefined;
+
+export const mapJob = (job: JobRow): Job => ({
+  id: job.id,
+  farmerId: job.farmer_id,
+  farmerName: job.farmer_name,
+  title: job.title,
+  description: job.description,
+  preferredDate: job.preferred_date || '',
+  wage: job.wage,
+  wageType: job.wage_type,
+  wageUnit: job.wage_unit || undefined,
+  estimatedUnits: job.estimated_units || undefined,
+  duration: job.duration,
+  durationType: job.duration_type,
+  location: job.location,
+  coordinates: mapCoordinates(job.latitude, job.longitude),
+  requiredWorkers: job.required_workers,
+  acceptedWorkerIds: job.accepted_worker_ids || [],
+  status: job.status,
+  createdAt: job.created_at,
+  deletedAt: job.deleted_at || undefined,
+  deletionReason: job.deletion_reason || undefined,
+  waitlistEnabled: job.waitlist_enabled
+});
+
+export const mapApplication = (app: ApplicationRow): Application => ({
+  id: app.id,
+  jobId: app.job_id,
+  workerId: app.worker_id,
+  workerName: app.worker_name,
+  workerEmail: app.worker_email,
+  message: app.message || undefined,
+  availabilityNote: app.availability_note || undefined,
+  proposedWage: app.proposed_wage ?? undefined,
+  proposalStatus: app.proposal_status ?? undefined,
+  agreedWage: app.agreed_wage ?? undefined,
+  status: app.status,
+  appliedAt: app.applied_at,
+  acceptedAt: app.accepted_at || undefined,
+  rejectedAt: app.rejected_at || undefined,
+  withdrawnAt: app.withdrawn_at || undefined,
+  withdrawalReason: app.withdrawal_reason || undefined,
+  shortlistedAt: app.shortlisted_at || undefined,
+  waitlistPosition: app.waitlist_position ?? undefined,
+  offeredAt: app.offered_at || undefined,
+  offerExpiresAt: app.offer_expires_at || undefined
+});
+
+const mapInvitation = (invitation: InvitationRow): Invitation => ({
+  id: invitation.id,
+  jobId: invitation.job_id,
+  farmerId: invitation.farmer_id,
+  workerId: invitation.worker_id,
+  message: invitation.message || undefined,
+  status: invitation.status,
+  createdAt: invitation.created_at,
+  respondedAt: invitation.responded_at || undefined
+});
+
+const mapAttendanceLocation = (
+  latitude: number | null,
+  longitude: number | null,
+  accuracyM: number | null,
+  distanceM: number | null
+): AttendanceLocation | undefined => {
+  if (latitude === null || longitude === null) return undefined;
+  return {
+    latitude: Number(latitude),
+    longitude: Number(longitude),
+    accuracyM: accuracyM !== null ? Number(accuracyM) : undefined,
+    distanceM: distanceM !== null ? Number(distanceM) : undefined
+  };
+};
+
+const mapAttendance = (row: AttendanceRow): AttendanceRecord => ({
+  id: row.id,
+  jobId: row.job_id,
+  workerId: row.worker_id,
+  workDate: row.work_date,
+  status: row.status,
+  checkInAt: row.check_in_at || undefined,
+  checkInLocation: mapAttendanceLocation(row.check_in_latitude, row.check_in_longitude, row.check_in_accuracy_m, row.check_in_distance_m),
+  checkInReceivedAt: row.check_in_received_at || undefined,
+  checkOutAt: row.check_out_at || undefined,
+  checkOutLocation: mapAttendanceLocation(row.check_out_latitude, row.check_out_longitude, row.check_out_accuracy_m, row.check_out_distance_m),
+  checkOutReceivedAt: row.check_out_received_at || undefined,
+  confirmedAt: row.confirmed_at || undefined,
+  confirmedBy: row.confirmed_by || undefined,
+  farmerNote: row.farmer_note || undefined
+});
+
+// Payroll previews share the statement columns but have no id, job or lock time
+type PayrollLineRow = Omit<JobStatementRow, 'id' | 'job_id' | 'adjustments' | 'locked_at'> &
+  Partial<Pick<JobStatementRow, 'id' | 'locked_at'>>;
+
+const mapPayrollLine = (jobId: string, row: PayrollLineRow): PayrollLine => ({
+  jobId,
+  workerId: row.worker_id,
+  wageType: row.wage_type,
+  rate: Number(row.rate),
+  quantity: Number(row.quantity),
+  quantityUnit: row.quantity_unit,
+  quantitySource: row.quantity_source,
+  baseAmount: Number(row.base_amount),
+  bonusTotal: Number(row.bonus_total),
+  deductionTotal: Number(row.deduction_total),
+  advanceTotal: Number(row.advance_total),
+  netAmount: Number(row.net_amount),
+  statementId: row.id,
+  lockedAt: row.locked_at
+});
+
+const mapPayrollAdjustment = (row: PayrollAdjustmentRow): PayrollAdjustment => ({
+  id: row.id,
+  jobId: row.job_id,
+  workerId: row.worker_id,
+  kind: row.kind,
+  amount: Number(row.amount),
+  note: row.note || undefined,
+  createdAt: row.created_at
+});
+
+const mapTimesheet = (row: TimesheetRow): Timesheet => ({
+  jobId: row.job_id,
+  workerId: row.worker_id,
+  hoursWorked: row.hours_worked !== null ? Number(row.hours_worked) : undefined,
+  daysWorked: row.days_worked !== null ? Number(row.days_worked) : undefined,
+  unitsCompleted: row.units_completed !== null ? Number(row.units_completed) : undefined,
+  note: row.note || undefined
+});
+
+const mapPayment = (row: PaymentRow): Payment => ({
+  id: row.id,
+  statementId: row.statement_id,
+  jobId: row.job_id,
+  farmerId: row.farmer_id,
+  workerId: row.worker_id,
+  amount: Number(row.amount),
+  method: row.method,
+  reference: row.reference || undefined,
+  note: row.note || undefined,
+  status: row.status,
+  paidAt: row.paid_at,
+  confirmedAt: row.confirmed_at || undefined,
+  disputedAt: row.disputed_at || undefined,
+  disputeReason: row.dispute_reason || undefined
+});
+
+const mapStatementBalance = (row: StatementBalanceRow): StatementBalance => ({
+  statementId: row.statement_id,
+  jobId: row.job_id,
+  jobTitle: row.job_title,
+  farmerId: row.farmer_id,
+  workerId: row.worker_id,
+  netAmount: Number(row.net_amount),
+  paidAmount: Number(row.paid_amount),
+  confirmedAmount: Number(row.confirmed_amount),
+  disputedAmount: Number(row.disputed_amount),
+  outstandingAmount: Number(row.outstanding_amount),
+  lockedAt: row.locked_at
+});
+
+const mapReview = (row: ReviewRow): Review => ({
+  id: row.id,
+  jobId: row.job_id,
+  reviewerId: row.reviewer_id,
+  revieweeId: row.reviewee_id,
+  reviewerRole: row.reviewer_role,
+  rating: row.rating,
+  tags: row.tags,
+  comment: row.comment || undefined,
+  createdAt: row.created_at
+});
+
+const mapRatingSummary = (row: RatingSummaryRow): RatingSummary => ({
+  userId: row.user_id,
+  reviewCount: row.review_count,
+  averageRating: Number(row.average_rating),
+  topTags: row.top_tags
+});
+
+const mapWorkerStats = (row: WorkerReliabilityRow): WorkerStats => ({
+  workerId: row.worker_id,
+  jobsAccepted: row.jobs_accepted,
+  jobsCompleted: row.jobs_completed,
+  completionRate: row.completion_rate ?? undefined,
+  noShows: row.no_shows,
+  attendanceDays: row.attendance_days,
+  lateWithdrawals: row.late_withdrawals,
+  averageRating: row.average_rating !== null ? Number(row.average_rating) : undefined,
+  reviewCount: row.review_count,
+  farmersWorkedFor: row.farmers_worked_for,
+  rehireRate: row.rehire_rate ?? undefined
+});
+
+export const mapNotification = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  title: row.title,
+  body: row.body || undefined,
+  jobId: row.job_id || undefined,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at
+});
+
+export const mapMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  jobId: row.job_id,
+  farmerId: row.farmer_id,
+  workerId: row.worker_id,
+  senderId: row.sender_id,
+  body: row.body,
+  isBroadcast: row.is_broadcast,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at
+});
+
+// Email lives on auth.users and is not readable for other people's profiles
+const mapProfile = (profile: ProfileRow): User => ({
+  id: profile.id,
+  name: profile.name,
+  email: '',
+  contactNumber: profile.contact_number,
+  userType: profile.user_type,
+  location: profile.location || undefined,
+  dateOfBirth: profile.date_of_birth || undefined,
+  weight: profile.weight || undefined,
+  height: profile.height || undefined,
+  profilePicture: profile.profile_picture || undefined,
+  workingPicture: profile.working_picture || undefined,
+  homeLocation: mapCoordinates(profile.home_latitude, profile.home_longitude),
+  createdAt: profile.created_at
+});
+
+// Profiles fetched during this session, keyed by user id
+const profileCache = new Map<string, User>();
+
+// Matches the column defaults; users who never changed anything have no row
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { email: true, sms: false, push: false };
+
+const DEFAULT_JOB_PAGE_SIZE = 20;
+
+// Every cached read lives under this prefix so logout can drop them in one go
+export const OFFLINE_CACHE_PREFIX = 'cache:';
+
+/**
+ * Runs `load` and keeps its result for offline use. Without signal the last
+ * result is returned instead, straight away when the browser already knows
+ * it is offline. Errors from the server itself are still thrown.
+ */
+const readThrough = async <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const store = getOfflineStore();
+  const cacheKey = `${OFFLINE_CACHE_PREFIX}${key}`;
+
+  if (!isOnline()) {
+    const cached = await store.get<T>(cacheKey).catch(() => undefined);
+    if (cached !== undefined) return cached;
+  }
+
+  try {
+    const value = await load();
+    store.set(cacheKey, value).catch(error => console.error('Error caching offline data:', error));
+    return value;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const cached = await store.get<T>(cacheKey).catch(() => undefined);
+      if (cached !== undefined) return cached;
+    }
+    throw error;
+  }
+};
+
+// Cursors are opaque to callers: "<created_at>|<id>" of the last job on the page
+const encodeJobCursor = (job: JobRow): string => `${job.created_at}|${job.id}`;
+
+const decodeJobCursor = (cursor: string): { createdAt: string; id: string } | null => {
+  const separator = cursor.lastIndexOf('|');
+  if (separator <= 0) return null;
+  return { createdAt: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+};
+
+// Distance searches page by (distance, id) instead, as returned by search_nearby_jobs
+const encodeNearbyCursor = (row: NearbyJobRow): string => `${row.distance_m}|${row.job.id}`;
+
+const decodeNearbyCursor = (cursor: string): { distanceM: number; id: string } | null => {
+  const separator = cursor.lastIndexOf('|');
+  const distanceM = Number(cursor.slice(0, separator));
+  if (separator <= 0 || !Number.isFinite(distanceM)) return null;
+  return { distanceM, id: cursor.slice(separator + 1) };
+};
+
+// Strip characters that are wildcards in ILIKE or delimiters in PostgREST filter strings
+const sanitizeSearchTerm = (term: string): string =>
+  term.replace(/[%_*,()"\\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export type AcceptApplicationErrorCode =
+  | 'application_not_found'
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'job_closed'
+  | 'already_accepted'
+  | 'application_not_pending'
+  | 'job_full'
+  | 'wage_proposal_pending'
+  | 'nothing_selected'
+  | 'not_enough_positions';
+
+export type RejectApplicationsErrorCode = 'job_not_found' | 'not_job_owner' | 'nothing_selected';
+
+export type WaitlistErrorCode =
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'job_closed'
+  | 'application_not_found'
+  | 'not_applicant'
+  | 'no_offer'
+  | 'offer_expired'
+  | 'job_full';
+
+export type DeleteJobErrorCode =
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'already_deleted'
+  | 'work_started'
+  | 'reason_required';
+
+export type WithdrawApplicationErrorCode =
+  | 'application_not_found'
+  | 'not_applicant'
+  | 'not_withdrawable'
+  | 'work_started';
+
+export type WageProposalErrorCode =
+  | 'application_not_found'
+  | 'not_job_owner'
+  | 'no_pending_proposal';
+
+export type RaiseWageErrorCode =
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'job_closed'
+  | 'wage_not_higher';
+
+export type InvitationErrorCode =
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'job_closed'
+  | 'job_full'
+  | 'worker_not_found'
+  | 'already_accepted'
+  | 'already_invited'
+  | 'invitation_not_found'
+  | 'not_invitee'
+  | 'invitation_closed';
+
+export type AttendanceErrorCode =
+  | 'job_not_found'
+  | 'not_accepted_worker'
+  | 'job_not_started'
+  | 'already_checked_in'
+  | 'not_checked_in'
+  | 'already_checked_out'
+  | 'marked_no_show'
+  | 'attendance_not_found'
+  | 'not_job_owner'
+  | 'invalid_times';
+
+export type PayrollErrorCode =
+  | 'job_not_found'
+  | 'not_job_owner'
+  | 'not_job_member'
+  | 'not_accepted_worker'
+  | 'payroll_locked'
+  | 'invalid_amount'
+  | 'adjustment_not_found';
+
+export type PaymentErrorCode =
+  | 'statement_not_found'
+  | 'not_job_owner'
+  | 'invalid_amount'
+  | 'exceeds_balance'
+  | 'payment_not_found'
+  | 'not_payee'
+  | 'already_confirmed'
+  | 'already_disputed'
+  | 'reason_required';
+
+export type ReviewErrorCode =
+  | 'job_not_found'
+  | 'job_not_completed'
+  | 'not_job_member'
+  | 'invalid_reviewee'
+  | 'invalid_rating'
+  | 'invalid_tag'
+  | 'already_reviewed';
+
+export type MessageErrorCode =
+  | 'job_not_found'
+  | 'not_participant'
+  | 'not_job_owner'
+  | 'empty_message'
+  | 'message_too_long'
+  | 'no_application'
+  | 'no_hired_workers';
+
+const deleteJobErrorMessages: Record<DeleteJobErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only delete your own jobs.',
+  already_deleted: 'This job has already been deleted.',
+  work_started: 'Cannot delete a job once work has started.',
+  reason_required: 'Please give a reason. Workers who applied will be told why the job was removed.'
+};
+
+const acceptApplicationErrorMessages: Record<AcceptApplicationErrorCode, string> = {
+  application_not_found: 'This application no longer exists.',
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only accept applicants for your own jobs.',
+  job_closed: 'This job is closed and can no longer accept workers.',
+  already_accepted: 'This worker has already been accepted.',
+  application_not_pending: 'Only pending applications can be accepted.',
+  job_full: 'Cannot accept more workers. All positions are filled or offered to waitlisted workers.',
+  wage_proposal_pending: 'This worker has asked for a different wage. Accept or decline the offer first.',
+  nothing_selected: 'Select at least one applicant.',
+  not_enough_positions: 'You selected more workers than there are open positions.'
+};
+
+const rejectApplicationsErrorMessages: Record<RejectApplicationsErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only reject applicants for your own jobs.',
+  nothing_selected: 'Select at least one applicant.'
+};
+
+const waitlistErrorMessages: Record<WaitlistErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only manage the waitlist for your own jobs.',
+  job_closed: 'This job is closed and no longer takes workers.',
+  application_not_found: 'This application no longer exists.',
+  not_applicant: 'You can only answer offers made to you.',
+  no_offer: 'There is no place on offer for this application.',
+  offer_expired: 'This offer has expired and the place went to the next worker.',
+  job_full: 'Sorry, this place has already been filled.'
+};
+
+const invitationErrorMessages: Record<InvitationErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only invite workers to your own jobs.',
+  job_closed: 'This job is no longer taking workers.',
+  job_full: 'All positions for this job have been filled.',
+  worker_not_found: 'This worker could not be found.',
+  already_accepted: 'This worker is already on the job.',
+  already_invited: 'This worker already has a pending invitation for this job.',
+  invitation_not_found: 'This invitation no longer exists.',
+  not_invitee: 'This invitation was sent to someone else.',
+  invitation_closed: 'This invitation has already been answered or cancelled.'
+};
+
+const wageProposalErrorMessages: Record<WageProposalErrorCode, string> = {
+  application_not_found: 'This application no longer exists.',
+  not_job_owner: 'You can only answer wage offers on your own jobs.',
+  no_pending_proposal: 'This wage offer has already been answered.'
+};
+
+const raiseWageErrorMessages: Record<RaiseWageErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only change the wage on your own jobs.',
+  job_closed: 'This job is closed. Its wage can no longer be changed.',
+  wage_not_higher: 'Once workers have applied, the wage can only be raised.'
+};
+
+const attendanceErrorMessages: Record<AttendanceErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_accepted_worker: 'Only workers accepted for this job can record attendance.',
+  job_not_started: 'Attendance can only be recorded while the job is in progress.',
+  already_checked_in: 'Attendance has already been recorded for today.',
+  not_checked_in: 'You need to check in before you can check out.',
+  already_checked_out: 'You have already checked out today.',
+  marked_no_show: 'The farmer has marked this worker absent for today.',
+  attendance_not_found: 'This attendance entry no longer exists.',
+  not_job_owner: 'You can only manage attendance for your own jobs.',
+  invalid_times: 'Check-out time must be after check-in time.'
+};
+
+const payrollErrorMessages: Record<PayrollErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_job_owner: 'You can only manage pay for your own jobs.',
+  not_job_member: 'You can only see pay for jobs you are part of.',
+  not_accepted_worker: 'This worker is not on the job.',
+  payroll_locked: 'Pay statements for this job are locked.',
+  invalid_amount: 'Please enter an amount greater than 0.',
+  adjustment_not_found: 'This adjustment no longer exists.'
+};
+
+const paymentErrorMessages: Record<PaymentErrorCode, string> = {
+  statement_not_found: 'This pay statement no longer exists.',
+  not_job_owner: 'You can only record payments for your own jobs.',
+  invalid_amount: 'Please enter an amount greater than 0.',
+  exceeds_balance: 'This is more than is still owed on this pay statement.',
+  payment_not_found: 'This payment no longer exists.',
+  not_payee: 'Only the worker who was paid can answer this.',
+  already_confirmed: 'This payment has already been confirmed.',
+  already_disputed: 'You have already disputed this payment. The farmer has been told.',
+  reason_required: 'Please say what is wrong with this payment.'
+};
+
+const reviewErrorMessages: Record<ReviewErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  job_not_completed: 'Reviews open once the job is completed.',
+  not_job_member: 'Only the farmer and hired workers can review this job.',
+  invalid_reviewee: 'You can only review people you worked with on this job.',
+  invalid_rating: 'Please choose between 1 and 5 stars.',
+  invalid_tag: 'One of the selected tags is not allowed.',
+  already_reviewed: 'You have already reviewed this person for this job.'
+};
+
+const messageErrorMessages: Record<MessageErrorCode, string> = {
+  job_not_found: 'This job no longer exists.',
+  not_participant: 'You can only message about jobs you posted or applied to.',
+  not_job_owner: 'Only the farmer can message all hired workers.',
+  empty_message: 'Please write a message first.',
+  message_too_long: 'Messages can be at most 1000 characters.',
+  no_application: 'This chat closed when the application was withdrawn or rejected.',
+  no_hired_workers: 'Nobody has been hired for this job yet.'
+};
+
+const withdrawApplicationErrorMessages: Record<WithdrawApplicationErrorCode, string> = {
+  application_not_found: 'This application no longer exists.',
+  not_applicant: 'You can only withdraw your own applications.',
+  not_withdrawable: 'Only pending or accepted applications can be withdrawn.',
+  work_started: 'Work on this job has already started. Please contact the farmer instead.'
+};
+
+/**
+ * One page of a distance search. Distance, ordering and paging all happen in
+ * `search_nearby_jobs`, which takes the same filters as the regular search.
+ */
+const fetchNearbyJobPage = async (
+  query: JobSearchQuery & { near: NonNullable<JobSearchQuery['near']> },
+  cursor: string | null
+): Promise<JobSearchResult> => {
+  const pageSize = query.limit ?? DEFAULT_JOB_PAGE_SIZE;
+  const position = cursor ? decodeNearbyCursor(cursor) : null;
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await supabase.rpc('search_nearby_jobs', {
+    p_latitude: query.near.lat,
+    p_longitude: query.near.lng,
+    p_radius_m: query.near.radiusKm * 1000,
+    p_statuses: query.statuses?.length ? query.statuses : null,
+    p_farmer_id: query.farmerId ?? null,
+    p_min_wage: query.minWage ?? null,
+    p_max_wage: query.maxWage ?? null,
+    p_duration_type: query.durationType ?? null,
+    p_wage_type: query.wageType ?? null,
+    p_location: sanitizeSearchTerm(query.location || '') || null,
+    p_search_term: sanitizeSearchTerm(query.searchTerm || '') || null,
+    p_date_from: query.dateFrom ?? null,
+    p_date_to: query.dateTo ?? null,
+    p_after_distance: position?.distanceM ?? null,
+    p_after_id: position?.id ?? null,
+    p_limit: pageSize + 1
+  });
+
+  if (error) throw error;
+
+  const rows = (data as NearbyJobRow[] | null) || [];
+  const pageRows = rows.slice(0, pageSize);
+
+  return {
+    jobs: pageRows.map(row => mapJob(row.job)),
+    nextCursor: rows.length > pageSize ? encodeNearbyCursor(pageRows[pageRows.length - 1]) : null
+  };
+};
+
+// One page of jobStorage.searchJobs
+const fetchJobSearchPage = async (query: JobSearchQuery, cursor: string | null): Promise<JobSearchResult> => {
+  try {
+    if (query.near) {
+      return await fetchNearbyJobPage({ ...query, near: query.near }, cursor);
+    }
+
+    const pageSize = query.limit ?? DEFAULT_JOB_PAGE_SIZE;
+    let request = supabase.from('jobs').select('*').is('deleted_at', null);
+
+    if (query.farmerId) request = request.eq('farmer_id', query.farmerId);
+    if (query.statuses?.length) request = request.in('status', query.statuses);
+    if (query.durationType) request = request.eq('duration_type', query.durationType);
+    if (query.wageType) request = request.eq('wage_type', query.wageType);
+    if (query.minWage !== undefined) request = request.gte('wage', query.minWage);
+    if (query.maxWage !== undefined) request = request.lte('wage', query.maxWage);
+    if (query.dateFrom) request = request.gte('preferred_date', query.dateFrom);
+    if (query.dateTo) request = request.lte('preferred_date', query.dateTo);
+
+    const location = sanitizeSearchTerm(query.location || '');
+    if (location) request = request.ilike('location', `%${location}%`);
+
+    const searchTerm = sanitizeSearchTerm(query.searchTerm || '');
+    if (searchTerm) {
+      request = request.or(
+        `title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%,location.ilike.%${searchTerm}%`
+      );
+    }
+
+    const position = cursor ? decodeJobCursor(cursor) : null;
+    if (position) {
+      request = request.or(
+        `created_at.lt."${position.createdAt}",and(created_at.eq."${position.createdAt}",id.lt.${position.id})`
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize + 1);
+
+    if (error) throw error;
+
+    const rows: JobRow[] = data || [];
+    const pageRows = rows.slice(0, pageSize);
+
+    return {
+      jobs: pageRows.map(mapJob),
+      nextCursor: rows.length > pageSize ? encodeJobCursor(pageRows[pageRows.length - 1]) : null
+    };
+  } catch (error) {
+    console.error('Error searching jobs:', error);
+    throw error; // Re-throw to handle in component
+  }
+};
 
 export const jobStorage = {
   getJobs: async (): Promise<Job[]> => {
     try {
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(100); // Limit initial load to prevent performance issues
-      
-      if (error) throw error;
-      
-      return data?.map(job => ({
-        id: job.id,
-        farmerId: job.farmer_id,
-        farmerName: job.farmer_name,
-        title: job.title,
-        description: job.description,
-        preferredDate: job.preferred_date || '',
-        wage: job.wage,
-        duration: job.duration,
-        durationType: job.duration_type,
-        location: job.location,
-        requiredWorkers: job.required_workers,
-        acceptedWorkerIds: job.accepted_worker_ids || [],
-        status: job.status,
-        createdAt: job.created_at
-      })) || [];
+      return await readThrough('jobs', async () => {
+        const { data, error } = await supabase
+          .from('jobs')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(100); // Limit initial load to prevent performance issues
+
+        if (error) throw error;
+
+        return data?.map(mapJob) || [];
+      });
     } catch (error) {
       console.error('Error fetching jobs:', error);
       throw error; // Re-throw to handle in component
     }
   },
   
+  /**
+   * Searches jobs with all filtering done by Postgres, newest first, or
+   * nearest first when `near` is set.
+   * Pass the returned `nextCursor` back in to fetch the following page.
+   * First pages are kept for offline use, per query.
+   */
+  searchJobs: async (query: JobSearchQuery = {}, cursor: string | null = null): Promise<JobSearchResult> => {
+    if (cursor === null) {
+      return readThrough(`search:${JSON.stringify(query)}`, () => fetchJobSearchPage(query, null));
+    }
+    return fetchJobSearchPage(query, cursor);
+  },
+
+  /**
+   * Fetches one job fresh from the server, bypassing the offline cache.
+   * Returns null when it no longer exists.
+   */
+  getJob: async (jobId: string): Promise<Job | null> => {
+    const { data, error } = await supabase.from('jobs').select('*').eq('id', jobId).maybeSingle();
+    if (error) throw error;
+    return data ? mapJob(data as JobRow) : null;
+  },
+  
   saveJob: async (job: Job): Promise<{ success: boolean; error?: string }> => {
     try {
       const { error } = await supabase
@@ -46,9 +712,14 @@ export const jobStorage = {
           description: job.description,
           preferred_date: job.preferredDate || null,
           wage: job.wage,
+          wage_type: job.wageType,
+          wage_unit: job.wageType === 'per-unit' ? job.wageUnit || null : null,
+          estimated_units: job.wageType === 'per-unit' ? job.estimatedUnits || null : null,
           duration: job.duration,
           duration_type: job.durationType,
           location: job.location,
+          latitude: job.coordinates?.lat ?? null,
+          longitude: job.coordinates?.lng ?? null,
           required_workers: job.requiredWorkers,
           status: job.status
         });
@@ -60,7 +731,11 @@ export const jobStorage = {
     }
   },
   
-  updateJob: async (jobId: string, updates: Partial<Job>): Promise<{ success: boolean; error?: string }> => {
+  updateJob: async (
+    jobId: string,
+    updates: Partial<Job>,
+    statusReason?: string
+  ): Promise<{ success: boolean; error?: string; notified?: number }> => {
     try {
       // Get current job data for validation
       const jobs = await jobStorage.getJobs();
@@ -70,28 +745,31 @@ export const jobStorage = {
         return { success: false, error: 'Job not found' };
       }
 
-      // Prevent editing of completed jobs
-      if (currentJob.status === 'completed' && Object.keys(updates).some(key => key !== 'status')) {
-        return { success: false, error: 'Cannot edit completed jobs. The job has been closed.' };
+      // Prevent editing of closed jobs
+      if (JobStateMachine.isClosed(currentJob.status) && Object.keys(updates).some(key => key !== 'status')) {
+        return {
+          success: false,
+          error: `Cannot edit ${JobStateMachine.getLabel(currentJob.status).toLowerCase()} jobs. The job has been closed.`
+        };
       }
 
-      // Validate wage changes if wage is being updated
-      if (updates.wage !== undefined && updates.wage !== currentJob.wage) {
-        // Get applications for this job to check if wage changes are allowed
-        const applications = await applicationStorage.getApplications();
-        const jobApplications = applications.filter(app => app.jobId === jobId);
-        
-        // Strict rule: No wage changes whatsoever if any applications exist
-        if (jobApplications.length > 0) {
-          return { 
-            success: false, 
-            error: `Cannot modify wage. ${jobApplications.length} worker${jobApplications.length !== 1 ? 's have' : ' has'} already applied based on the current wage of ₹${currentJob.wage}. Wage changes are locked once applications are received.`
-          };
+      // Reject illegal status transitions before touching the database
+      const statusChanged = updates.status !== undefined && updates.status !== currentJob.status;
+      if (statusChanged) {
+        const transition = JobStateMachine.validateTransition(currentJob.status, updates.status!, statusReason);
+        if (!transition.valid) {
+          return { success: false, error: transition.reason };
         }
-        
+      }
+
+      // Once workers have applied the wage can only go up, and they all get told about it
+      const wageChanged = updates.wage !== undefined && updates.wage !== currentJob.wage;
+      const jobApplications = wageChanged ? await applicationStorage.getApplicationsForJob(jobId) : [];
+      const raiseWage = wageChanged && jobApplications.length > 0;
+      if (wageChanged) {
         const wageValidation = WageValidator.validateWageChange(
           currentJob.wage,
-          updates.wage,
+          updates.wage!,
           jobApplications.length > 0,
           currentJob.acceptedWorkerIds?.length || 0
         );
@@ -99,7 +777,7 @@ export const jobStorage = {
         if (!wageValidation.canModify) {
           const errorMessage = WageValidator.getWageErrorMessage(
             currentJob.wage,
-            updates.wage,
+            updates.wage!,
             jobApplications.length > 0,
             jobApplications.length
           );
@@ -107,31 +785,154 @@ export const jobStorage = {
         }
       }
 
+      // The wage model is part of the wage: lock it the same way once workers have applied
+      const wageModelChanged =
+        (updates.wageType !== undefined && updates.wageType !== currentJob.wageType) ||
+        (updates.wageUnit !== undefined && updates.wageUnit !== currentJob.wageUnit);
+      if (wageModelChanged) {
+        const applications = await applicationStorage.getApplicationsForJob(jobId);
+        if (applications.length > 0) {
+          return {
+            success: false,
+            error: 'Cannot change how this job is paid once workers have applied.'
+          };
+        }
+      }
+
+      if (updates.wage !== undefined || wageModelChanged || updates.estimatedUnits !== undefined) {
+        const wageCheck = WageValidator.validateWageForType(
+          updates.wage ?? currentJob.wage,
+          updates.wageType ?? currentJob.wageType,
+          updates.wageUnit ?? currentJob.wageUnit,
+          updates.estimatedUnits ?? currentJob.estimatedUnits
+        );
+        if (!wageCheck.valid) {
+          return { success: false, error: wageCheck.error };
+        }
+      }
+
       const updateData: any = {};
       
-      if (updates.wage !== undefined) updateData.wage = updates.wage;
+      if (updates.wage !== undefined && !raiseWage) updateData.wage = updates.wage;
+      if (updates.wageType !== undefined) updateData.wage_type = updates.wageType;
+      if (updates.wageUnit !== undefined) updateData.wage_unit = updates.wageUnit || null;
+      if (updates.estimatedUnits !== undefined) updateData.estimated_units = updates.estimatedUnits || null;
       if (updates.requiredWorkers !== undefined) updateData.required_workers = updates.requiredWorkers;
-      if (updates.status !== undefined) updateData.status = updates.status;
       if (updates.acceptedWorkerIds !== undefined) updateData.accepted_worker_ids = updates.acceptedWorkerIds;
       
-      const { error } = await supabase
-        .from('jobs')
-        .update({
-          ...updateData,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', jobId);
+      // Field edits, a wage raise and the status change are written together by
+      // `update_job`, so anything the database refuses leaves all of them unwritten
+      // and applicants are only told about a raise that stuck. The status still
+      // goes through the database triggers and into the history.
+      let notified: number | undefined;
+      if (Object.keys(updateData).length > 0 || statusChanged || raiseWage) {
+        const { data, error } = await supabase.rpc('update_job', {
+          p_job_id: jobId,
+          p_changes: updateData,
+          p_status: statusChanged ? updates.status! : null,
+          p_reason: statusChanged ? statusReason?.trim() || null : null,
+          p_new_wage: raiseWage ? updates.wage! : null
+        });
+        
+        if (error) throw error;
+
+        const result = data as { success: boolean; error?: RaiseWageErrorCode; notified?: number };
+        if (!result.success) {
+          const errorCode = result.error;
+          return { success: false, error: (errorCode && raiseWageErrorMessages[errorCode]) || 'Failed to raise the wage.' };
+        }
+        if (raiseWage) notified = result.notified ?? 0;
+      }
       
+      console.log(`Job ${jobId} updated successfully:`, { ...updateData, status: updates.status });
+      return { success: true, notified };
+    } catch (error) {
+      console.error(`Failed to update job ${jobId}:`, error);
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Raises the posted wage through the `raise_job_wage` database function.
+   * Pending counter-offers the new wage covers are accepted, and everyone who
+   * applied is notified. Returns how many workers were notified.
+   */
+  raiseWage: async (jobId: string, newWage: number): Promise<{
+    success: boolean;
+    job?: Job;
+    notified?: number;
+    error?: string;
+    errorCode?: RaiseWageErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('raise_job_wage', {
+        p_job_id: jobId,
+        p_new_wage: newWage
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: RaiseWageErrorCode; job?: JobRow; notified?: number };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && raiseWageErrorMessages[errorCode]) || 'Failed to raise the wage.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined, notified: result.notified ?? 0 };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  transitionJobStatus: async (
+    jobId: string,
+    status: JobStatus,
+    reason?: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase.rpc('transition_job_status', {
+        p_job_id: jobId,
+        p_status: status,
+        p_reason: reason?.trim() || null
+      });
+
       if (error) throw error;
-      
-      console.log(`Job ${jobId} updated successfully:`, updateData);
       return { success: true };
     } catch (error) {
-      console.error(`Failed to update job ${jobId}:`, error);
       return { success: false, error: handleSupabaseError(error) };
     }
   },
 
+  getStatusHistory: async (jobId: string): Promise<JobStatusChange[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('job_status_history')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+
+      return data?.map(entry => ({
+        id: entry.id,
+        jobId: entry.job_id,
+        fromStatus: entry.from_status,
+        toStatus: entry.to_status,
+        changedBy: entry.changed_by || undefined,
+        changedByName: entry.changed_by_name || undefined,
+        reason: entry.reason || undefined,
+        changedAt: entry.changed_at
+      })) || [];
+    } catch (error) {
+      console.error('Error fetching job status history:', error);
+      return [];
+    }
+  },
+
   validateJobUpdate: async (jobId: string, updates: Partial<Job>): Promise<{ valid: boolean; error?: string }> => {
     try {
       const jobs = await jobStorage.getJobs();
@@ -165,15 +966,43 @@ export const jobStorage = {
     }
   },
 
-  deleteJob: async (jobId: string): Promise<{ success: boolean; error?: string }> => {
+  /**
+   * Deletes a job through the `delete_job` database function. Jobs nobody
+   * applied to are removed outright; otherwise the job is soft-deleted and
+   * cancelled, its pending and accepted applications are withdrawn and every
+   * affected worker is notified. Jobs whose work has started cannot be deleted.
+   */
+  deleteJob: async (jobId: string, reason?: string): Promise<{
+    success: boolean;
+    mode?: 'deleted' | 'cancelled';
+    notified?: number;
+    error?: string;
+    errorCode?: DeleteJobErrorCode;
+  }> => {
     try {
-      const { error } = await supabase
-        .from('jobs')
-        .delete()
-        .eq('id', jobId);
+      const { data, error } = await supabase.rpc('delete_job', {
+        p_job_id: jobId,
+        p_reason: reason?.trim() || null
+      });
       
       if (error) throw error;
-      return { success: true };
+
+      const result = data as {
+        success: boolean;
+        mode?: 'deleted' | 'cancelled';
+        notified?: number;
+        error?: DeleteJobErrorCode;
+      };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && deleteJobErrorMessages[errorCode]) || 'Failed to delete job.'
+        };
+      }
+
+      return { success: true, mode: result.mode, notified: result.notified };
     } catch (error) {
       return { success: false, error: handleSupabaseError(error) };
     }
@@ -183,25 +1012,17 @@ export const jobStorage = {
 export const applicationStorage = {
   getApplications: async (): Promise<Application[]> => {
     try {
-      const { data, error } = await supabase
-        .from('applications')
-        .select('*')
-        .order('applied_at', { ascending: false })
-        .limit(200); // Limit initial load
-      
-      if (error) throw error;
-      
-      return data?.map(app => ({
-        id: app.id,
-        jobId: app.job_id,
-        workerId: app.worker_id,
-        workerName: app.worker_name,
-        workerEmail: app.worker_email,
-        message: app.message || undefined,
-        status: app.status,
-        appliedAt: app.applied_at,
-        rejectedAt: app.rejected_at || undefined
-      })) || [];
+      return await readThrough('applications', async () => {
+        const { data, error } = await supabase
+          .from('applications')
+          .select('*')
+          .order('applied_at', { ascending: false })
+          .limit(200); // Limit initial load
+
+        if (error) throw error;
+
+        return data?.map(mapApplication) || [];
+      });
     } catch (error) {
       console.error('Error fetching applications:', error);
       throw error; // Re-throw to handle in component
@@ -218,6 +1039,9 @@ export const applicationStorage = {
           worker_name: application.workerName,
           worker_email: application.workerEmail,
           message: application.message || null,
+          availability_note: application.availabilityNote || null,
+          proposed_wage: application.proposedWage ?? null,
+          proposal_status: application.proposedWage ? 'pending' : null,
           status: application.status,
           applied_at: application.appliedAt
         });
@@ -236,6 +1060,20 @@ export const applicationStorage = {
       if (updates.status !== undefined) updateData.status = updates.status;
       if (updates.appliedAt !== undefined) updateData.applied_at = updates.appliedAt;
       if (updates.rejectedAt !== undefined) updateData.rejected_at = updates.rejectedAt;
+      if (updates.message !== undefined) updateData.message = updates.message || null;
+      if (updates.availabilityNote !== undefined) updateData.availability_note = updates.availabilityNote || null;
+      // A fresh application replaces any earlier counter-offer
+      if (updates.proposedWage !== undefined || updates.status === 'pending') {
+        updateData.proposed_wage = updates.proposedWage || null;
+        updateData.proposal_status = updates.proposedWage ? 'pending' : null;
+      }
+
+      // Re-applying starts a fresh application, so drop any earlier withdrawal or wage deal
+      if (updates.status === 'pending') {
+        updateData.withdrawn_at = null;
+        updateData.withdrawal_reason = null;
+        updateData.agreed_wage = null;
+      }
       
       const { error } = await supabase
         .from('applications')
@@ -249,57 +1087,1335 @@ export const applicationStorage = {
     }
   },
 
-  getApplicationsForJob: async (jobId: string): Promise<Application[]> => {
+  /**
+   * Adds an applicant to, or removes them from, the farmer's shortlist
+   */
+  setShortlisted: async (applicationId: string, shortlisted: boolean): Promise<{ success: boolean; error?: string }> => {
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('applications')
-        .select('*')
-        .eq('job_id', jobId)
-        .order('applied_at', { ascending: false });
-      
+        .update({ shortlisted_at: shortlisted ? new Date().toISOString() : null })
+        .eq('id', applicationId);
+
       if (error) throw error;
-      
-      return data?.map(app => ({
-        id: app.id,
-        jobId: app.job_id,
-        workerId: app.worker_id,
-        workerName: app.worker_name,
-        workerEmail: app.worker_email,
-        message: app.message || undefined,
-        status: app.status,
-        appliedAt: app.applied_at,
-        rejectedAt: app.rejected_at || undefined
-      })) || [];
+      return { success: true };
     } catch (error) {
-      console.error('Error fetching job applications:', error);
-      return [];
+      return { success: false, error: handleSupabaseError(error) };
     }
   },
 
-  getApplicationsForWorker: async (workerId: string): Promise<Application[]> => {
+  /**
+   * Accepts an application through the `accept_application` database function,
+   * which locks the job, checks capacity, adds the worker and recomputes the
+   * job status in a single transaction.
+   */
+  acceptApplication: async (applicationId: string): Promise<{
+    success: boolean;
+    job?: Job;
+    error?: string;
+    errorCode?: AcceptApplicationErrorCode;
+  }> => {
     try {
-      const { data, error } = await supabase
-        .from('applications')
-        .select('*')
-        .eq('worker_id', workerId)
-        .order('applied_at', { ascending: false });
-      
+      const { data, error } = await supabase.rpc('accept_application', {
+        p_application_id: applicationId
+      });
+
       if (error) throw error;
-      
-      return data?.map(app => ({
-        id: app.id,
-        jobId: app.job_id,
-        workerId: app.worker_id,
-        workerName: app.worker_name,
-        workerEmail: app.worker_email,
-        message: app.message || undefined,
-        status: app.status,
-        appliedAt: app.applied_at,
-        rejectedAt: app.rejected_at || undefined
-      })) || [];
+
+      const result = data as { success: boolean; error?: AcceptApplicationErrorCode; job?: JobRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && acceptApplicationErrorMessages[errorCode]) || 'Failed to accept application.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined };
     } catch (error) {
-      console.error('Error fetching worker applications:', error);
-      return [];
+      return { success: false, error: handleSupabaseError(error) };
     }
-  }
-};
\ No newline at end of file
+  },
+
+  /**
+   * Accepts several applications for one job in a single transaction. The
+   * whole selection is refused if it does not fit in the open positions.
+   */
+  acceptApplications: async (jobId: string, applicationIds: string[]): Promise<{
+    success: boolean;
+    job?: Job;
+    acceptedCount?: number;
+    error?: string;
+    errorCode?: AcceptApplicationErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('accept_applications', {
+        p_job_id: jobId,
+        p_application_ids: applicationIds
+      });
+
+      if (error) throw error;
+
+      const result = data as {
+        success: boolean;
+        error?: AcceptApplicationErrorCode;
+        job?: JobRow;
+        accepted_count?: number;
+        remaining?: number;
+      };
+      if (!result.success) {
+        const errorCode = result.error;
+        const message = (errorCode && acceptApplicationErrorMessages[errorCode]) || 'Failed to accept applications.';
+        return {
+          success: false,
+          errorCode,
+          error: errorCode === 'not_enough_positions'
+            ? `${message} Only ${result.remaining} position${result.remaining !== 1 ? 's are' : ' is'} left.`
+            : message
+        };
+      }
+
+      return {
+        success: true,
+        job: result.job ? mapJob(result.job) : undefined,
+        acceptedCount: result.accepted_count
+      };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Rejects the given pending applications, or all remaining pending
+   * applications for the job when `applicationIds` is null. Each rejected
+   * worker is notified with the optional message.
+   */
+  rejectApplications: async (jobId: string, applicationIds: string[] | null, message?: string): Promise<{
+    success: boolean;
+    rejectedCount?: number;
+    error?: string;
+    errorCode?: RejectApplicationsErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('reject_applications', {
+        p_job_id: jobId,
+        p_application_ids: applicationIds,
+        p_message: message?.trim() || null
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: RejectApplicationsErrorCode; rejected_count?: number };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && rejectApplicationsErrorMessages[errorCode]) || 'Failed to reject applications.'
+        };
+      }
+
+      return { success: true, rejectedCount: result.rejected_count };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  setWaitlist: async (jobId: string, enabled: boolean, applicationIds?: string[]): Promise<{
+    success: boolean;
+    job?: Job;
+    error?: string;
+    errorCode?: WaitlistErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('set_waitlist', {
+        p_job_id: jobId,
+        p_enabled: enabled,
+        p_application_ids: applicationIds ?? null
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: WaitlistErrorCode; job?: JobRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && waitlistErrorMessages[errorCode]) || 'Failed to update the waitlist.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  respondToWaitlistOffer: async (applicationId: string, accept: boolean): Promise<{
+    success: boolean;
+    job?: Job;
+    error?: string;
+    errorCode?: WaitlistErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_waitlist_offer', {
+        p_application_id: applicationId,
+        p_accept: accept
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: WaitlistErrorCode; job?: JobRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && waitlistErrorMessages[errorCode]) || 'Failed to answer the offer.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Withdraws the current worker's application through the
+   * `withdraw_application` database function. Accepted workers are removed
+   * from the job and a filled job reopens; the farmer is notified.
+   */
+  withdrawApplication: async (applicationId: string, reason?: string): Promise<{
+    success: boolean;
+    job?: Job;
+    error?: string;
+    errorCode?: WithdrawApplicationErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('withdraw_application', {
+        p_application_id: applicationId,
+        p_reason: reason?.trim() || null
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: WithdrawApplicationErrorCode; job?: JobRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && withdrawApplicationErrorMessages[errorCode]) || 'Failed to withdraw application.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Accepts or declines a worker's counter-offer through the
+   * `respond_to_wage_proposal` database function. Accepting sets the
+   * application's agreed wage; the worker is notified either way.
+   */
+  respondToWageProposal: async (applicationId: string, accept: boolean): Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: WageProposalErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_wage_proposal', {
+        p_application_id: applicationId,
+        p_accept: accept
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: WageProposalErrorCode };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && wageProposalErrorMessages[errorCode]) || 'Failed to answer the wage offer.'
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  getApplicationsForJob: async (jobId: string): Promise<Application[]> => {
+    try {
+      return await readThrough(`applications:job:${jobId}`, async () => {
+        const { data, error } = await supabase
+          .from('applications')
+          .select('*')
+          .eq('job_id', jobId)
+          .order('applied_at', { ascending: false });
+
+        if (error) throw error;
+
+        return data?.map(mapApplication) || [];
+      });
+    } catch (error) {
+      console.error('Error fetching job applications:', error);
+      return [];
+    }
+  },
+
+  getApplicationsForWorker: async (workerId: string): Promise<Application[]> => {
+    try {
+      return await readThrough(`applications:worker:${workerId}`, async () => {
+        const { data, error } = await supabase
+          .from('applications')
+          .select('*')
+          .eq('worker_id', workerId)
+          .order('applied_at', { ascending: false });
+
+        if (error) throw error;
+
+        return data?.map(mapApplication) || [];
+      });
+    } catch (error) {
+      console.error('Error fetching worker applications:', error);
+      return [];
+    }
+  }
+};
+
+export const invitationStorage = {
+  /**
+   * Invites a worker to one of the farmer's open jobs through the
+   * `invite_worker` database function, which also notifies the worker.
+   */
+  inviteWorker: async (jobId: string, workerId: string, message?: string): Promise<{
+    success: boolean;
+    invitation?: Invitation;
+    error?: string;
+    errorCode?: InvitationErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('invite_worker', {
+        p_job_id: jobId,
+        p_worker_id: workerId,
+        p_message: message?.trim() || null
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: InvitationErrorCode; invitation?: InvitationRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && invitationErrorMessages[errorCode]) || 'Failed to send invitation.'
+        };
+      }
+
+      return { success: true, invitation: result.invitation ? mapInvitation(result.invitation) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Gets a worker's invitations, newest first, with each invitation's job attached
+   */
+  getInvitationsForWorker: async (workerId: string): Promise<Invitation[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('*')
+        .eq('worker_id', workerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const invitations = (data as InvitationRow[] | null)?.map(mapInvitation) || [];
+      if (invitations.length === 0) return invitations;
+
+      const { data: jobRows, error: jobsError } = await supabase
+        .from('jobs')
+        .select('*')
+        .in('id', [...new Set(invitations.map(invitation => invitation.jobId))]);
+
+      if (jobsError) throw jobsError;
+
+      const jobsById = new Map((jobRows as JobRow[] | null)?.map(row => [row.id, mapJob(row)]) || []);
+      return invitations.map(invitation => ({ ...invitation, job: jobsById.get(invitation.jobId) }));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      return [];
+    }
+  },
+
+  getInvitationsForJob: async (jobId: string): Promise<Invitation[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data as InvitationRow[] | null)?.map(mapInvitation) || [];
+    } catch (error) {
+      console.error('Error fetching job invitations:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Accepts or declines an invitation through the `respond_to_invitation`
+   * database function. Accepting runs the same capacity checks as
+   * `acceptApplication` and leaves the worker with an accepted application.
+   */
+  respondToInvitation: async (invitationId: string, accept: boolean): Promise<{
+    success: boolean;
+    job?: Job;
+    error?: string;
+    errorCode?: InvitationErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_invitation', {
+        p_invitation_id: invitationId,
+        p_accept: accept
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: InvitationErrorCode; job?: JobRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && invitationErrorMessages[errorCode]) || 'Failed to respond to invitation.'
+        };
+      }
+
+      return { success: true, job: result.job ? mapJob(result.job) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  cancelInvitation: async (invitationId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase
+        .from('invitations')
+        .update({ status: 'cancelled', responded_at: new Date().toISOString() })
+        .eq('id', invitationId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
+
+export const profileStorage = {
+  /**
+   * Loads several profiles in one query, serving already-seen ids from the
+   * session cache. Ids without a profile are simply absent from the result.
+   */
+  getProfiles: async (userIds: string[]): Promise<Record<string, User>> => {
+    const uniqueIds = [...new Set(userIds)];
+    const missingIds = uniqueIds.filter(id => !profileCache.has(id));
+
+    if (missingIds.length > 0) {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('*')
+          .in('id', missingIds);
+
+        if (error) throw error;
+
+        (data as ProfileRow[] | null)?.forEach(row => {
+          profileCache.set(row.id, mapProfile(row));
+        });
+      } catch (error) {
+        console.error('Error fetching profiles:', error);
+      }
+    }
+
+    const profiles: Record<string, User> = {};
+    uniqueIds.forEach(id => {
+      const profile = profileCache.get(id);
+      if (profile) profiles[id] = profile;
+    });
+    return profiles;
+  },
+
+  getProfile: async (userId: string): Promise<User | null> => {
+    const profiles = await profileStorage.getProfiles([userId]);
+    return profiles[userId] || null;
+  },
+
+  /**
+   * Drops cached profiles so the next read goes to the database.
+   * Call after a profile is edited; with no id the whole cache is cleared.
+   */
+  invalidate: (userId?: string): void => {
+    if (userId) {
+      profileCache.delete(userId);
+    } else {
+      profileCache.clear();
+    }
+  },
+
+  /**
+   * Loads the server-computed reliability figures for several workers in one
+   * query. Ids that are not workers are absent from the result.
+   */
+  getWorkerStatsByIds: async (workerIds: string[]): Promise<Record<string, WorkerStats>> => {
+    const uniqueIds = [...new Set(workerIds)];
+    if (uniqueIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('worker_reliability')
+        .select('*')
+        .in('worker_id', uniqueIds);
+
+      if (error) throw error;
+
+      const stats: Record<string, WorkerStats> = {};
+      (data as WorkerReliabilityRow[] | null)?.forEach(row => {
+        stats[row.worker_id] = mapWorkerStats(row);
+      });
+      return stats;
+    } catch (error) {
+      console.error('Error fetching worker stats:', error);
+      return {};
+    }
+  },
+
+  getWorkerStats: async (workerId: string): Promise<WorkerStats | null> => {
+    const stats = await profileStorage.getWorkerStatsByIds([workerId]);
+    return stats[workerId] || null;
+  },
+
+  /**
+   * Checks whether another account already uses this contact number.
+   * Backed by a security-definer function so it also works before sign-up.
+   */
+  isContactNumberTaken: async (contactNumber: string, excludeUserId?: string): Promise<boolean> => {
+    try {
+      const { data, error } = await supabase.rpc('is_contact_number_taken', {
+        p_contact_number: contactNumber.replace(/\D/g, ''),
+        p_exclude_user_id: excludeUserId ?? null
+      });
+
+      if (error) throw error;
+      return Boolean(data);
+    } catch (error) {
+      // Fail open: the unique constraint on profiles still rejects duplicates
+      console.error('Error checking contact number:', error);
+      return false;
+    }
+  }
+};
+
+type AttendanceResult = {
+  success: boolean;
+  attendance?: AttendanceRecord;
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+};
+
+// Shared handling for the attendance functions, which all return the same shape
+const callAttendanceRpc = async (
+  request: PromiseLike<{ data: unknown; error: unknown }>,
+  fallbackError: string
+): Promise<AttendanceResult> => {
+  try {
+    const { data, error } = await request;
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: AttendanceErrorCode; attendance?: AttendanceRow };
+    if (!result.success) {
+      const errorCode = result.error;
+      return {
+        success: false,
+        errorCode,
+        error: (errorCode && attendanceErrorMessages[errorCode]) || fallbackError
+      };
+    }
+
+    return { success: true, attendance: result.attendance ? mapAttendance(result.attendance) : undefined };
+  } catch (error) {
+    return { success: false, error: handleSupabaseError(error) };
+  }
+};
+
+export const attendanceStorage = {
+  getAttendanceForJob: async (jobId: string): Promise<AttendanceRecord[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('attendance')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('work_date', { ascending: false });
+
+      if (error) throw error;
+
+      return (data as AttendanceRow[] | null)?.map(mapAttendance) || [];
+    } catch (error) {
+      console.error('Error fetching job attendance:', error);
+      return [];
+    }
+  },
+
+  getAttendanceForWorker: async (workerId: string): Promise<AttendanceRecord[]> => {
+    try {
+      return await readThrough(`attendance:worker:${workerId}`, async () => {
+        const { data, error } = await supabase
+          .from('attendance')
+          .select('*')
+          .eq('worker_id', workerId)
+          .order('work_date', { ascending: false });
+
+        if (error) throw error;
+
+        return (data as AttendanceRow[] | null)?.map(mapAttendance) || [];
+      });
+    } catch (error) {
+      console.error('Error fetching worker attendance:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Checks the current worker in for today. The location is optional so
+   * workers whose phones cannot share it are not locked out, and the
+   * distance from the job site is worked out by the server. `recordedAt`
+   * is when a queued check-in was tapped; the server clamps it.
+   */
+  checkIn: (jobId: string, location?: AttendanceLocation, recordedAt?: string): Promise<AttendanceResult> =>
+    callAttendanceRpc(
+      supabase.rpc('check_in', {
+        p_job_id: jobId,
+        p_latitude: location?.latitude ?? null,
+        p_longitude: location?.longitude ?? null,
+        p_accuracy_m: location?.accuracyM ?? null,
+        p_recorded_at: recordedAt ?? null
+      }),
+      'Failed to check in.'
+    ),
+
+  checkOut: (jobId: string, location?: AttendanceLocation, recordedAt?: string): Promise<AttendanceResult> =>
+    callAttendanceRpc(
+      supabase.rpc('check_out', {
+        p_job_id: jobId,
+        p_latitude: location?.latitude ?? null,
+        p_longitude: location?.longitude ?? null,
+        p_accuracy_m: location?.accuracyM ?? null,
+        p_recorded_at: recordedAt ?? null
+      }),
+      'Failed to check out.'
+    ),
+
+  /**
+   * Confirms an attendance entry for the farmer, optionally correcting the
+   * recorded times. Passing times for a no-show turns it into attendance.
+   */
+  confirmAttendance: (
+    attendanceId: string,
+    corrections: { checkInAt?: string; checkOutAt?: string; note?: string } = {}
+  ): Promise<AttendanceResult> =>
+    callAttendanceRpc(
+      supabase.rpc('confirm_attendance', {
+        p_attendance_id: attendanceId,
+        p_check_in_at: corrections.checkInAt ?? null,
+        p_check_out_at: corrections.checkOutAt ?? null,
+        p_note: corrections.note?.trim() || null
+      }),
+      'Failed to confirm attendance.'
+    ),
+
+  markNoShow: (jobId: string, workerId: string, workDate?: string, note?: string): Promise<AttendanceResult> =>
+    callAttendanceRpc(
+      supabase.rpc('mark_no_show', {
+        p_job_id: jobId,
+        p_worker_id: workerId,
+        ...(workDate ? { p_work_date: workDate } : {}),
+        p_note: note?.trim() || null
+      }),
+      'Failed to mark the worker absent.'
+    )
+};
+
+type PayrollWriteResult = {
+  success: boolean;
+  error?: string;
+  errorCode?: PayrollErrorCode;
+};
+
+const toPayrollWriteResult = (data: unknown, fallbackError: string): PayrollWriteResult => {
+  const result = data as { success: boolean; error?: PayrollErrorCode };
+  if (result.success) return { success: true };
+
+  const errorCode = result.error;
+  return {
+    success: false,
+    errorCode,
+    error: (errorCode && payrollErrorMessages[errorCode]) || fallbackError
+  };
+};
+
+export const payrollStorage = {
+  /**
+   * Gets what each accepted worker is owed through the `get_job_payroll`
+   * database function: the locked statements once the job is completed,
+   * otherwise a live preview. Workers only receive their own line.
+   */
+  getJobPayroll: async (jobId: string): Promise<{
+    success: boolean;
+    payroll?: JobPayroll;
+    error?: string;
+    errorCode?: PayrollErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('get_job_payroll', { p_job_id: jobId });
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: PayrollErrorCode; locked?: boolean; lines?: PayrollLineRow[] };
+      if (!result.success) {
+        return toPayrollWriteResult(result, 'Failed to load pay.');
+      }
+
+      return {
+        success: true,
+        payroll: {
+          locked: Boolean(result.locked),
+          lines: (result.lines || []).map(line => mapPayrollLine(jobId, line))
+        }
+      };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  getStatementsForWorker: async (workerId: string): Promise<PayrollLine[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('job_statements')
+        .select('*')
+        .eq('worker_id', workerId)
+        .order('locked_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data as JobStatementRow[] | null)?.map(row => mapPayrollLine(row.job_id, row)) || [];
+    } catch (error) {
+      console.error('Error fetching pay statements:', error);
+      return [];
+    }
+  },
+
+  getTimesheets: async (jobId: string): Promise<Timesheet[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('timesheets')
+        .select('*')
+        .eq('job_id', jobId);
+
+      if (error) throw error;
+
+      return (data as TimesheetRow[] | null)?.map(mapTimesheet) || [];
+    } catch (error) {
+      console.error('Error fetching timesheets:', error);
+      return [];
+    }
+  },
+
+  getAdjustments: async (jobId: string): Promise<PayrollAdjustment[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('payroll_adjustments')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as PayrollAdjustmentRow[] | null)?.map(mapPayrollAdjustment) || [];
+    } catch (error) {
+      console.error('Error fetching pay adjustments:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Overrides what a worker did on a job. Leaving every value empty removes
+   * the override so pay goes back to attendance or the planned duration.
+   */
+  setTimesheet: async (timesheet: Timesheet): Promise<PayrollWriteResult> => {
+    try {
+      const { data, error } = await supabase.rpc('set_timesheet', {
+        p_job_id: timesheet.jobId,
+        p_worker_id: timesheet.workerId,
+        p_hours: timesheet.hoursWorked ?? null,
+        p_days: timesheet.daysWorked ?? null,
+        p_units: timesheet.unitsCompleted ?? null,
+        p_note: timesheet.note?.trim() || null
+      });
+
+      if (error) throw error;
+      return toPayrollWriteResult(data, 'Failed to save the timesheet.');
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  addAdjustment: async (
+    jobId: string,
+    workerId: string,
+    kind: PayrollAdjustmentKind,
+    amount: number,
+    note?: string
+  ): Promise<PayrollWriteResult> => {
+    try {
+      const { data, error } = await supabase.rpc('add_payroll_adjustment', {
+        p_job_id: jobId,
+        p_worker_id: workerId,
+        p_kind: kind,
+        p_amount: amount,
+        p_note: note?.trim() || null
+      });
+
+      if (error) throw error;
+      return toPayrollWriteResult(data, 'Failed to add the adjustment.');
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  removeAdjustment: async (adjustmentId: string): Promise<PayrollWriteResult> => {
+    try {
+      const { data, error } = await supabase.rpc('remove_payroll_adjustment', {
+        p_adjustment_id: adjustmentId
+      });
+
+      if (error) throw error;
+      return toPayrollWriteResult(data, 'Failed to remove the adjustment.');
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
+
+type PaymentResult = {
+  success: boolean;
+  payment?: Payment;
+  error?: string;
+  errorCode?: PaymentErrorCode;
+};
+
+const callPaymentRpc = async (
+  request: PromiseLike<{ data: unknown; error: unknown }>,
+  fallbackError: string
+): Promise<PaymentResult> => {
+  try {
+    const { data, error } = await request;
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: PaymentErrorCode; payment?: PaymentRow };
+    if (!result.success) {
+      const errorCode = result.error;
+      return {
+        success: false,
+        errorCode,
+        error: (errorCode && paymentErrorMessages[errorCode]) || fallbackError
+      };
+    }
+
+    return { success: true, payment: result.payment ? mapPayment(result.payment) : undefined };
+  } catch (error) {
+    return { success: false, error: handleSupabaseError(error) };
+  }
+};
+
+export const paymentStorage = {
+  getPaymentsForJob: async (jobId: string): Promise<Payment[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('paid_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as PaymentRow[] | null)?.map(mapPayment) || [];
+    } catch (error) {
+      console.error('Error fetching job payments:', error);
+      return [];
+    }
+  },
+
+  getPaymentsForWorker: async (workerId: string): Promise<Payment[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('worker_id', workerId)
+        .order('paid_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as PaymentRow[] | null)?.map(mapPayment) || [];
+    } catch (error) {
+      console.error('Error fetching worker payments:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Gets paid and outstanding amounts per job statement. Pass the farmer's
+   * or the worker's id; the view only returns rows the caller is part of.
+   */
+  getBalances: async (userId: string, role: 'farmer' | 'worker'): Promise<StatementBalance[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('statement_balances')
+        .select('*')
+        .eq(role === 'farmer' ? 'farmer_id' : 'worker_id', userId)
+        .order('locked_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data as StatementBalanceRow[] | null)?.map(mapStatementBalance) || [];
+    } catch (error) {
+      console.error('Error fetching balances:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Records that the farmer paid a worker against their job statement.
+   * The worker is notified and asked to confirm receipt.
+   */
+  recordPayment: (
+    statementId: string,
+    amount: number,
+    method: PaymentMethod,
+    reference?: string,
+    note?: string
+  ): Promise<PaymentResult> =>
+    callPaymentRpc(
+      supabase.rpc('record_payment', {
+        p_statement_id: statementId,
+        p_amount: amount,
+        p_method: method,
+        p_reference: reference?.trim() || null,
+        p_note: note?.trim() || null
+      }),
+      'Failed to record the payment.'
+    ),
+
+  confirmPayment: (paymentId: string): Promise<PaymentResult> =>
+    callPaymentRpc(
+      supabase.rpc('confirm_payment', { p_payment_id: paymentId }),
+      'Failed to confirm the payment.'
+    ),
+
+  /**
+   * Flags a payment the worker says they did not receive. Disputed payments
+   * stop counting towards the amount paid and the farmer is notified.
+   */
+  disputePayment: (paymentId: string, reason: string): Promise<PaymentResult> =>
+    callPaymentRpc(
+      supabase.rpc('dispute_payment', { p_payment_id: paymentId, p_reason: reason.trim() }),
+      'Failed to dispute the payment.'
+    )
+};
+
+export const reviewStorage = {
+  getReviewsForJob: async (jobId: string): Promise<Review[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('job_id', jobId);
+
+      if (error) throw error;
+
+      return (data as ReviewRow[] | null)?.map(mapReview) || [];
+    } catch (error) {
+      console.error('Error fetching job reviews:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Gets reviews a user has written or received, newest first
+   */
+  getReviewsForUser: async (userId: string, direction: 'received' | 'written' = 'received'): Promise<Review[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq(direction === 'received' ? 'reviewee_id' : 'reviewer_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data as ReviewRow[] | null)?.map(mapReview) || [];
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Loads rating summaries for several users in one query. Users without
+   * any reviews are absent from the result.
+   */
+  getRatingSummaries: async (userIds: string[]): Promise<Record<string, RatingSummary>> => {
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('rating_summaries')
+        .select('*')
+        .in('user_id', uniqueIds);
+
+      if (error) throw error;
+
+      const summaries: Record<string, RatingSummary> = {};
+      (data as RatingSummaryRow[] | null)?.forEach(row => {
+        summaries[row.user_id] = mapRatingSummary(row);
+      });
+      return summaries;
+    } catch (error) {
+      console.error('Error fetching rating summaries:', error);
+      return {};
+    }
+  },
+
+  /**
+   * Rates the other side of a completed job. Farmers review each hired
+   * worker and workers review the farmer, once per job.
+   */
+  submitReview: async (
+    jobId: string,
+    revieweeId: string,
+    rating: number,
+    tags: ReviewTag[],
+    comment?: string
+  ): Promise<{ success: boolean; review?: Review; error?: string; errorCode?: ReviewErrorCode }> => {
+    try {
+      const { data, error } = await supabase.rpc('submit_review', {
+        p_job_id: jobId,
+        p_reviewee_id: revieweeId,
+        p_rating: rating,
+        p_tags: tags,
+        p_comment: comment?.trim() || null
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: ReviewErrorCode; review?: ReviewRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && reviewErrorMessages[errorCode]) || 'Failed to submit the review.'
+        };
+      }
+
+      return { success: true, review: result.review ? mapReview(result.review) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
+
+export const notificationStorage = {
+  getNotifications: async (userId: string, limit = 50): Promise<AppNotification[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data as NotificationRow[] | null)?.map(mapNotification) || [];
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Counts every unread notification, not just the ones `getNotifications`
+   * loaded
+   */
+  getUnreadCount: async (userId: string): Promise<number> => {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      return 0;
+    }
+  },
+
+  markAsRead: async (notificationIds: string[]): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notificationIds)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  markAllAsRead: async (userId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  getPreferences: async (userId: string): Promise<NotificationPreferences> => {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const row = data as NotificationPreferencesRow | null;
+      return row ? { email: row.email, sms: row.sms, push: row.push } : DEFAULT_NOTIFICATION_PREFERENCES;
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      return DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+  },
+
+  /**
+   * Saves which channels new notifications are delivered on. Messages
+   * already queued in the outbox are not affected.
+   */
+  savePreferences: async (userId: string, preferences: NotificationPreferences): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: userId, ...preferences });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
+
+export const messageStorage = {
+  getThread: async (jobId: string, workerId: string): Promise<Message[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('job_id', jobId)
+        .eq('worker_id', workerId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as MessageRow[] | null)?.map(mapMessage) || [];
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Unread messages sent to the user, counted per thread (see `threadKey`)
+   */
+  getUnreadCounts: async (userId: string): Promise<Record<string, number>> => {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('job_id, worker_id')
+        .or(`farmer_id.eq.${userId},worker_id.eq.${userId}`)
+        .neq('sender_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      (data as Pick<MessageRow, 'job_id' | 'worker_id'>[] | null)?.forEach(row => {
+        const key = threadKey(row.job_id, row.worker_id);
+        counts[key] = (counts[key] || 0) + 1;
+      });
+      return counts;
+    } catch (error) {
+      console.error('Error fetching unread messages:', error);
+      return {};
+    }
+  },
+
+  sendMessage: async (jobId: string, workerId: string, body: string): Promise<{
+    success: boolean;
+    message?: Message;
+    error?: string;
+    errorCode?: MessageErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('send_message', {
+        p_job_id: jobId,
+        p_worker_id: workerId,
+        p_body: body
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: MessageErrorCode; message?: MessageRow };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && messageErrorMessages[errorCode]) || 'Failed to send the message.'
+        };
+      }
+
+      return { success: true, message: result.message ? mapMessage(result.message) : undefined };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Sends the same message to every hired worker of a job through the
+   * `broadcast_message` database function. Each copy lands in that worker's
+   * own thread, so replies stay private.
+   */
+  broadcastMessage: async (jobId: string, body: string): Promise<{
+    success: boolean;
+    sentCount?: number;
+    error?: string;
+    errorCode?: MessageErrorCode;
+  }> => {
+    try {
+      const { data, error } = await supabase.rpc('broadcast_message', {
+        p_job_id: jobId,
+        p_body: body
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: MessageErrorCode; sent_count?: number };
+      if (!result.success) {
+        const errorCode = result.error;
+        return {
+          success: false,
+          errorCode,
+          error: (errorCode && messageErrorMessages[errorCode]) || 'Failed to send the message.'
+        };
+      }
+
+      return { success: true, sentCount: result.sent_count };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  markThreadRead: async (jobId: string, workerId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase.rpc('mark_thread_read', {
+        p_job_id: jobId,
+        p_worker_id: workerId
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
+
+export const pushSubscriptionStorage = {
+  /**
+   * Registers this device for web push through `save_push_subscription`,
+   * which also takes the device over from whoever used it before
+   */
+  save: async (subscription: PushSubscription): Promise<{ success: boolean; error?: string }> => {
+    const { keys } = subscription.toJSON();
+    try {
+      const { data, error } = await supabase.rpc('save_push_subscription', {
+        p_endpoint: subscription.endpoint,
+        p_p256dh: keys?.p256dh ?? '',
+        p_auth: keys?.auth ?? '',
+        p_user_agent: navigator.userAgent
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) {
+        return { success: false, error: 'This browser could not be registered for notifications.' };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  remove: async (endpoint: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  }
+};
@@ -0,0 +1,108 @@
+import { Job, WageType, PayrollAdjustmentKind, PayrollLine, PaymentMethod } from '../types';
+
+// Working hours assumed in a day when converting between hourly and daily work
+const HOURS_PER_DAY = 8;
+
+export const WAGE_TYPE_LABELS: Record<WageType, string> = {
+  'per-hour': 'Per Hour',
+  'per-day': 'Per Day',
+  'lump-sum': 'Lump Sum',
+  'per-unit': 'Per Unit'
+};
+
+// Suggested units for piece-rate work; farmers can type their own
+export const COMMON_WAGE_UNITS = ['kg', 'bundle', 'ropani', 'tree', 'sack', 'row'];
+
+export const PAYROLL_ADJUSTMENT_LABELS: Record<PayrollAdjustmentKind, string> = {
+  bonus: 'Bonus',
+  deduction: 'Deduction',
+  advance: 'Advance paid'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  bank: 'Bank transfer',
+  esewa: 'eSewa',
+  khalti: 'Khalti',
+  other: 'Other'
+};
+
+export interface EarningsEstimate {
+  amount: number;
+  breakdown: string;
+}
+
+export class WageCalculator {
+  /**
+   * Gets the text shown after the amount, e.g. "per day" or "per kg"
+   */
+  static getWageSuffix(wageType: WageType, wageUnit?: string): string {
+    switch (wageType) {
+      case 'per-hour':
+        return 'per hour';
+      case 'per-day':
+        return 'per day';
+      case 'lump-sum':
+        return 'total';
+      case 'per-unit':
+        return `per ${wageUnit || 'unit'}`;
+    }
+  }
+
+  /**
+   * Formats a job's wage for display, e.g. "NPR.12 per kg"
+   */
+  static formatWage(job: Pick<Job, 'wage' | 'wageType' | 'wageUnit'>): string {
+    return `NPR.${job.wage.toLocaleString()} ${WageCalculator.getWageSuffix(job.wageType, job.wageUnit)}`;
+  }
+
+  /**
+   * Converts the job's duration into whole working days (hours round up)
+   */
+  static getWorkingDays(job: Pick<Job, 'duration' | 'durationType'>): number {
+    return job.durationType === 'days' ? job.duration : Math.ceil(job.duration / HOURS_PER_DAY);
+  }
+
+  /**
+   * Converts the job's duration into working hours
+   */
+  static getWorkingHours(job: Pick<Job, 'duration' | 'durationType'>): number {
+    return job.durationType === 'hours' ? job.duration : job.duration * HOURS_PER_DAY;
+  }
+
+  /**
+   * Estimates what one worker earns for the whole job.
+   * Returns null for per-unit jobs without an expected quantity.
+   */
+  static estimateEarnings(job: Job): EarningsEstimate | null {
+    const rate = `NPR.${job.wage.toLocaleString()}`;
+
+    switch (job.wageType) {
+      case 'per-hour': {
+        const hours = WageCalculator.getWorkingHours(job);
+        return { amount: job.wage * hours, breakdown: `${rate} × ${hours} hour${hours !== 1 ? 's' : ''}` };
+      }
+      case 'per-day': {
+        const days = WageCalculator.getWorkingDays(job);
+        return { amount: job.wage * days, breakdown: `${rate} × ${days} day${days !== 1 ? 's' : ''}` };
+      }
+      case 'lump-sum':
+        return { amount: job.wage, breakdown: 'Fixed amount for the whole job' };
+      case 'per-unit':
+        if (!job.estimatedUnits) return null;
+        return {
+          amount: job.wage * job.estimatedUnits,
+          breakdown: `${rate} × ${job.estimatedUnits} ${job.wageUnit || 'unit'} (estimated)`
+        };
+    }
+  }
+
+  /**
+   * Formats the amount of work on a pay line, e.g. "6 days" or "120 kg"
+   */
+  static formatQuantity(line: Pick<PayrollLine, 'quantity' | 'quantityUnit'>): string {
+    if (line.quantityUnit === 'job') return 'whole job';
+    const plural = line.quantity !== 1 && (line.quantityUnit === 'hour' || line.quantityUnit === 'day') ? 's' : '';
+    return `${line.quantity.toLocaleString()} ${line.quantityUnit}${plural}`;
+  }
+}
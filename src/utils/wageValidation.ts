@@ -1,3 +1,5 @@
+import { WageType } from '../types';
+
 export interface WageValidationResult {
   canModify: boolean;
   canIncrease: boolean;
@@ -7,9 +9,62 @@ export interface WageValidationResult {
   maxWage?: number;
 }
 
+// Sensible bounds per wage model, in NPR
+const WAGE_LIMITS: Record<WageType, { min: number; max: number }> = {
+  'per-hour': { min: 1, max: 10000 },
+  'per-day': { min: 1, max: 100000 },
+  'lump-sum': { min: 1, max: 1000000 },
+  'per-unit': { min: 0.01, max: 10000 }
+};
+
 export class WageValidator {
   /**
-   * Validates if wage changes are allowed for a job
+   * Validates a wage amount against the rules for its wage model
+   */
+  static validateWageForType(
+    wage: number,
+    wageType: WageType,
+    wageUnit?: string,
+    estimatedUnits?: number
+  ): { valid: boolean; error?: string } {
+    const limits = WAGE_LIMITS[wageType];
+
+    if (!wage || wage < limits.min) {
+      return { valid: false, error: `Please enter a valid wage amount (minimum NPR.${limits.min})` };
+    }
+
+    if (wage > limits.max) {
+      return { valid: false, error: `Wage amount seems too high. The maximum is NPR.${limits.max.toLocaleString()}.` };
+    }
+
+    // Only piece rates can be fractional (e.g. NPR.2.50 per kg)
+    if (wageType !== 'per-unit' && !Number.isInteger(wage)) {
+      return { valid: false, error: 'Please enter the wage in whole rupees' };
+    }
+
+    if (wageType === 'per-unit') {
+      if (!wageUnit?.trim()) {
+        return { valid: false, error: 'Please enter the unit workers are paid for (e.g. kg, bundle, tree)' };
+      }
+      if (estimatedUnits !== undefined && estimatedUnits <= 0) {
+        return { valid: false, error: 'Expected quantity must be greater than 0' };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Gets the allowed wage range for a wage model
+   */
+  static getWageLimits(wageType: WageType): { min: number; max: number } {
+    return WAGE_LIMITS[wageType];
+  }
+
+
+  /**
+   * Validates if wage changes are allowed for a job.
+   * Once workers have applied the wage may only be raised.
    */
   static validateWageChange(
     currentWage: number,
@@ -26,32 +81,54 @@ export class WageValidator {
       };
     }
 
-    // If applications exist, no wage changes are allowed
-    if (hasApplications) {
-      if (newWage !== currentWage) {
-        const reason = 'Cannot change wage when applications exist. Workers applied based on the original wage amount, and changing it now would be unfair and disruptive to the application process.';
-        
-        return {
-          canModify: false,
-          canIncrease: false,
-          canDecrease: false,
-          reason,
-          minWage: currentWage,
-          maxWage: currentWage
-        };
-      }
+    // Workers applied based on the posted wage, so it must never drop below that
+    if (newWage < currentWage) {
+      const reason = acceptedWorkers > 0
+        ? 'Cannot lower the wage. Workers have already been accepted at the current wage.'
+        : 'Cannot lower the wage. Workers applied based on the current wage amount.';
+
+      return {
+        canModify: false,
+        canIncrease: true,
+        canDecrease: false,
+        reason,
+        minWage: currentWage
+      };
     }
 
-    // If wage is the same, it's allowed
     return {
       canModify: true,
-      canIncrease: false,
+      canIncrease: true,
       canDecrease: false,
-      minWage: currentWage,
-      maxWage: currentWage
+      minWage: currentWage
     };
   }
 
+  /**
+   * Validates a worker's counter-offer. It must ask for more than the
+   * posted wage and stay within the limits for the job's wage model.
+   */
+  static validateCounterOffer(
+    postedWage: number,
+    proposedWage: number,
+    wageType: WageType
+  ): { valid: boolean; error?: string } {
+    if (proposedWage <= postedWage) {
+      return { valid: false, error: `Your offer must be more than the posted wage of NPR.${postedWage.toLocaleString()}` };
+    }
+
+    const limits = WAGE_LIMITS[wageType];
+    if (proposedWage > limits.max) {
+      return { valid: false, error: `Your offer seems too high. The maximum is NPR.${limits.max.toLocaleString()}.` };
+    }
+
+    if (wageType !== 'per-unit' && !Number.isInteger(proposedWage)) {
+      return { valid: false, error: 'Please enter your offer in whole rupees' };
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Gets the minimum allowed wage for a job
    */
@@ -60,10 +137,11 @@ export class WageValidator {
   }
 
   /**
-   * Gets the maximum allowed wage for a job
+   * Gets the maximum allowed wage for a job. Raising is always allowed,
+   * so this no longer depends on whether workers have applied.
    */
-  static getMaximumWage(originalWage: number, hasApplications: boolean): number {
-    return hasApplications ? originalWage : 999999;
+  static getMaximumWage(): number {
+    return 999999;
   }
 
   /**
@@ -75,7 +153,7 @@ export class WageValidator {
     hasApplications: boolean
   ): boolean {
     if (newWage <= 0) return false;
-    if (hasApplications && newWage !== originalWage) return false;
+    if (hasApplications && newWage < originalWage) return false;
     return true;
   }
 
@@ -92,13 +170,10 @@ export class WageValidator {
       return 'Wage must be greater than 0';
     }
 
-    if (!hasApplications) {
+    if (!hasApplications || newWage >= currentWage) {
       return ''; // No restrictions
     }
 
-    // Any wage change when applications exist
-    return `🔒 Wage locked at ₹${currentWage}. Cannot change wage because ${applicationCount} worker${applicationCount !== 1 ? 's have' : ' has'} already applied. Wage modifications are permanently disabled once applications are received.`;
-
-    return '';
+    return `🔒 Wage cannot go below NPR.${currentWage}. ${applicationCount} worker${applicationCount !== 1 ? 's have' : ' has'} already applied, so the wage can only be raised.`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+/*
+  # Atomic accept-application operation
+
+  1. New Functions
+    - `accept_application(p_application_id uuid)`
+      - Locks the job row so concurrent accepts on the same job are serialised
+      - Verifies the caller owns the job and that the job still has open positions
+      - Marks the application as accepted, appends the worker to
+        `accepted_worker_ids` and recomputes the job `status` in one transaction
+      - Returns a jsonb result: `{ success: true, job }` or
+        `{ success: false, error: <code> }`
+
+  2. Error codes
+    - `application_not_found`, `job_not_found`, `not_job_owner`, `job_closed`,
+      `already_accepted`, `application_not_pending`, `job_full`
+
+  3. Security
+    - SECURITY DEFINER with an explicit ownership check against `auth.uid()`
+    - Execute granted to authenticated users only
+*/
+
+CREATE OR REPLACE FUNCTION accept_application(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_accepted uuid[];
+  v_status job_status_enum;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  -- Lock the job first so two farmers' tabs cannot both take the last slot
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status = 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  -- Re-read the application under lock now that the job is held
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status = 'accepted'
+     OR v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = p_application_id;
+
+  v_accepted := array_append(COALESCE(v_job.accepted_worker_ids, '{}'), v_application.worker_id);
+  v_status := v_job.status;
+
+  -- Same rules as JobStatusManager.checkJobStatus
+  IF v_status = 'open' AND array_length(v_accepted, 1) >= v_job.required_workers THEN
+    v_status := 'filled';
+  END IF;
+
+  IF v_job.preferred_date IS NOT NULL
+     AND v_job.preferred_date <= CURRENT_DATE
+     AND v_status IN ('open', 'filled') THEN
+    v_status := 'in-progress';
+  END IF;
+
+  UPDATE jobs
+  SET accepted_worker_ids = v_accepted,
+      status = v_status
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION accept_application(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_application(uuid) TO authenticated;
@@ -0,0 +1,12 @@
+/*
+  # Index for the paginated job feed
+
+  1. Indexes
+    - `idx_jobs_created_at_id` on `jobs(created_at DESC, id DESC)`
+      - Backs the keyset pagination used by `jobStorage.searchJobs`, which
+        orders by `created_at, id` and continues after the last row seen
+    - `idx_jobs_wage` on `jobs(wage)` for the min/max wage filters
+*/
+
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at_id ON jobs(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_wage ON jobs(wage);
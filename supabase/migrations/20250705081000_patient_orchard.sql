@@ -0,0 +1,114 @@
+/*
+  # Server-side job status transitions
+
+  1. New Functions
+    - `compute_job_status(status, accepted_count, required_workers, preferred_date)`
+      - Pure function holding the `open → filled → in-progress` rules that
+        used to live in `JobStatusManager.checkJobStatus`
+    - `apply_job_status_rules()` trigger function
+      - Recomputes `status` whenever a job is inserted or its
+        `accepted_worker_ids`, `required_workers` or `preferred_date` change
+    - `refresh_job_statuses()`
+      - Advances every open/filled job whose status is out of date (for example
+        because its preferred date has arrived) and returns the number updated
+
+  2. Scheduling
+    - `refresh_job_statuses()` runs every 15 minutes through pg_cron, so
+      statuses advance even when nobody has the app open
+
+  3. Security
+    - `refresh_job_statuses()` is SECURITY DEFINER and not executable by
+      client roles; only the scheduler calls it
+*/
+
+CREATE OR REPLACE FUNCTION compute_job_status(
+  p_status job_status_enum,
+  p_accepted_count integer,
+  p_required_workers integer,
+  p_preferred_date date
+)
+RETURNS job_status_enum
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_status job_status_enum := p_status;
+BEGIN
+  -- Auto-change to 'filled' when required workers are reached and job is open
+  IF v_status = 'open' AND p_accepted_count >= p_required_workers THEN
+    v_status := 'filled';
+  END IF;
+
+  -- Auto-change to 'in-progress' if job date has arrived and workers are accepted
+  IF p_preferred_date IS NOT NULL
+     AND p_preferred_date <= CURRENT_DATE
+     AND p_accepted_count > 0
+     AND v_status IN ('open', 'filled') THEN
+    v_status := 'in-progress';
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_job_status_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status := compute_job_status(
+    COALESCE(NEW.status, 'open'),
+    COALESCE(array_length(NEW.accepted_worker_ids, 1), 0),
+    NEW.required_workers,
+    NEW.preferred_date
+  );
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_job_status_rules
+    BEFORE INSERT OR UPDATE OF accepted_worker_ids, required_workers, preferred_date ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_job_status_rules();
+
+CREATE OR REPLACE FUNCTION refresh_job_statuses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE jobs
+  SET status = compute_job_status(
+    status,
+    COALESCE(array_length(accepted_worker_ids, 1), 0),
+    required_workers,
+    preferred_date
+  )
+  WHERE status IN ('open', 'filled')
+    AND status IS DISTINCT FROM compute_job_status(
+      status,
+      COALESCE(array_length(accepted_worker_ids, 1), 0),
+      required_workers,
+      preferred_date
+    );
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_job_statuses() FROM PUBLIC;
+REVOKE ALL ON FUNCTION refresh_job_statuses() FROM anon, authenticated;
+
+-- Schedule the refresh
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-job-statuses',
+  '*/15 * * * *',
+  $$SELECT public.refresh_job_statuses()$$
+);
+
+-- Bring existing rows up to date straight away
+SELECT refresh_job_statuses();
@@ -0,0 +1,13 @@
+/*
+  # Extend job statuses
+
+  1. Enum changes
+    - `job_status_enum` gains `cancelled`, `expired` and `disputed`
+
+  Kept in its own migration because new enum values cannot be used in the
+  same transaction that adds them.
+*/
+
+ALTER TYPE job_status_enum ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE job_status_enum ADD VALUE IF NOT EXISTS 'expired';
+ALTER TYPE job_status_enum ADD VALUE IF NOT EXISTS 'disputed';
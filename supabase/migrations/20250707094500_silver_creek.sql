@@ -0,0 +1,299 @@
+/*
+  # Job lifecycle state machine and status history
+
+  1. New Tables
+    - `job_status_history`
+      - `id` (uuid, primary key)
+      - `job_id` (uuid, references jobs.id)
+      - `from_status` (job_status_enum, null for the first entry)
+      - `to_status` (job_status_enum, not null)
+      - `changed_by` (uuid, references profiles.id, null for automatic changes)
+      - `changed_by_name` (text, snapshot of the actor's name)
+      - `reason` (text, optional)
+      - `changed_at` (timestamptz, default now)
+
+  2. New Functions
+    - `is_valid_job_transition(from, to)` – the transition table, kept in sync
+      with `src/utils/jobStateMachine.ts`
+    - `enforce_job_status_transition()` trigger – rejects illegal status
+      changes on `jobs` with a check_violation error
+    - `record_job_status_change()` trigger – writes every status change to
+      `job_status_history`, taking the reason from the transaction-local
+      setting `app.job_status_reason`
+    - `transition_job_status(job_id, status, reason)` – client entry point for
+      status changes that carry a reason
+
+  3. Changed Functions
+    - `compute_job_status` now also expires open jobs whose preferred date has
+      passed without any accepted workers
+    - `accept_application` reuses `compute_job_status`, refuses jobs that are
+      not open/filled/in-progress and records a reason for the status change
+
+  4. Security
+    - Enable RLS on `job_status_history`
+    - Farmers can read the history of their own jobs
+    - Accepted workers can read the history of jobs they are assigned to
+    - Rows are only written by the SECURITY DEFINER trigger
+*/
+
+-- Transition table
+CREATE OR REPLACE FUNCTION is_valid_job_transition(p_from job_status_enum, p_to job_status_enum)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR (p_from::text, p_to::text) IN (
+    ('open', 'filled'),
+    ('open', 'in-progress'),
+    ('open', 'cancelled'),
+    ('open', 'expired'),
+    ('filled', 'open'),
+    ('filled', 'in-progress'),
+    ('filled', 'cancelled'),
+    ('in-progress', 'completed'),
+    ('in-progress', 'disputed'),
+    ('completed', 'disputed'),
+    ('disputed', 'completed'),
+    ('disputed', 'cancelled'),
+    ('expired', 'open'),
+    ('expired', 'cancelled')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_job_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT is_valid_job_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change job status from "%" to "%"', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Fires after apply_job_status_rules (BEFORE triggers run in name order)
+CREATE TRIGGER enforce_job_status_transition
+    BEFORE UPDATE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_job_status_transition();
+
+-- Status history
+CREATE TABLE IF NOT EXISTS job_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  from_status job_status_enum,
+  to_status job_status_enum NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_by_name text,
+  reason text,
+  changed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE job_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farmers can read status history for their jobs"
+  ON job_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_status_history.job_id
+      AND jobs.farmer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Accepted workers can read status history for their jobs"
+  ON job_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_status_history.job_id
+      AND auth.uid() = ANY(jobs.accepted_worker_ids)
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_job_status_history_job_id ON job_status_history(job_id, changed_at);
+
+CREATE OR REPLACE FUNCTION record_job_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text := NULLIF(current_setting('app.job_status_reason', true), '');
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO job_status_history (job_id, from_status, to_status, changed_by, changed_by_name, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    (SELECT name FROM profiles WHERE id = auth.uid()),
+    COALESCE(
+      v_reason,
+      CASE
+        WHEN TG_OP = 'INSERT' THEN 'Job posted'
+        WHEN auth.uid() IS NULL THEN 'Automatic status update'
+      END
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_job_status_change
+    AFTER INSERT OR UPDATE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION record_job_status_change();
+
+-- Seed one entry per existing job so every history starts somewhere
+INSERT INTO job_status_history (job_id, from_status, to_status, reason, changed_at)
+SELECT id, NULL, status, 'Status when history tracking started', created_at
+FROM jobs;
+
+-- Client entry point for status changes with a reason
+CREATE OR REPLACE FUNCTION transition_job_status(
+  p_job_id uuid,
+  p_status job_status_enum,
+  p_reason text DEFAULT NULL
+)
+RETURNS jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+BEGIN
+  PERFORM set_config('app.job_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE jobs
+  SET status = p_status
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_job_status(uuid, job_status_enum, text) TO authenticated;
+
+-- Expire open jobs nobody was hired for
+CREATE OR REPLACE FUNCTION compute_job_status(
+  p_status job_status_enum,
+  p_accepted_count integer,
+  p_required_workers integer,
+  p_preferred_date date
+)
+RETURNS job_status_enum
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_status job_status_enum := p_status;
+BEGIN
+  -- Auto-change to 'filled' when required workers are reached and job is open
+  IF v_status = 'open' AND p_accepted_count >= p_required_workers THEN
+    v_status := 'filled';
+  END IF;
+
+  -- Auto-change to 'in-progress' if job date has arrived and workers are accepted
+  IF p_preferred_date IS NOT NULL
+     AND p_preferred_date <= CURRENT_DATE
+     AND p_accepted_count > 0
+     AND v_status IN ('open', 'filled') THEN
+    v_status := 'in-progress';
+  END IF;
+
+  -- Auto-change to 'expired' once the job date has passed with nobody accepted
+  IF p_preferred_date IS NOT NULL
+     AND p_preferred_date < CURRENT_DATE
+     AND p_accepted_count = 0
+     AND v_status = 'open' THEN
+    v_status := 'expired';
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_application(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_accepted uuid[];
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  -- Lock the job first so two farmers' tabs cannot both take the last slot
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  -- Re-read the application under lock now that the job is held
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status = 'accepted'
+     OR v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = p_application_id;
+
+  v_accepted := array_append(COALESCE(v_job.accepted_worker_ids, '{}'), v_application.worker_id);
+
+  PERFORM set_config('app.job_status_reason', format('%s accepted', v_application.worker_name), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = v_accepted
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
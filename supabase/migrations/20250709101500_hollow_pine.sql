@@ -0,0 +1,12 @@
+/*
+  # Extend application statuses
+
+  1. Enum changes
+    - `application_status_enum` gains `withdrawn-by-farmer`, used when a farmer
+      deletes a job that workers have applied to
+
+  Kept in its own migration because new enum values cannot be used in the
+  same transaction that adds them.
+*/
+
+ALTER TYPE application_status_enum ADD VALUE IF NOT EXISTS 'withdrawn-by-farmer';
@@ -0,0 +1,198 @@
+/*
+  # Job deletion with soft delete, cascade and notifications
+
+  1. Changed Tables
+    - `jobs`
+      - `deleted_at` (timestamptz, set when a job is soft-deleted)
+      - `deletion_reason` (text, the farmer's reason shown to applicants)
+    - `applications`
+      - `withdrawn_at` (timestamptz, when the application was withdrawn)
+      - `withdrawal_reason` (text, why it was withdrawn)
+
+  2. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.id)
+      - `type` (text, e.g. `job_cancelled`)
+      - `title` (text, not null)
+      - `body` (text, optional)
+      - `job_id` (uuid, references jobs.id, optional)
+      - `read_at` (timestamptz, null until read)
+      - `created_at` (timestamptz, default now)
+
+  3. New Functions
+    - `delete_job(p_job_id uuid, p_reason text)`
+      - Hard-deletes a job nobody has applied to
+      - Otherwise soft-deletes it: cancels the job with the reason, moves every
+        pending or accepted application to `withdrawn-by-farmer`, clears
+        `accepted_worker_ids` and notifies each affected worker
+      - Refuses jobs whose work has started (`in-progress`, `completed`,
+        `disputed`)
+      - Returns `{ success, mode: 'deleted' | 'cancelled', notified }` or
+        `{ success: false, error: <code> }`
+    - `guard_job_delete()` trigger – blocks hard deletes of jobs whose work has
+      started or that still have pending/accepted applications
+    - `has_applied_to_job(job_id)` – RLS helper that avoids a policy cycle
+      between `jobs` and `applications`
+
+  4. Security
+    - Enable RLS on `notifications`; users can read and mark their own
+    - Workers can read jobs they have applied to, so cancelled jobs stay
+      visible in their application list
+*/
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deletion_reason text;
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS withdrawal_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_deleted_at ON jobs(deleted_at);
+
+-- Notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  job_id uuid REFERENCES jobs(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- Workers keep read access to jobs they applied to
+CREATE OR REPLACE FUNCTION has_applied_to_job(p_job_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications
+    WHERE job_id = p_job_id
+    AND worker_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Applicants can read jobs they applied to"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (has_applied_to_job(id));
+
+-- Hard delete guard
+CREATE OR REPLACE FUNCTION guard_job_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('in-progress', 'completed', 'disputed') THEN
+    RAISE EXCEPTION 'Cannot delete a job once work has started'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE job_id = OLD.id
+    AND status IN ('pending', 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete a job with active applications. Cancel it with a reason instead.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_job_delete
+    BEFORE DELETE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_job_delete();
+
+-- Delete / cancel flow
+CREATE OR REPLACE FUNCTION delete_job(p_job_id uuid, p_reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_notified integer;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_deleted');
+  END IF;
+
+  IF v_job.status IN ('in-progress', 'completed', 'disputed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'work_started');
+  END IF;
+
+  -- Nobody ever applied: nothing to keep, remove the row outright
+  IF NOT EXISTS (SELECT 1 FROM applications WHERE job_id = p_job_id) THEN
+    DELETE FROM jobs WHERE id = p_job_id;
+    RETURN jsonb_build_object('success', true, 'mode', 'deleted', 'notified', 0);
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'reason_required');
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT worker_id, 'job_cancelled', format('"%s" was cancelled by the farmer', v_job.title), v_reason, v_job.id
+  FROM applications
+  WHERE job_id = p_job_id
+  AND status IN ('pending', 'accepted');
+
+  GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+  UPDATE applications
+  SET status = 'withdrawn-by-farmer',
+      withdrawn_at = now(),
+      withdrawal_reason = v_reason
+  WHERE job_id = p_job_id
+  AND status IN ('pending', 'accepted');
+
+  PERFORM set_config('app.job_status_reason', v_reason, true);
+
+  UPDATE jobs
+  SET status = 'cancelled',
+      accepted_worker_ids = '{}',
+      deleted_at = now(),
+      deletion_reason = v_reason
+  WHERE id = p_job_id;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object('success', true, 'mode', 'cancelled', 'notified', v_notified);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION delete_job(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION delete_job(uuid, text) TO authenticated;
@@ -0,0 +1,35 @@
+/*
+  # Contact number availability check
+
+  1. New Functions
+    - `is_contact_number_taken(p_contact_number text, p_exclude_user_id uuid)`
+      - Returns true when another profile already uses the number
+      - Compares digits only, matching how the client stores numbers
+      - `p_exclude_user_id` lets a user keep their own number while editing
+
+  2. Security
+    - SECURITY DEFINER so the check works before sign-up completes; it only
+      returns a boolean and never exposes the matching profile
+    - Execute granted to anon (sign-up) and authenticated (profile edits)
+*/
+
+CREATE OR REPLACE FUNCTION is_contact_number_taken(
+  p_contact_number text,
+  p_exclude_user_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles
+    WHERE contact_number = regexp_replace(p_contact_number, '\D', '', 'g')
+      AND (p_exclude_user_id IS NULL OR id <> p_exclude_user_id)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_contact_number_taken(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_contact_number_taken(text, uuid) TO anon, authenticated;
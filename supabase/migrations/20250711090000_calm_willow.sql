@@ -0,0 +1,12 @@
+/*
+  # Worker withdrawal status
+
+  1. Enum changes
+    - `application_status_enum` gains `withdrawn`, used when a worker takes
+      back their own pending or accepted application
+
+  Kept in its own migration because new enum values cannot be used in the
+  same transaction that adds them.
+*/
+
+ALTER TYPE application_status_enum ADD VALUE IF NOT EXISTS 'withdrawn';
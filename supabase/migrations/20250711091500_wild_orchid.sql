@@ -0,0 +1,107 @@
+/*
+  # Cover messages and worker-side withdrawal
+
+  1. Changed Tables
+    - `applications`
+      - `availability_note` (text, optional – when the worker can start or
+        which days they are free)
+
+  2. New Functions
+    - `withdraw_application(p_application_id uuid, p_reason text)`
+      - Lets a worker withdraw their own pending or accepted application
+      - Accepted workers are removed from `accepted_worker_ids`; a filled job
+        with a free position again goes back to `open`, and the job status
+        rules are re-applied by the existing trigger
+      - Accepted withdrawals are refused once work has started
+      - Notifies the farmer with the worker's reason
+      - Returns `{ success: true, job }` or `{ success: false, error: <code> }`
+
+  3. Error codes
+    - `application_not_found`, `not_applicant`, `not_withdrawable`,
+      `work_started`
+
+  4. Security
+    - SECURITY DEFINER with an explicit check that the caller is the applicant
+    - Execute granted to authenticated users only
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS availability_note text;
+
+CREATE OR REPLACE FUNCTION withdraw_application(p_application_id uuid, p_reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_accepted uuid[];
+  v_status job_status_enum;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  IF v_application.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_applicant');
+  END IF;
+
+  -- Same lock order as accept_application: job first, then the application
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status NOT IN ('pending', 'accepted') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_withdrawable');
+  END IF;
+
+  IF v_application.status = 'accepted' AND v_job.status NOT IN ('open', 'filled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'work_started');
+  END IF;
+
+  UPDATE applications
+  SET status = 'withdrawn',
+      withdrawn_at = now(),
+      withdrawal_reason = v_reason
+  WHERE id = p_application_id;
+
+  IF v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    v_accepted := array_remove(v_job.accepted_worker_ids, v_application.worker_id);
+    v_status := v_job.status;
+
+    IF v_status = 'filled' AND COALESCE(array_length(v_accepted, 1), 0) < v_job.required_workers THEN
+      v_status := 'open';
+    END IF;
+
+    PERFORM set_config(
+      'app.job_status_reason',
+      format('%s withdrew%s', v_application.worker_name, COALESCE(': ' || v_reason, '')),
+      true
+    );
+
+    UPDATE jobs
+    SET accepted_worker_ids = v_accepted,
+        status = v_status
+    WHERE id = v_job.id
+    RETURNING * INTO v_job;
+
+    PERFORM set_config('app.job_status_reason', '', true);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_job.farmer_id,
+    'application_withdrawn',
+    format('%s withdrew from "%s"', v_application.worker_name, v_job.title),
+    v_reason,
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION withdraw_application(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION withdraw_application(uuid, text) TO authenticated;
@@ -0,0 +1,273 @@
+/*
+  # Farmer-initiated job invitations
+
+  1. New Tables
+    - `invitations`
+      - `id` (uuid, primary key)
+      - `job_id` (uuid, references jobs.id)
+      - `farmer_id` (uuid, references profiles.id)
+      - `worker_id` (uuid, references profiles.id)
+      - `message` (text, optional note from the farmer)
+      - `status` (text: pending, accepted, declined or cancelled)
+      - `created_at` (timestamptz, default now)
+      - `responded_at` (timestamptz, set when the worker answers or the
+        farmer cancels)
+    - At most one pending invitation per job and worker
+
+  2. New Functions
+    - `invite_worker(p_job_id uuid, p_worker_id uuid, p_message text)`
+      - Farmer-only; the job must be open with a free position
+      - Refuses workers who are already on the job or already invited
+      - Notifies the worker
+    - `respond_to_invitation(p_invitation_id uuid, p_accept boolean)`
+      - Worker-only; declining just closes the invitation
+      - Accepting locks the job and applies the same capacity checks as
+        `accept_application`, then creates (or reuses) an accepted application
+        and appends the worker to `accepted_worker_ids`
+      - Notifies the farmer either way
+    - Both return `{ success: true, ... }` or `{ success: false, error: <code> }`
+
+  3. Error codes
+    - `job_not_found`, `not_job_owner`, `job_closed`, `job_full`,
+      `worker_not_found`, `already_accepted`, `already_invited`,
+      `invitation_not_found`, `not_invitee`, `invitation_closed`
+
+  4. Security
+    - Enable RLS on `invitations`
+    - Farmers can read and cancel invitations they sent
+    - Workers can read invitations sent to them
+    - Invited workers can read the job they were invited to
+    - Invitations are created and answered only through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  farmer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  responded_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending_job_worker
+  ON invitations(job_id, worker_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_invitations_worker_id ON invitations(worker_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invitations_job_id ON invitations(job_id);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farmers can read invitations they sent"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = farmer_id);
+
+CREATE POLICY "Farmers can cancel invitations they sent"
+  ON invitations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = farmer_id AND status = 'pending')
+  WITH CHECK (status = 'cancelled');
+
+CREATE POLICY "Workers can read their invitations"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+-- invitations policies never look at jobs, so this cannot recurse
+CREATE POLICY "Invited workers can read the job"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invitations
+      WHERE invitations.job_id = jobs.id
+      AND invitations.worker_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION invite_worker(p_job_id uuid, p_worker_id uuid, p_message text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_invitation invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status <> 'open' OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_worker_id AND user_type = 'worker') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'worker_not_found');
+  END IF;
+
+  IF p_worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM invitations
+    WHERE job_id = p_job_id
+    AND worker_id = p_worker_id
+    AND status = 'pending'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_invited');
+  END IF;
+
+  INSERT INTO invitations (job_id, farmer_id, worker_id, message)
+  VALUES (p_job_id, v_job.farmer_id, p_worker_id, NULLIF(trim(COALESCE(p_message, '')), ''))
+  RETURNING * INTO v_invitation;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    p_worker_id,
+    'job_invitation',
+    format('%s invited you to "%s"', v_job.farmer_name, v_job.title),
+    v_invitation.message,
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'invitation', to_jsonb(v_invitation));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_invitation(p_invitation_id uuid, p_accept boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation invitations%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_worker profiles%ROWTYPE;
+  v_application applications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation FROM invitations WHERE id = p_invitation_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invitation_not_found');
+  END IF;
+
+  IF v_invitation.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_invitee');
+  END IF;
+
+  -- Lock the job before the invitation, matching accept_application
+  SELECT * INTO v_job FROM jobs WHERE id = v_invitation.job_id FOR UPDATE;
+  SELECT * INTO v_invitation FROM invitations WHERE id = p_invitation_id FOR UPDATE;
+
+  IF v_invitation.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invitation_closed');
+  END IF;
+
+  SELECT * INTO v_worker FROM profiles WHERE id = v_invitation.worker_id;
+
+  IF NOT p_accept THEN
+    UPDATE invitations
+    SET status = 'declined',
+        responded_at = now()
+    WHERE id = p_invitation_id;
+
+    INSERT INTO notifications (user_id, type, title, job_id)
+    VALUES (
+      v_job.farmer_id,
+      'invitation_declined',
+      format('%s declined your invitation to "%s"', v_worker.name, v_job.title),
+      v_job.id
+    );
+
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  IF v_invitation.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  -- Reuse an earlier application (pending, rejected or withdrawn) if there is one
+  SELECT * INTO v_application
+  FROM applications
+  WHERE job_id = v_job.id
+  AND worker_id = v_invitation.worker_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE applications
+    SET status = 'accepted',
+        rejected_at = NULL,
+        withdrawn_at = NULL,
+        withdrawal_reason = NULL
+    WHERE id = v_application.id;
+  ELSE
+    INSERT INTO applications (job_id, worker_id, worker_name, worker_email, message, status)
+    VALUES (
+      v_job.id,
+      v_worker.id,
+      v_worker.name,
+      COALESCE((SELECT email FROM auth.users WHERE id = v_worker.id), ''),
+      v_invitation.message,
+      'accepted'
+    );
+  END IF;
+
+  UPDATE invitations
+  SET status = 'accepted',
+      responded_at = now()
+  WHERE id = p_invitation_id;
+
+  PERFORM set_config('app.job_status_reason', format('%s accepted an invitation', v_worker.name), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = array_append(COALESCE(accepted_worker_ids, '{}'), v_worker.id)
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  INSERT INTO notifications (user_id, type, title, job_id)
+  VALUES (
+    v_job.farmer_id,
+    'invitation_accepted',
+    format('%s accepted your invitation to "%s"', v_worker.name, v_job.title),
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION invite_worker(uuid, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION invite_worker(uuid, uuid, text) TO authenticated;
+
+REVOKE ALL ON FUNCTION respond_to_invitation(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION respond_to_invitation(uuid, boolean) TO authenticated;
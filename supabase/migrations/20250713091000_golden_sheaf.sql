@@ -0,0 +1,39 @@
+/*
+  # Wage models
+
+  1. Changed Tables
+    - `jobs`
+      - `wage_type` (text: per-hour, per-day, lump-sum or per-unit). Existing
+        jobs are backfilled from `duration_type`, which used to double as the
+        wage basis
+      - `wage_unit` (text, e.g. kg, bundle, ropani, tree – required for
+        per-unit wages)
+      - `estimated_units` (numeric, optional – expected quantity per worker,
+        used to estimate earnings for per-unit jobs)
+
+  2. Constraints
+    - Per-unit jobs must name their unit
+    - `estimated_units` must be positive when set
+*/
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_type text;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS wage_unit text;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS estimated_units numeric(10,2);
+
+UPDATE jobs
+SET wage_type = CASE duration_type WHEN 'days' THEN 'per-day' ELSE 'per-hour' END
+WHERE wage_type IS NULL;
+
+ALTER TABLE jobs ALTER COLUMN wage_type SET DEFAULT 'per-hour';
+ALTER TABLE jobs ALTER COLUMN wage_type SET NOT NULL;
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_wage_type_check
+  CHECK (wage_type IN ('per-hour', 'per-day', 'lump-sum', 'per-unit'));
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_wage_unit_check
+  CHECK (wage_type <> 'per-unit' OR NULLIF(trim(wage_unit), '') IS NOT NULL);
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_estimated_units_check
+  CHECK (estimated_units IS NULL OR estimated_units > 0);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_wage_type ON jobs(wage_type);
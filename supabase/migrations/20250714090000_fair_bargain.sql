@@ -0,0 +1,271 @@
+/*
+  # Wage negotiation
+
+  1. Changed Tables
+    - `applications`
+      - `proposed_wage` (numeric, optional counter-offer from the worker)
+      - `proposal_status` (text: pending, accepted or declined; null when the
+        worker took the posted wage)
+      - `agreed_wage` (numeric, the rate this worker is paid when it differs
+        from the job's posted wage)
+
+  2. New Functions
+    - `respond_to_wage_proposal(p_application_id uuid, p_accept boolean)`
+      - Farmer-only; accepting sets `agreed_wage` to the proposed wage
+      - Notifies the worker
+    - `raise_job_wage(p_job_id uuid, p_new_wage numeric)`
+      - Farmer-only; the new wage must be higher than the current one
+      - Agreed or proposed wages at or below the new wage are folded into it
+      - Notifies every pending or accepted applicant
+    - `guard_job_wage_change()` trigger – once anyone has applied, the posted
+      wage and wage model can only change by raising the wage
+    - `guard_application_wage_fields()` trigger – workers can make or clear a
+      counter-offer on their own application but cannot settle it themselves
+
+  3. Changed Functions
+    - `accept_application` refuses applicants with an unanswered counter-offer
+      (`wage_proposal_pending`)
+
+  4. Error codes
+    - `application_not_found`, `job_not_found`, `not_job_owner`, `job_closed`,
+      `no_pending_proposal`, `wage_not_higher`
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS proposed_wage numeric(10,2);
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS proposal_status text;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS agreed_wage numeric(10,2);
+
+ALTER TABLE applications ADD CONSTRAINT applications_proposal_status_check
+  CHECK (proposal_status IS NULL OR proposal_status IN ('pending', 'accepted', 'declined'));
+
+ALTER TABLE applications ADD CONSTRAINT applications_proposed_wage_check
+  CHECK (proposed_wage IS NULL OR proposed_wage > 0);
+
+-- Wage lock: only increases once workers have applied
+CREATE OR REPLACE FUNCTION guard_job_wage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.wage < OLD.wage
+      OR NEW.wage_type IS DISTINCT FROM OLD.wage_type
+      OR NEW.wage_unit IS DISTINCT FROM OLD.wage_unit)
+     AND EXISTS (SELECT 1 FROM applications WHERE job_id = OLD.id) THEN
+    RAISE EXCEPTION 'Once workers have applied the wage can only be raised'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_job_wage_change
+    BEFORE UPDATE OF wage, wage_type, wage_unit ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_job_wage_change();
+
+-- Workers may update their own applications (re-applying), so keep them from
+-- approving their own counter-offer
+CREATE OR REPLACE FUNCTION guard_application_wage_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() = NEW.worker_id
+     AND ((NEW.agreed_wage IS NOT NULL AND NEW.agreed_wage IS DISTINCT FROM OLD.agreed_wage)
+          OR (NEW.proposal_status IN ('accepted', 'declined')
+              AND NEW.proposal_status IS DISTINCT FROM OLD.proposal_status)) THEN
+    RAISE EXCEPTION 'Only the farmer can settle a wage proposal'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_application_wage_fields
+    BEFORE INSERT OR UPDATE OF agreed_wage, proposal_status ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_application_wage_fields();
+
+CREATE OR REPLACE FUNCTION respond_to_wage_proposal(p_application_id uuid, p_accept boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id;
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_application.proposal_status IS DISTINCT FROM 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'no_pending_proposal');
+  END IF;
+
+  UPDATE applications
+  SET proposal_status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      agreed_wage = CASE WHEN p_accept THEN proposed_wage ELSE NULL END
+  WHERE id = p_application_id;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_application.worker_id,
+    CASE WHEN p_accept THEN 'wage_proposal_accepted' ELSE 'wage_proposal_declined' END,
+    CASE WHEN p_accept
+      THEN format('Your asking wage of NPR.%s for "%s" was accepted', v_application.proposed_wage, v_job.title)
+      ELSE format('Your asking wage for "%s" was declined', v_job.title)
+    END,
+    CASE WHEN p_accept THEN NULL ELSE format('The posted wage of NPR.%s still applies.', v_job.wage) END,
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION raise_job_wage(p_job_id uuid, p_new_wage numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_old_wage numeric;
+  v_notified integer;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status IN ('completed', 'cancelled') OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  IF p_new_wage IS NULL OR p_new_wage <= v_job.wage THEN
+    RETURN jsonb_build_object('success', false, 'error', 'wage_not_higher');
+  END IF;
+
+  v_old_wage := v_job.wage;
+
+  UPDATE jobs
+  SET wage = p_new_wage,
+      updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  -- Individual deals the new posted wage already covers no longer apply
+  UPDATE applications
+  SET agreed_wage = NULL
+  WHERE job_id = p_job_id
+  AND agreed_wage <= p_new_wage;
+
+  UPDATE applications
+  SET proposal_status = 'accepted',
+      agreed_wage = NULL
+  WHERE job_id = p_job_id
+  AND proposal_status = 'pending'
+  AND proposed_wage <= p_new_wage;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT
+    worker_id,
+    'wage_raised',
+    format('Wage raised for "%s"', v_job.title),
+    format('The farmer raised the wage from NPR.%s to NPR.%s.', v_old_wage, p_new_wage),
+    v_job.id
+  FROM applications
+  WHERE job_id = p_job_id
+  AND status IN ('pending', 'accepted');
+
+  GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job), 'notified', v_notified);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_application(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_accepted uuid[];
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  -- Lock the job first so two farmers' tabs cannot both take the last slot
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  -- Re-read the application under lock now that the job is held
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status = 'accepted'
+     OR v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF v_application.proposal_status = 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'wage_proposal_pending');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = p_application_id;
+
+  v_accepted := array_append(COALESCE(v_job.accepted_worker_ids, '{}'), v_application.worker_id);
+
+  PERFORM set_config('app.job_status_reason', format('%s accepted', v_application.worker_name), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = v_accepted
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION respond_to_wage_proposal(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION respond_to_wage_proposal(uuid, boolean) TO authenticated;
+
+REVOKE ALL ON FUNCTION raise_job_wage(uuid, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION raise_job_wage(uuid, numeric) TO authenticated;
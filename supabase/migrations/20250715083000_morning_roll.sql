@@ -0,0 +1,316 @@
+/*
+  # Attendance check-in/check-out for accepted workers
+
+  1. New Tables
+    - `attendance`
+      - `id` (uuid, primary key)
+      - `job_id` (uuid, references jobs.id)
+      - `worker_id` (uuid, references profiles.id)
+      - `work_date` (date, the day being recorded)
+      - `status` (text: checked-in, checked-out or no-show)
+      - `check_in_at` / `check_out_at` (timestamptz)
+      - `check_in_latitude` / `check_in_longitude` / `check_in_accuracy_m`
+        and the same for check-out (browser geolocation, optional)
+      - `check_in_distance_m` / `check_out_distance_m` (numeric, how far the
+        worker was from the job's coordinates, when both were known)
+      - `confirmed_at` (timestamptz, set when the farmer confirms the entry)
+      - `confirmed_by` (uuid, references profiles.id)
+      - `farmer_note` (text, the farmer's correction or no-show note)
+      - `created_at` / `updated_at` (timestamptz)
+    - One row per job, worker and day
+
+  2. New Functions
+    - `check_in(p_job_id, p_latitude, p_longitude, p_accuracy_m, p_distance_m)`
+      - Only for workers in `accepted_worker_ids` of an in-progress job
+    - `check_out(p_job_id, p_latitude, p_longitude, p_accuracy_m, p_distance_m)`
+      - Closes today's check-in
+    - `confirm_attendance(p_attendance_id, p_check_in_at, p_check_out_at, p_note)`
+      - Farmer-only; confirms an entry, optionally correcting its times
+    - `mark_no_show(p_job_id, p_worker_id, p_work_date, p_note)`
+      - Farmer-only; records that an accepted worker did not turn up and
+        notifies them
+    - All return `{ success: true, attendance }` or
+      `{ success: false, error: <code> }`
+
+  3. Error codes
+    - `job_not_found`, `not_accepted_worker`, `job_not_started`,
+      `already_checked_in`, `not_checked_in`, `already_checked_out`,
+      `marked_no_show`, `attendance_not_found`, `not_job_owner`,
+      `invalid_times`
+
+  4. Security
+    - Enable RLS on `attendance`
+    - Workers can read their own entries; farmers can read entries for
+      their jobs
+    - Entries are written only through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  work_date date NOT NULL DEFAULT CURRENT_DATE,
+  status text NOT NULL
+    CHECK (status IN ('checked-in', 'checked-out', 'no-show')),
+  check_in_at timestamptz,
+  check_in_latitude numeric(9,6),
+  check_in_longitude numeric(9,6),
+  check_in_accuracy_m numeric(8,1),
+  check_in_distance_m numeric(10,1),
+  check_out_at timestamptz,
+  check_out_latitude numeric(9,6),
+  check_out_longitude numeric(9,6),
+  check_out_accuracy_m numeric(8,1),
+  check_out_distance_m numeric(10,1),
+  confirmed_at timestamptz,
+  confirmed_by uuid REFERENCES profiles(id),
+  farmer_note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, worker_id, work_date),
+  CHECK (check_out_at IS NULL OR check_in_at IS NULL OR check_out_at >= check_in_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_job_id ON attendance(job_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_attendance_worker_id ON attendance(worker_id, work_date DESC);
+
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workers can read their attendance"
+  ON attendance
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+CREATE POLICY "Farmers can read attendance for their jobs"
+  ON attendance
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = attendance.job_id
+      AND jobs.farmer_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_attendance_updated_at
+    BEFORE UPDATE ON attendance
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION check_in(
+  p_job_id uuid,
+  p_latitude numeric DEFAULT NULL,
+  p_longitude numeric DEFAULT NULL,
+  p_accuracy_m numeric DEFAULT NULL,
+  p_distance_m numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_attendance attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF NOT auth.uid() = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_accepted_worker');
+  END IF;
+
+  IF v_job.status <> 'in-progress' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_started');
+  END IF;
+
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = auth.uid() AND work_date = CURRENT_DATE
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_attendance.status = 'no-show' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'marked_no_show');
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_in');
+  END IF;
+
+  INSERT INTO attendance (
+    job_id, worker_id, work_date, status, check_in_at,
+    check_in_latitude, check_in_longitude, check_in_accuracy_m, check_in_distance_m
+  )
+  VALUES (
+    p_job_id, auth.uid(), CURRENT_DATE, 'checked-in', now(),
+    p_latitude, p_longitude, p_accuracy_m, p_distance_m
+  )
+  RETURNING * INTO v_attendance;
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_out(
+  p_job_id uuid,
+  p_latitude numeric DEFAULT NULL,
+  p_longitude numeric DEFAULT NULL,
+  p_accuracy_m numeric DEFAULT NULL,
+  p_distance_m numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendance attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = auth.uid() AND work_date = CURRENT_DATE
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_attendance.status = 'no-show' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_checked_in');
+  END IF;
+
+  IF v_attendance.status = 'checked-out' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_out');
+  END IF;
+
+  UPDATE attendance
+  SET status = 'checked-out',
+      check_out_at = now(),
+      check_out_latitude = p_latitude,
+      check_out_longitude = p_longitude,
+      check_out_accuracy_m = p_accuracy_m,
+      check_out_distance_m = p_distance_m
+  WHERE id = v_attendance.id
+  RETURNING * INTO v_attendance;
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_attendance(
+  p_attendance_id uuid,
+  p_check_in_at timestamptz DEFAULT NULL,
+  p_check_out_at timestamptz DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendance attendance%ROWTYPE;
+  v_check_in timestamptz;
+  v_check_out timestamptz;
+BEGIN
+  SELECT * INTO v_attendance FROM attendance WHERE id = p_attendance_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'attendance_not_found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jobs WHERE id = v_attendance.job_id AND farmer_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  v_check_in := COALESCE(p_check_in_at, v_attendance.check_in_at);
+  v_check_out := COALESCE(p_check_out_at, v_attendance.check_out_at);
+
+  IF v_check_in IS NULL OR (v_check_out IS NOT NULL AND v_check_out < v_check_in) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_times');
+  END IF;
+
+  -- A corrected entry replaces a no-show: the farmer is saying the worker was there
+  UPDATE attendance
+  SET status = CASE WHEN v_check_out IS NULL THEN 'checked-in' ELSE 'checked-out' END,
+      check_in_at = v_check_in,
+      check_out_at = v_check_out,
+      confirmed_at = now(),
+      confirmed_by = auth.uid(),
+      farmer_note = COALESCE(NULLIF(trim(p_note), ''), farmer_note)
+  WHERE id = v_attendance.id
+  RETURNING * INTO v_attendance;
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_no_show(
+  p_job_id uuid,
+  p_worker_id uuid,
+  p_work_date date DEFAULT CURRENT_DATE,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_attendance attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF NOT p_worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_accepted_worker');
+  END IF;
+
+  IF v_job.status <> 'in-progress' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_started');
+  END IF;
+
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = p_worker_id AND work_date = p_work_date
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_attendance.status = 'no-show' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'marked_no_show');
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_in');
+  END IF;
+
+  INSERT INTO attendance (job_id, worker_id, work_date, status, confirmed_at, confirmed_by, farmer_note)
+  VALUES (p_job_id, p_worker_id, p_work_date, 'no-show', now(), auth.uid(), NULLIF(trim(p_note), ''))
+  RETURNING * INTO v_attendance;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    p_worker_id,
+    'marked_no_show',
+    'Marked as absent: ' || v_job.title,
+    COALESCE(NULLIF(trim(p_note), ''), 'The farmer recorded that you did not turn up on ' || to_char(p_work_date, 'Mon DD') || '.'),
+    p_job_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_in(uuid, numeric, numeric, numeric, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_out(uuid, numeric, numeric, numeric, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION confirm_attendance(uuid, timestamptz, timestamptz, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION mark_no_show(uuid, uuid, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION check_in(uuid, numeric, numeric, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_out(uuid, numeric, numeric, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_attendance(uuid, timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_no_show(uuid, uuid, date, text) TO authenticated;
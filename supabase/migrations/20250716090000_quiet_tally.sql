@@ -0,0 +1,470 @@
+/*
+  # Timesheets, pay adjustments and locked job statements
+
+  1. New Tables
+    - `timesheets`
+      - Farmer-entered overrides of what a worker did on a job
+      - `hours_worked`, `days_worked`, `units_completed` (numeric, optional;
+        only the one matching the job's wage model is used)
+      - `note` (text), `updated_by` (uuid), `created_at` / `updated_at`
+      - One row per job and worker
+    - `payroll_adjustments`
+      - `kind` (text: bonus, deduction or advance)
+      - `amount` (numeric, positive), `note` (text), `created_by` (uuid)
+    - `job_statements`
+      - The locked pay statement for one worker on one job
+      - `wage_type`, `rate`, `quantity`, `quantity_unit`, `quantity_source`
+        (attendance, timesheet or planned)
+      - `base_amount`, `bonus_total`, `deduction_total`, `advance_total`,
+        `net_amount` (numeric)
+      - `adjustments` (jsonb, the adjustments included at lock time)
+      - `locked_at` (timestamptz)
+      - One row per job and worker; never updated
+
+  2. New Functions
+    - `compute_job_payroll(p_job_id)`
+      - One row per accepted worker: quantity comes from the farmer's
+        timesheet override, otherwise from attendance (hours between check-in
+        and check-out, or days present), otherwise from the job's planned
+        duration when the job never used attendance
+      - The rate is the worker's agreed wage, falling back to the job wage
+      - Advances and deductions are subtracted from the net amount
+    - `get_job_payroll(p_job_id)`
+      - Returns the locked statements, or a live preview while the job is
+        open; workers only see their own line
+    - `set_timesheet(p_job_id, p_worker_id, p_hours, p_days, p_units, p_note)`
+      - Farmer-only; all-null values remove the override
+    - `add_payroll_adjustment(p_job_id, p_worker_id, p_kind, p_amount, p_note)`
+    - `remove_payroll_adjustment(p_adjustment_id)`
+    - Writes are refused once the job is completed or cancelled
+
+  3. Triggers
+    - `lock_job_statements` writes one statement per accepted worker when a
+      job moves to `completed` and notifies each worker
+
+  4. Error codes
+    - `job_not_found`, `not_job_owner`, `not_job_member`,
+      `not_accepted_worker`, `payroll_locked`, `invalid_amount`,
+      `adjustment_not_found`
+
+  5. Security
+    - Enable RLS on all three tables
+    - Farmers can read rows for their jobs; workers can read their own
+    - Rows are written only through the functions and trigger above
+*/
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hours_worked numeric(6,2) CHECK (hours_worked IS NULL OR hours_worked >= 0),
+  days_worked numeric(5,2) CHECK (days_worked IS NULL OR days_worked >= 0),
+  units_completed numeric(10,2) CHECK (units_completed IS NULL OR units_completed >= 0),
+  note text,
+  updated_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, worker_id)
+);
+
+CREATE TABLE IF NOT EXISTS payroll_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('bonus', 'deduction', 'advance')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  note text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS job_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  wage_type text NOT NULL,
+  rate numeric(10,2) NOT NULL,
+  quantity numeric(10,2) NOT NULL,
+  quantity_unit text NOT NULL,
+  quantity_source text NOT NULL CHECK (quantity_source IN ('attendance', 'timesheet', 'planned')),
+  base_amount numeric(12,2) NOT NULL,
+  bonus_total numeric(12,2) NOT NULL DEFAULT 0,
+  deduction_total numeric(12,2) NOT NULL DEFAULT 0,
+  advance_total numeric(12,2) NOT NULL DEFAULT 0,
+  net_amount numeric(12,2) NOT NULL,
+  adjustments jsonb NOT NULL DEFAULT '[]',
+  locked_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (job_id, worker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_adjustments_job_worker ON payroll_adjustments(job_id, worker_id);
+CREATE INDEX IF NOT EXISTS idx_job_statements_worker_id ON job_statements(worker_id, locked_at DESC);
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farmers can read timesheets for their jobs"
+  ON timesheets
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = timesheets.job_id AND jobs.farmer_id = auth.uid()));
+
+CREATE POLICY "Workers can read their timesheets"
+  ON timesheets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+CREATE POLICY "Farmers can read adjustments for their jobs"
+  ON payroll_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = payroll_adjustments.job_id AND jobs.farmer_id = auth.uid()));
+
+CREATE POLICY "Workers can read their adjustments"
+  ON payroll_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+CREATE POLICY "Farmers can read statements for their jobs"
+  ON job_statements
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_statements.job_id AND jobs.farmer_id = auth.uid()));
+
+CREATE POLICY "Workers can read their statements"
+  ON job_statements
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+CREATE TRIGGER update_timesheets_updated_at
+    BEFORE UPDATE ON timesheets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Assumes 8 working hours a day, like HOURS_PER_DAY in utils/wageCalculator.ts
+CREATE OR REPLACE FUNCTION compute_job_payroll(p_job_id uuid)
+RETURNS TABLE (
+  worker_id uuid,
+  wage_type text,
+  rate numeric,
+  quantity numeric,
+  quantity_unit text,
+  quantity_source text,
+  base_amount numeric,
+  bonus_total numeric,
+  deduction_total numeric,
+  advance_total numeric,
+  net_amount numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH job AS (
+    SELECT
+      j.*,
+      CASE j.duration_type WHEN 'hours' THEN j.duration ELSE j.duration * 8 END AS planned_hours,
+      CASE j.duration_type WHEN 'days' THEN j.duration ELSE ceil(j.duration / 8.0) END AS planned_days,
+      EXISTS (SELECT 1 FROM attendance a WHERE a.job_id = j.id) AS uses_attendance
+    FROM jobs j
+    WHERE j.id = p_job_id
+  ),
+  workers AS (
+    SELECT job.*, w.worker_id
+    FROM job, unnest(COALESCE(job.accepted_worker_ids, '{}')) AS w(worker_id)
+  ),
+  lines AS (
+    SELECT
+      w.worker_id,
+      w.wage_type,
+      COALESCE(app.agreed_wage, w.wage) AS rate,
+      CASE w.wage_type
+        WHEN 'per-hour' THEN COALESCE(ts.hours_worked, CASE WHEN w.uses_attendance THEN att.hours ELSE w.planned_hours END)
+        WHEN 'per-day' THEN COALESCE(ts.days_worked, CASE WHEN w.uses_attendance THEN att.days ELSE w.planned_days END)
+        WHEN 'lump-sum' THEN 1
+        ELSE COALESCE(ts.units_completed, w.estimated_units, 0)
+      END AS quantity,
+      CASE w.wage_type
+        WHEN 'per-hour' THEN 'hour'
+        WHEN 'per-day' THEN 'day'
+        WHEN 'lump-sum' THEN 'job'
+        ELSE COALESCE(w.wage_unit, 'unit')
+      END AS quantity_unit,
+      CASE
+        WHEN w.wage_type = 'lump-sum' THEN 'planned'
+        WHEN w.wage_type = 'per-hour' AND ts.hours_worked IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type = 'per-day' AND ts.days_worked IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type = 'per-unit' AND ts.units_completed IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type IN ('per-hour', 'per-day') AND w.uses_attendance THEN 'attendance'
+        ELSE 'planned'
+      END AS quantity_source,
+      COALESCE(adj.bonus_total, 0) AS bonus_total,
+      COALESCE(adj.deduction_total, 0) AS deduction_total,
+      COALESCE(adj.advance_total, 0) AS advance_total
+    FROM workers w
+    LEFT JOIN applications app
+      ON app.job_id = w.id AND app.worker_id = w.worker_id AND app.status = 'accepted'
+    LEFT JOIN timesheets ts
+      ON ts.job_id = w.id AND ts.worker_id = w.worker_id
+    LEFT JOIN LATERAL (
+      SELECT
+        round(COALESCE(sum(extract(epoch FROM (a.check_out_at - a.check_in_at)) / 3600), 0)::numeric, 2) AS hours,
+        count(*)::numeric AS days
+      FROM attendance a
+      WHERE a.job_id = w.id AND a.worker_id = w.worker_id AND a.status <> 'no-show'
+    ) att ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        sum(pa.amount) FILTER (WHERE pa.kind = 'bonus') AS bonus_total,
+        sum(pa.amount) FILTER (WHERE pa.kind = 'deduction') AS deduction_total,
+        sum(pa.amount) FILTER (WHERE pa.kind = 'advance') AS advance_total
+      FROM payroll_adjustments pa
+      WHERE pa.job_id = w.id AND pa.worker_id = w.worker_id
+    ) adj ON true
+  )
+  SELECT
+    l.worker_id,
+    l.wage_type,
+    l.rate,
+    l.quantity,
+    l.quantity_unit,
+    l.quantity_source,
+    round(l.rate * l.quantity, 2) AS base_amount,
+    l.bonus_total,
+    l.deduction_total,
+    l.advance_total,
+    round(l.rate * l.quantity, 2) + l.bonus_total - l.deduction_total - l.advance_total AS net_amount
+  FROM lines l;
+$$;
+
+CREATE OR REPLACE FUNCTION get_job_payroll(p_job_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_is_farmer boolean;
+  v_lines jsonb;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  v_is_farmer := v_job.farmer_id = auth.uid();
+  IF NOT v_is_farmer
+     AND NOT EXISTS (SELECT 1 FROM job_statements WHERE job_id = p_job_id AND worker_id = auth.uid())
+     AND NOT auth.uid() = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_member');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM job_statements WHERE job_id = p_job_id) THEN
+    SELECT COALESCE(jsonb_agg(to_jsonb(s) ORDER BY s.worker_id), '[]') INTO v_lines
+    FROM job_statements s
+    WHERE s.job_id = p_job_id AND (v_is_farmer OR s.worker_id = auth.uid());
+
+    RETURN jsonb_build_object('success', true, 'locked', true, 'lines', v_lines);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(p) ORDER BY p.worker_id), '[]') INTO v_lines
+  FROM compute_job_payroll(p_job_id) p
+  WHERE v_is_farmer OR p.worker_id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'locked', false, 'lines', v_lines);
+END;
+$$;
+
+-- Shared checks for the farmer-side payroll writes
+CREATE OR REPLACE FUNCTION check_payroll_editable(p_job_id uuid, p_worker_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN 'job_not_found';
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN 'not_job_owner';
+  END IF;
+
+  IF v_job.status IN ('completed', 'cancelled')
+     OR EXISTS (SELECT 1 FROM job_statements WHERE job_id = p_job_id) THEN
+    RETURN 'payroll_locked';
+  END IF;
+
+  IF NOT p_worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN 'not_accepted_worker';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_timesheet(
+  p_job_id uuid,
+  p_worker_id uuid,
+  p_hours numeric DEFAULT NULL,
+  p_days numeric DEFAULT NULL,
+  p_units numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error text;
+  v_timesheet timesheets%ROWTYPE;
+BEGIN
+  v_error := check_payroll_editable(p_job_id, p_worker_id);
+  IF v_error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', v_error);
+  END IF;
+
+  IF p_hours < 0 OR p_days < 0 OR p_units < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_amount');
+  END IF;
+
+  -- Clearing every value goes back to attendance or the planned duration
+  IF p_hours IS NULL AND p_days IS NULL AND p_units IS NULL THEN
+    DELETE FROM timesheets WHERE job_id = p_job_id AND worker_id = p_worker_id;
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  INSERT INTO timesheets (job_id, worker_id, hours_worked, days_worked, units_completed, note, updated_by)
+  VALUES (p_job_id, p_worker_id, p_hours, p_days, p_units, NULLIF(trim(p_note), ''), auth.uid())
+  ON CONFLICT (job_id, worker_id) DO UPDATE
+  SET hours_worked = EXCLUDED.hours_worked,
+      days_worked = EXCLUDED.days_worked,
+      units_completed = EXCLUDED.units_completed,
+      note = EXCLUDED.note,
+      updated_by = EXCLUDED.updated_by
+  RETURNING * INTO v_timesheet;
+
+  RETURN jsonb_build_object('success', true, 'timesheet', to_jsonb(v_timesheet));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_payroll_adjustment(
+  p_job_id uuid,
+  p_worker_id uuid,
+  p_kind text,
+  p_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error text;
+  v_adjustment payroll_adjustments%ROWTYPE;
+BEGIN
+  v_error := check_payroll_editable(p_job_id, p_worker_id);
+  IF v_error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', v_error);
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_kind NOT IN ('bonus', 'deduction', 'advance') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_amount');
+  END IF;
+
+  INSERT INTO payroll_adjustments (job_id, worker_id, kind, amount, note, created_by)
+  VALUES (p_job_id, p_worker_id, p_kind, p_amount, NULLIF(trim(p_note), ''), auth.uid())
+  RETURNING * INTO v_adjustment;
+
+  RETURN jsonb_build_object('success', true, 'adjustment', to_jsonb(v_adjustment));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_payroll_adjustment(p_adjustment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustment payroll_adjustments%ROWTYPE;
+  v_error text;
+BEGIN
+  SELECT * INTO v_adjustment FROM payroll_adjustments WHERE id = p_adjustment_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'adjustment_not_found');
+  END IF;
+
+  v_error := check_payroll_editable(v_adjustment.job_id, v_adjustment.worker_id);
+  IF v_error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', v_error);
+  END IF;
+
+  DELETE FROM payroll_adjustments WHERE id = p_adjustment_id;
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lock_job_statements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO job_statements (
+    job_id, worker_id, wage_type, rate, quantity, quantity_unit, quantity_source,
+    base_amount, bonus_total, deduction_total, advance_total, net_amount, adjustments
+  )
+  SELECT
+    NEW.id, p.worker_id, p.wage_type, p.rate, p.quantity, p.quantity_unit, p.quantity_source,
+    p.base_amount, p.bonus_total, p.deduction_total, p.advance_total, p.net_amount,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('kind', pa.kind, 'amount', pa.amount, 'note', pa.note) ORDER BY pa.created_at)
+      FROM payroll_adjustments pa
+      WHERE pa.job_id = NEW.id AND pa.worker_id = p.worker_id
+    ), '[]')
+  FROM compute_job_payroll(NEW.id) p
+  ON CONFLICT (job_id, worker_id) DO NOTHING;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT
+    s.worker_id,
+    'statement_ready',
+    'Pay statement ready: ' || NEW.title,
+    'You are owed NPR.' || s.net_amount || ' for this job.',
+    NEW.id
+  FROM job_statements s
+  WHERE s.job_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_job_statements
+    AFTER UPDATE OF status ON jobs
+    FOR EACH ROW
+    WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+    EXECUTE FUNCTION lock_job_statements();
+
+REVOKE EXECUTE ON FUNCTION compute_job_payroll(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_payroll_editable(uuid, uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION get_job_payroll(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION set_timesheet(uuid, uuid, numeric, numeric, numeric, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION add_payroll_adjustment(uuid, uuid, text, numeric, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION remove_payroll_adjustment(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_job_payroll(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_timesheet(uuid, uuid, numeric, numeric, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_payroll_adjustment(uuid, uuid, text, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_payroll_adjustment(uuid) TO authenticated;
@@ -0,0 +1,252 @@
+/*
+  # Payment ledger against job statements
+
+  1. New Tables
+    - `payments`
+      - `id` (uuid, primary key)
+      - `statement_id` (uuid, references job_statements.id)
+      - `job_id`, `farmer_id`, `worker_id` (copied from the statement so
+        policies and balances need no joins)
+      - `amount` (numeric, positive)
+      - `method` (text: cash, bank, esewa, khalti or other)
+      - `reference` (text, e.g. a bank or eSewa/Khalti transaction id)
+      - `note` (text)
+      - `status` (text: recorded, confirmed or disputed)
+      - `paid_at` (timestamptz, when the farmer says the money was handed over)
+      - `confirmed_at` (timestamptz, set when the worker confirms receipt)
+      - `disputed_at` / `dispute_reason` (set when the worker disputes it)
+      - `created_at` (timestamptz)
+
+  2. New Views
+    - `statement_balances`
+      - One row per job statement with `paid_amount` (recorded and confirmed
+        payments), `confirmed_amount`, `disputed_amount` and
+        `outstanding_amount`
+      - Runs with the caller's permissions, so everyone sees only their own
+
+  3. New Functions
+    - `record_payment(p_statement_id, p_amount, p_method, p_reference, p_note)`
+      - Farmer-only; refuses amounts above the outstanding balance
+      - Notifies the worker
+    - `confirm_payment(p_payment_id)`
+      - Worker-only; also settles a payment they disputed earlier
+    - `dispute_payment(p_payment_id, p_reason)`
+      - Worker-only; a reason is required and the farmer is notified
+      - Disputed payments no longer count towards what has been paid
+
+  4. Error codes
+    - `statement_not_found`, `not_job_owner`, `invalid_amount`,
+      `exceeds_balance`, `payment_not_found`, `not_payee`,
+      `already_confirmed`, `reason_required`
+
+  5. Security
+    - Enable RLS on `payments`
+    - Farmers and workers can read payments they are part of
+    - Payments are written only through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_id uuid NOT NULL REFERENCES job_statements(id) ON DELETE CASCADE,
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  farmer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'bank', 'esewa', 'khalti', 'other')),
+  reference text,
+  note text,
+  status text NOT NULL DEFAULT 'recorded'
+    CHECK (status IN ('recorded', 'confirmed', 'disputed')),
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  confirmed_at timestamptz,
+  disputed_at timestamptz,
+  dispute_reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_statement_id ON payments(statement_id);
+CREATE INDEX IF NOT EXISTS idx_payments_farmer_id ON payments(farmer_id, paid_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_worker_id ON payments(worker_id, paid_at DESC);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farmers can read payments they made"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = farmer_id);
+
+CREATE POLICY "Workers can read payments made to them"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = worker_id);
+
+CREATE OR REPLACE VIEW statement_balances
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS statement_id,
+  s.job_id,
+  j.title AS job_title,
+  j.farmer_id,
+  s.worker_id,
+  s.net_amount,
+  COALESCE(sum(p.amount) FILTER (WHERE p.status <> 'disputed'), 0) AS paid_amount,
+  COALESCE(sum(p.amount) FILTER (WHERE p.status = 'confirmed'), 0) AS confirmed_amount,
+  COALESCE(sum(p.amount) FILTER (WHERE p.status = 'disputed'), 0) AS disputed_amount,
+  greatest(s.net_amount - COALESCE(sum(p.amount) FILTER (WHERE p.status <> 'disputed'), 0), 0) AS outstanding_amount,
+  s.locked_at
+FROM job_statements s
+JOIN jobs j ON j.id = s.job_id
+LEFT JOIN payments p ON p.statement_id = s.id
+GROUP BY s.id, j.id;
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_statement_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_statement job_statements%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_paid numeric;
+  v_payment payments%ROWTYPE;
+BEGIN
+  -- Lock the statement so two payments recorded at once cannot overpay it
+  SELECT * INTO v_statement FROM job_statements WHERE id = p_statement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'statement_not_found');
+  END IF;
+
+  SELECT * INTO v_job FROM jobs WHERE id = v_statement.job_id;
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_method NOT IN ('cash', 'bank', 'esewa', 'khalti', 'other') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_amount');
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_paid
+  FROM payments
+  WHERE statement_id = p_statement_id AND status <> 'disputed';
+
+  IF v_paid + p_amount > v_statement.net_amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'exceeds_balance');
+  END IF;
+
+  INSERT INTO payments (statement_id, job_id, farmer_id, worker_id, amount, method, reference, note)
+  VALUES (
+    p_statement_id, v_statement.job_id, v_job.farmer_id, v_statement.worker_id,
+    p_amount, p_method, NULLIF(trim(p_reference), ''), NULLIF(trim(p_note), '')
+  )
+  RETURNING * INTO v_payment;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_statement.worker_id,
+    'payment_recorded',
+    'Payment recorded: ' || v_job.title,
+    v_job.farmer_name || ' says they paid you NPR.' || p_amount || '. Please confirm you received it.',
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_payment(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'payment_not_found');
+  END IF;
+
+  IF v_payment.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_payee');
+  END IF;
+
+  IF v_payment.status = 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_confirmed');
+  END IF;
+
+  UPDATE payments
+  SET status = 'confirmed',
+      confirmed_at = now()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dispute_payment(p_payment_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_job_title text;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'payment_not_found');
+  END IF;
+
+  IF v_payment.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_payee');
+  END IF;
+
+  IF v_payment.status = 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_confirmed');
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'reason_required');
+  END IF;
+
+  UPDATE payments
+  SET status = 'disputed',
+      disputed_at = now(),
+      dispute_reason = trim(p_reason)
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  SELECT title INTO v_job_title FROM jobs WHERE id = v_payment.job_id;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_payment.farmer_id,
+    'payment_disputed',
+    'Payment disputed: ' || v_job_title,
+    'A worker says they did not receive NPR.' || v_payment.amount || ': ' || trim(p_reason),
+    v_payment.job_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment(uuid, numeric, text, text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION confirm_payment(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION dispute_payment(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_payment(uuid, numeric, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_payment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION dispute_payment(uuid, text) TO authenticated;
+GRANT SELECT ON statement_balances TO authenticated;
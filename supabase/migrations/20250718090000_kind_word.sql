@@ -0,0 +1,168 @@
+/*
+  # Mutual ratings and reviews after job completion
+
+  1. New Tables
+    - `reviews`
+      - `id` (uuid, primary key)
+      - `job_id` (uuid, references jobs.id)
+      - `reviewer_id` / `reviewee_id` (uuid, references profiles.id)
+      - `reviewer_role` (text: farmer or worker)
+      - `rating` (integer, 1 to 5 stars)
+      - `tags` (text[], e.g. punctual, fair_pay, safe_conditions)
+      - `comment` (text)
+      - `created_at` (timestamptz)
+      - One review per reviewer, reviewee and job
+
+  2. New Views
+    - `rating_summaries`
+      - One row per reviewed user with `review_count`, `average_rating` and
+        `top_tags` (the three most used tags)
+
+  3. New Functions
+    - `submit_review(p_job_id, p_reviewee_id, p_rating, p_tags, p_comment)`
+      - Only once the job is completed
+      - The farmer can rate each accepted worker; each accepted worker can
+        rate the farmer
+      - Notifies the person who was reviewed
+
+  4. Error codes
+    - `job_not_found`, `job_not_completed`, `not_job_member`,
+      `invalid_reviewee`, `invalid_rating`, `invalid_tag`, `already_reviewed`
+
+  5. Security
+    - Enable RLS on `reviews`
+    - Reviews are public to signed-in users so they can judge who to work with
+    - Reviews are written only through `submit_review`
+*/
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reviewee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reviewer_role text NOT NULL CHECK (reviewer_role IN ('farmer', 'worker')),
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  tags text[] NOT NULL DEFAULT '{}' CHECK (tags <@ ARRAY[
+    'punctual', 'hardworking', 'skilled', 'respectful', 'would_work_again',
+    'fair_pay', 'paid_on_time', 'safe_conditions', 'clear_instructions'
+  ]),
+  comment text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, reviewer_id, reviewee_id),
+  CHECK (reviewer_id <> reviewee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewee_id ON reviews(reviewee_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_job_id ON reviews(job_id);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read reviews"
+  ON reviews
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE VIEW rating_summaries
+WITH (security_invoker = true) AS
+SELECT
+  r.reviewee_id AS user_id,
+  count(*)::integer AS review_count,
+  round(avg(r.rating), 1) AS average_rating,
+  COALESCE((
+    SELECT array_agg(t.tag ORDER BY t.uses DESC, t.tag)
+    FROM (
+      SELECT tag, count(*) AS uses
+      FROM reviews r2, unnest(r2.tags) AS tag
+      WHERE r2.reviewee_id = r.reviewee_id
+      GROUP BY tag
+      ORDER BY uses DESC, tag
+      LIMIT 3
+    ) t
+  ), '{}') AS top_tags
+FROM reviews r
+GROUP BY r.reviewee_id;
+
+CREATE OR REPLACE FUNCTION submit_review(
+  p_job_id uuid,
+  p_reviewee_id uuid,
+  p_rating integer,
+  p_tags text[] DEFAULT '{}',
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_role text;
+  v_reviewer_name text;
+  v_review reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.status <> 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_completed');
+  END IF;
+
+  -- Farmers review the workers they hired; workers review the farmer
+  IF v_job.farmer_id = auth.uid() THEN
+    v_role := 'farmer';
+    IF NOT (p_reviewee_id = ANY(v_job.accepted_worker_ids)) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'invalid_reviewee');
+    END IF;
+  ELSIF auth.uid() = ANY(v_job.accepted_worker_ids) THEN
+    v_role := 'worker';
+    IF p_reviewee_id IS DISTINCT FROM v_job.farmer_id THEN
+      RETURN jsonb_build_object('success', false, 'error', 'invalid_reviewee');
+    END IF;
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_member');
+  END IF;
+
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_rating');
+  END IF;
+
+  IF NOT (COALESCE(p_tags, '{}') <@ ARRAY[
+    'punctual', 'hardworking', 'skilled', 'respectful', 'would_work_again',
+    'fair_pay', 'paid_on_time', 'safe_conditions', 'clear_instructions'
+  ]) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_tag');
+  END IF;
+
+  INSERT INTO reviews (job_id, reviewer_id, reviewee_id, reviewer_role, rating, tags, comment)
+  VALUES (
+    p_job_id, auth.uid(), p_reviewee_id, v_role, p_rating,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_tags, '{}'))), NULLIF(trim(p_comment), '')
+  )
+  ON CONFLICT (job_id, reviewer_id, reviewee_id) DO NOTHING
+  RETURNING * INTO v_review;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_reviewed');
+  END IF;
+
+  SELECT name INTO v_reviewer_name FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    p_reviewee_id,
+    'review_received',
+    'New review: ' || v_job.title,
+    v_reviewer_name || ' rated you ' || p_rating || ' out of 5.',
+    p_job_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'review', to_jsonb(v_review));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_review(uuid, uuid, integer, text[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION submit_review(uuid, uuid, integer, text[], text) TO authenticated;
+GRANT SELECT ON rating_summaries TO authenticated;
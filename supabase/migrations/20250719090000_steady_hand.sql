@@ -0,0 +1,127 @@
+/*
+  # Worker reliability profile computed from history
+
+  1. Changed Tables
+    - `applications`
+      - `accepted_at` (timestamptz) – when the application was last accepted,
+        so a later withdrawal can be told apart from dropping a pending one;
+        cleared when the worker applies again
+
+  2. New Views
+    - `worker_reliability`
+      - One row per worker:
+        - `jobs_accepted` – jobs the worker committed to that have ended
+          (completed, or withdrawn from after being accepted)
+        - `jobs_completed` – completed jobs the worker was hired on
+        - `completion_rate` – completed / committed, as a percentage
+        - `no_shows` and `attendance_days` (days checked in)
+        - `late_withdrawals` – withdrawals after being accepted
+        - `average_rating` / `review_count` – farmer reviews only
+        - `farmers_worked_for` and `rehire_rate` – share of those farmers who
+          hired the worker on more than one completed job
+      - Rates are null until there is history to base them on
+      - Runs with the view owner's permissions so farmers see figures that
+        span other farmers' jobs; only aggregates are exposed
+
+  3. Triggers
+    - `track_application_acceptance` stamps and clears `accepted_at`
+
+  4. Security
+    - Read access on the view for authenticated users
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+
+-- Best guess for applications accepted before this column existed
+UPDATE applications
+SET accepted_at = updated_at
+WHERE status = 'accepted' AND accepted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION track_application_acceptance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    NEW.accepted_at = now();
+  ELSIF NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending' THEN
+    NEW.accepted_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER track_application_acceptance
+    BEFORE UPDATE OF status ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION track_application_acceptance();
+
+CREATE OR REPLACE VIEW worker_reliability AS
+WITH hires AS (
+  SELECT j.farmer_id, w.worker_id
+  FROM jobs j, unnest(j.accepted_worker_ids) AS w(worker_id)
+  WHERE j.status = 'completed' AND j.deleted_at IS NULL
+),
+completed AS (
+  SELECT
+    worker_id,
+    count(*) AS jobs_completed,
+    count(DISTINCT farmer_id) AS farmers_worked_for
+  FROM hires
+  GROUP BY worker_id
+),
+rehired AS (
+  SELECT worker_id, count(*) AS farmers_rehired
+  FROM (
+    SELECT worker_id, farmer_id
+    FROM hires
+    GROUP BY worker_id, farmer_id
+    HAVING count(*) > 1
+  ) repeat_farmers
+  GROUP BY worker_id
+),
+withdrawals AS (
+  SELECT worker_id, count(*) AS late_withdrawals
+  FROM applications
+  WHERE status = 'withdrawn' AND accepted_at IS NOT NULL
+  GROUP BY worker_id
+),
+attended AS (
+  SELECT
+    worker_id,
+    count(*) FILTER (WHERE status = 'no-show') AS no_shows,
+    count(*) FILTER (WHERE status <> 'no-show') AS attendance_days
+  FROM attendance
+  GROUP BY worker_id
+),
+rated AS (
+  SELECT reviewee_id AS worker_id, count(*) AS review_count, round(avg(rating), 1) AS average_rating
+  FROM reviews
+  WHERE reviewer_role = 'farmer'
+  GROUP BY reviewee_id
+)
+SELECT
+  p.id AS worker_id,
+  (COALESCE(c.jobs_completed, 0) + COALESCE(w.late_withdrawals, 0))::integer AS jobs_accepted,
+  COALESCE(c.jobs_completed, 0)::integer AS jobs_completed,
+  CASE
+    WHEN COALESCE(c.jobs_completed, 0) + COALESCE(w.late_withdrawals, 0) = 0 THEN NULL
+    ELSE round(100.0 * COALESCE(c.jobs_completed, 0) / (COALESCE(c.jobs_completed, 0) + COALESCE(w.late_withdrawals, 0)))
+  END AS completion_rate,
+  COALESCE(a.no_shows, 0)::integer AS no_shows,
+  COALESCE(a.attendance_days, 0)::integer AS attendance_days,
+  COALESCE(w.late_withdrawals, 0)::integer AS late_withdrawals,
+  r.average_rating,
+  COALESCE(r.review_count, 0)::integer AS review_count,
+  COALESCE(c.farmers_worked_for, 0)::integer AS farmers_worked_for,
+  CASE
+    WHEN COALESCE(c.farmers_worked_for, 0) = 0 THEN NULL
+    ELSE round(100.0 * COALESCE(rh.farmers_rehired, 0) / c.farmers_worked_for)
+  END AS rehire_rate
+FROM profiles p
+LEFT JOIN completed c ON c.worker_id = p.id
+LEFT JOIN rehired rh ON rh.worker_id = p.id
+LEFT JOIN withdrawals w ON w.worker_id = p.id
+LEFT JOIN attended a ON a.worker_id = p.id
+LEFT JOIN rated r ON r.worker_id = p.id
+WHERE p.user_type = 'worker';
+
+GRANT SELECT ON worker_reliability TO authenticated;
@@ -0,0 +1,31 @@
+/*
+  # Applicant shortlist
+
+  1. Changed Tables
+    - `applications`
+      - `shortlisted_at` (timestamptz) – set when the farmer shortlists the
+        applicant, cleared when they remove them from the shortlist
+
+  2. New Functions
+    - `guard_application_shortlist()` trigger – only the job's farmer can
+      change the shortlist; workers updating their own application cannot
+*/
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS shortlisted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION guard_application_shortlist()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() = NEW.worker_id
+     AND NEW.shortlisted_at IS DISTINCT FROM OLD.shortlisted_at THEN
+    RAISE EXCEPTION 'Only the farmer can shortlist applicants'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_application_shortlist
+    BEFORE UPDATE OF shortlisted_at ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_application_shortlist();
@@ -0,0 +1,175 @@
+/*
+  # Bulk accept and reject applicants
+
+  1. New Functions
+    - `accept_applications(p_job_id uuid, p_application_ids uuid[])`
+      - Accepts every selected application in one transaction, or none:
+        the whole selection is refused when it does not fit in the job's
+        remaining positions or contains an application that cannot be
+        accepted on its own
+      - Returns `{ success: true, job, accepted_count }`
+    - `reject_applications(p_job_id uuid, p_application_ids uuid[], p_message text)`
+      - Rejects the selected pending applications, or every remaining
+        pending application when no ids are given
+      - Notifies each rejected worker, with the farmer's message if any
+      - Returns `{ success: true, rejected_count }`
+
+  2. Error codes
+    - `job_not_found`, `not_job_owner`, `job_closed`, `nothing_selected`,
+      `application_not_found`, `already_accepted`, `application_not_pending`,
+      `wage_proposal_pending`, `not_enough_positions` (with `remaining`)
+
+  3. Security
+    - SECURITY DEFINER with an explicit check that the caller owns the job
+    - Execute granted to authenticated users only
+*/
+
+CREATE OR REPLACE FUNCTION accept_applications(p_job_id uuid, p_application_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_application_ids, '{}')));
+  v_found integer;
+  v_remaining integer;
+  v_worker_ids uuid[];
+BEGIN
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'nothing_selected');
+  END IF;
+
+  -- Same lock order as accept_application: job first, then the applications
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  PERFORM 1 FROM applications
+  WHERE id = ANY(v_ids) AND job_id = p_job_id
+  ORDER BY id
+  FOR UPDATE;
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  IF v_found <> array_length(v_ids, 1) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE id = ANY(v_ids)
+      AND (status = 'accepted' OR worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM applications WHERE id = ANY(v_ids) AND status <> 'pending') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM applications WHERE id = ANY(v_ids) AND proposal_status = 'pending') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'wage_proposal_pending');
+  END IF;
+
+  v_remaining := v_job.required_workers - COALESCE(array_length(v_job.accepted_worker_ids, 1), 0);
+  IF array_length(v_ids, 1) > v_remaining THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_enough_positions',
+      'remaining', greatest(v_remaining, 0)
+    );
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = ANY(v_ids);
+
+  SELECT array_agg(worker_id ORDER BY applied_at) INTO v_worker_ids
+  FROM applications
+  WHERE id = ANY(v_ids);
+
+  PERFORM set_config('app.job_status_reason', format('%s workers accepted', array_length(v_ids, 1)), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = COALESCE(accepted_worker_ids, '{}') || v_worker_ids
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'job', to_jsonb(v_job),
+    'accepted_count', array_length(v_ids, 1)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_applications(
+  p_job_id uuid,
+  p_application_ids uuid[] DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_message text := NULLIF(trim(COALESCE(p_message, '')), '');
+  v_rejected integer;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF p_application_ids IS NOT NULL AND COALESCE(array_length(p_application_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'nothing_selected');
+  END IF;
+
+  WITH rejected AS (
+    UPDATE applications
+    SET status = 'rejected',
+        rejected_at = now()
+    WHERE job_id = p_job_id
+      AND status = 'pending'
+      AND (p_application_ids IS NULL OR id = ANY(p_application_ids))
+    RETURNING worker_id
+  )
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT
+    worker_id,
+    'application_rejected',
+    format('Your application for "%s" was not accepted', v_job.title),
+    v_message,
+    v_job.id
+  FROM rejected;
+
+  GET DIAGNOSTICS v_rejected = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'rejected_count', v_rejected);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION accept_applications(uuid, uuid[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION reject_applications(uuid, uuid[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_applications(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_applications(uuid, uuid[], text) TO authenticated;
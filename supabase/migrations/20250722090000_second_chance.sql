@@ -0,0 +1,503 @@
+/*
+  # Applicant waitlist with automatic backfill
+
+  1. Changed Tables
+    - `jobs`
+      - `waitlist_enabled` (boolean, default false) – when a hired worker
+        drops out, the place is offered to the next waitlisted applicant
+        instead of reopening the job straight away
+    - `applications`
+      - `waitlist_position` (integer) – the farmer's order for pending
+        applicants; unordered applicants follow in the order they applied
+      - `offered_at` (timestamptz) – when a freed place was offered to this
+        applicant; each applicant is offered a place at most once
+      - `offer_expires_at` (timestamptz) – the applicant must confirm before
+        this time, after which the place goes to the next in line
+
+  2. New Functions
+    - `fill_from_waitlist(p_job_id uuid, p_reason text)`
+      - Offers every free place on a filled or in-progress job to the next
+        waitlisted applicants, 12 hours each to confirm
+      - A filled job with a free place and nobody left to offer it to goes
+        back to `open`
+      - Internal; called by the functions below and the scheduler
+    - `set_waitlist(p_job_id uuid, p_enabled boolean, p_application_ids uuid[])`
+      - Turns waitlist mode on or off and, when ids are given, stores their
+        order as the waitlist
+      - Turning it off withdraws outstanding offers
+    - `respond_to_waitlist_offer(p_application_id uuid, p_accept boolean)`
+      - The offered worker confirms (and is accepted) or declines (and is
+        withdrawn, passing the place on)
+    - `guard_application_waitlist()` trigger – workers cannot reorder the
+      waitlist or change their offer
+
+  3. Changed Functions
+    - `withdraw_application` hands the freed place to the waitlist; the job
+      only reopens when nobody is waiting
+    - `mark_no_show` releases the place of a worker in a waitlisted job who
+      has not checked in on any day, and offers it to the waitlist
+    - `refresh_job_statuses` follows up on expired offers before advancing
+      statuses, so an unanswered offer moves on within 15 minutes
+
+  4. Error codes
+    - `job_not_found`, `not_job_owner`, `job_closed`, `application_not_found`,
+      `not_applicant`, `no_offer`, `offer_expired`, `job_full`
+
+  5. Security
+    - SECURITY DEFINER with explicit owner/applicant checks
+    - `fill_from_waitlist` is not executable by client roles
+*/
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS waitlist_enabled boolean NOT NULL DEFAULT false;
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS waitlist_position integer;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS offered_at timestamptz;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS offer_expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_applications_offer_expires_at
+  ON applications(offer_expires_at)
+  WHERE status = 'pending' AND offer_expires_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION guard_application_waitlist()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() = NEW.worker_id
+     AND (NEW.waitlist_position IS DISTINCT FROM OLD.waitlist_position
+       OR NEW.offered_at IS DISTINCT FROM OLD.offered_at
+       OR NEW.offer_expires_at IS DISTINCT FROM OLD.offer_expires_at) THEN
+    RAISE EXCEPTION 'Only the farmer can manage the waitlist'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_application_waitlist
+    BEFORE UPDATE OF waitlist_position, offered_at, offer_expires_at ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_application_waitlist();
+
+CREATE OR REPLACE FUNCTION fill_from_waitlist(p_job_id uuid, p_reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_next applications%ROWTYPE;
+  v_free integer;
+  v_offered integer := 0;
+  v_expires timestamptz := now() + interval '12 hours';
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND OR v_job.status NOT IN ('filled', 'in-progress') THEN
+    RETURN 0;
+  END IF;
+
+  -- Places that are neither taken nor waiting on an answer
+  v_free := v_job.required_workers
+    - COALESCE(array_length(v_job.accepted_worker_ids, 1), 0)
+    - (
+      SELECT count(*)::integer FROM applications
+      WHERE job_id = p_job_id AND status = 'pending' AND offer_expires_at > now()
+    );
+
+  WHILE v_job.waitlist_enabled AND v_free > 0 LOOP
+    -- Applicants still negotiating the wage are skipped, as in accept_applications
+    SELECT * INTO v_next
+    FROM applications
+    WHERE job_id = p_job_id
+      AND status = 'pending'
+      AND offered_at IS NULL
+      AND proposal_status IS DISTINCT FROM 'pending'
+    ORDER BY waitlist_position NULLS LAST, applied_at
+    LIMIT 1
+    FOR UPDATE;
+
+    EXIT WHEN NOT FOUND;
+
+    UPDATE applications
+    SET offered_at = now(),
+        offer_expires_at = v_expires
+    WHERE id = v_next.id;
+
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    VALUES (
+      v_next.worker_id,
+      'waitlist_offer',
+      format('A place opened up on "%s"', v_job.title),
+      'Confirm by ' || to_char(v_expires, 'Mon DD HH24:MI') || ' to take it, or it goes to the next worker on the waitlist.',
+      v_job.id
+    );
+
+    v_offered := v_offered + 1;
+    v_free := v_free - 1;
+  END LOOP;
+
+  -- Nobody left to offer the place to: take applications again
+  IF v_free > 0 AND v_job.status = 'filled' THEN
+    PERFORM set_config(
+      'app.job_status_reason',
+      COALESCE(p_reason, 'Nobody on the waitlist took the free place'),
+      true
+    );
+
+    UPDATE jobs SET status = 'open' WHERE id = v_job.id;
+
+    PERFORM set_config('app.job_status_reason', '', true);
+  END IF;
+
+  RETURN v_offered;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_waitlist(
+  p_job_id uuid,
+  p_enabled boolean,
+  p_application_ids uuid[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  UPDATE jobs SET waitlist_enabled = p_enabled WHERE id = v_job.id;
+
+  IF p_application_ids IS NOT NULL THEN
+    UPDATE applications
+    SET waitlist_position = array_position(p_application_ids, id)
+    WHERE job_id = p_job_id AND status = 'pending';
+  END IF;
+
+  IF NOT p_enabled THEN
+    UPDATE applications
+    SET offer_expires_at = now()
+    WHERE job_id = p_job_id AND status = 'pending' AND offer_expires_at > now();
+  END IF;
+
+  PERFORM fill_from_waitlist(v_job.id, CASE WHEN NOT p_enabled THEN 'Waitlist turned off' END);
+
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_waitlist_offer(p_application_id uuid, p_accept boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  IF v_application.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_applicant');
+  END IF;
+
+  -- Same lock order as accept_application: job first, then the application
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status <> 'pending' OR v_application.offered_at IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'no_offer');
+  END IF;
+
+  IF v_application.offer_expires_at <= now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'offer_expired');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE applications
+    SET status = 'withdrawn',
+        withdrawn_at = now(),
+        withdrawal_reason = 'Declined the waitlist place'
+    WHERE id = p_application_id;
+
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    VALUES (
+      v_job.farmer_id,
+      'waitlist_offer_declined',
+      format('%s declined the free place on "%s"', v_application.worker_name, v_job.title),
+      NULL,
+      v_job.id
+    );
+
+    PERFORM fill_from_waitlist(v_job.id, format('%s declined the waitlist place', v_application.worker_name));
+
+    SELECT * INTO v_job FROM jobs WHERE id = v_job.id;
+
+    RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = p_application_id;
+
+  PERFORM set_config(
+    'app.job_status_reason',
+    format('%s took a place from the waitlist', v_application.worker_name),
+    true
+  );
+
+  -- apply_job_status_rules moves a reopened job back to filled when this was the last place
+  UPDATE jobs
+  SET accepted_worker_ids = array_append(COALESCE(accepted_worker_ids, '{}'), v_application.worker_id)
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_job.farmer_id,
+    'waitlist_offer_accepted',
+    format('%s took the free place on "%s"', v_application.worker_name, v_job.title),
+    NULL,
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_application(p_application_id uuid, p_reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_reason text := NULLIF(trim(COALESCE(p_reason, '')), '');
+  v_status_reason text;
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  IF v_application.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_applicant');
+  END IF;
+
+  -- Same lock order as accept_application: job first, then the application
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status NOT IN ('pending', 'accepted') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_withdrawable');
+  END IF;
+
+  IF v_application.status = 'accepted' AND v_job.status NOT IN ('open', 'filled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'work_started');
+  END IF;
+
+  UPDATE applications
+  SET status = 'withdrawn',
+      withdrawn_at = now(),
+      withdrawal_reason = v_reason
+  WHERE id = p_application_id;
+
+  IF v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    v_status_reason := format('%s withdrew%s', v_application.worker_name, COALESCE(': ' || v_reason, ''));
+
+    PERFORM set_config('app.job_status_reason', v_status_reason, true);
+
+    UPDATE jobs
+    SET accepted_worker_ids = array_remove(accepted_worker_ids, v_application.worker_id)
+    WHERE id = v_job.id;
+
+    PERFORM set_config('app.job_status_reason', '', true);
+
+    -- Offers the place to the waitlist, or reopens the job when nobody is waiting
+    PERFORM fill_from_waitlist(v_job.id, v_status_reason);
+
+    SELECT * INTO v_job FROM jobs WHERE id = v_job.id;
+  ELSIF v_application.offer_expires_at > now() THEN
+    -- Withdrawing with an offer outstanding passes the place on
+    PERFORM fill_from_waitlist(v_job.id, v_status_reason);
+
+    SELECT * INTO v_job FROM jobs WHERE id = v_job.id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_job.farmer_id,
+    'application_withdrawn',
+    format('%s withdrew from "%s"', v_application.worker_name, v_job.title),
+    v_reason,
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_no_show(
+  p_job_id uuid,
+  p_worker_id uuid,
+  p_work_date date DEFAULT CURRENT_DATE,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_attendance attendance%ROWTYPE;
+  v_released boolean := false;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF NOT p_worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_accepted_worker');
+  END IF;
+
+  IF v_job.status <> 'in-progress' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_started');
+  END IF;
+
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = p_worker_id AND work_date = p_work_date
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_attendance.status = 'no-show' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'marked_no_show');
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_in');
+  END IF;
+
+  INSERT INTO attendance (job_id, worker_id, work_date, status, confirmed_at, confirmed_by, farmer_note)
+  VALUES (p_job_id, p_worker_id, p_work_date, 'no-show', now(), auth.uid(), NULLIF(trim(p_note), ''))
+  RETURNING * INTO v_attendance;
+
+  -- A worker who has never turned up gives their place to the waitlist;
+  -- anyone who has worked a day keeps it and is only marked absent
+  IF v_job.waitlist_enabled AND NOT EXISTS (
+    SELECT 1 FROM attendance
+    WHERE job_id = p_job_id AND worker_id = p_worker_id AND status <> 'no-show'
+  ) THEN
+    UPDATE applications
+    SET status = 'withdrawn-by-farmer',
+        withdrawn_at = now(),
+        withdrawal_reason = 'Did not turn up'
+    WHERE job_id = p_job_id AND worker_id = p_worker_id AND status = 'accepted';
+
+    UPDATE jobs
+    SET accepted_worker_ids = array_remove(accepted_worker_ids, p_worker_id)
+    WHERE id = v_job.id;
+
+    PERFORM fill_from_waitlist(v_job.id);
+    v_released := true;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    p_worker_id,
+    'marked_no_show',
+    'Marked as absent: ' || v_job.title,
+    COALESCE(
+      NULLIF(trim(p_note), ''),
+      'The farmer recorded that you did not turn up on ' || to_char(p_work_date, 'Mon DD') || '.'
+    ) || CASE WHEN v_released THEN ' Your place has been given to another worker.' ELSE '' END,
+    p_job_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance), 'released', v_released);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_job_statuses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  -- Pass places whose offer ran out to the next on the waitlist, or reopen the job
+  PERFORM fill_from_waitlist(j.id)
+  FROM jobs j
+  WHERE j.status IN ('filled', 'in-progress')
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      WHERE a.job_id = j.id AND a.status = 'pending' AND a.offer_expires_at <= now()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM applications a
+      WHERE a.job_id = j.id AND a.status = 'pending' AND a.offer_expires_at > now()
+    );
+
+  UPDATE jobs
+  SET status = compute_job_status(
+    status,
+    COALESCE(array_length(accepted_worker_ids, 1), 0),
+    required_workers,
+    preferred_date
+  )
+  WHERE status IN ('open', 'filled')
+    AND status IS DISTINCT FROM compute_job_status(
+      status,
+      COALESCE(array_length(accepted_worker_ids, 1), 0),
+      required_workers,
+      preferred_date
+    );
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION fill_from_waitlist(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION fill_from_waitlist(uuid, text) FROM anon, authenticated;
+REVOKE ALL ON FUNCTION set_waitlist(uuid, boolean, uuid[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION respond_to_waitlist_offer(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_waitlist(uuid, boolean, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_waitlist_offer(uuid, boolean) TO authenticated;
@@ -0,0 +1,28 @@
+/*
+  # Realtime updates for jobs and applications
+
+  1. Publication
+    - `jobs` and `applications` join the `supabase_realtime` publication so
+      the job feed, My Jobs and the applicant list update without reloading
+
+  2. Security
+    - Realtime applies the existing row level security policies, so each
+      client only receives changes to rows it can already read
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE jobs;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'applications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE applications;
+  END IF;
+END $$;
@@ -0,0 +1,223 @@
+/*
+  # Notification center
+
+  1. New Functions
+    - `notify_application_change()` trigger on `applications`
+      - `new_applicant` to the farmer when a worker applies or reapplies
+      - `application_accepted` to the worker when the farmer hires them
+      - `application_rejected` to the worker, with the farmer's message taken
+        from the transaction-local setting `app.rejection_message`
+    - `notify_job_change()` trigger on `jobs`
+      - `job_cancelled` to hired and pending workers when a job is cancelled
+        through a status change; `delete_job` keeps sending its own
+    - `notify_jobs_starting_tomorrow()`
+      - `job_starting_tomorrow` to the farmer and every hired worker of open
+        or filled jobs whose preferred date is tomorrow, once per job
+      - Runs hourly through pg_cron so jobs posted late in the day are covered
+
+  2. Changed Functions
+    - `reject_applications` leaves notifying to the trigger and hands it the
+      farmer's message instead
+
+  3. Publication
+    - `notifications` joins `supabase_realtime` so the unread badge updates live
+
+  4. Security
+    - Trigger functions are SECURITY DEFINER; there is still no insert policy
+      on `notifications`, so clients cannot create them directly
+    - `notify_jobs_starting_tomorrow()` is not executable by client roles
+*/
+
+CREATE OR REPLACE FUNCTION notify_application_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_job FROM jobs WHERE id = NEW.job_id;
+
+  IF NEW.status = 'pending' THEN
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    VALUES (
+      v_job.farmer_id,
+      'new_applicant',
+      format('%s applied to "%s"', NEW.worker_name, v_job.title),
+      NEW.message,
+      v_job.id
+    );
+  ELSIF NEW.status = 'accepted' AND auth.uid() IS DISTINCT FROM NEW.worker_id THEN
+    -- Workers accepting an invitation or a waitlist place hired themselves
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    VALUES (
+      NEW.worker_id,
+      'application_accepted',
+      format('You were hired for "%s"', v_job.title),
+      CASE
+        WHEN v_job.preferred_date IS NOT NULL
+        THEN format('Work starts on %s at %s.', to_char(v_job.preferred_date, 'Mon DD'), v_job.location)
+      END,
+      v_job.id
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    VALUES (
+      NEW.worker_id,
+      'application_rejected',
+      format('Your application for "%s" was not accepted', v_job.title),
+      NULLIF(current_setting('app.rejection_message', true), ''),
+      v_job.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_application_change
+    AFTER INSERT OR UPDATE OF status ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_application_change();
+
+CREATE OR REPLACE FUNCTION notify_job_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Soft deletes cancel the job too, but delete_job notifies on its own
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.deleted_at IS NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, job_id)
+    SELECT
+      a.worker_id,
+      'job_cancelled',
+      format('"%s" was cancelled', NEW.title),
+      NULLIF(current_setting('app.job_status_reason', true), ''),
+      NEW.id
+    FROM applications a
+    WHERE a.job_id = NEW.id AND a.status IN ('pending', 'accepted');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_job_change
+    AFTER UPDATE OF status ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_job_change();
+
+CREATE OR REPLACE FUNCTION notify_jobs_starting_tomorrow()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sent integer;
+BEGIN
+  WITH starting AS (
+    SELECT *
+    FROM jobs
+    WHERE preferred_date = CURRENT_DATE + 1
+      AND status IN ('open', 'filled')
+      AND deleted_at IS NULL
+  ),
+  recipients AS (
+    SELECT s.id AS job_id, w.worker_id AS user_id, format('Be at %s on time.', s.location) AS body
+    FROM starting s, unnest(s.accepted_worker_ids) AS w(worker_id)
+    UNION ALL
+    SELECT
+      s.id,
+      s.farmer_id,
+      format(
+        '%s of %s workers hired.',
+        COALESCE(array_length(s.accepted_worker_ids, 1), 0),
+        s.required_workers
+      )
+    FROM starting s
+  )
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT r.user_id, 'job_starting_tomorrow', format('"%s" starts tomorrow', s.title), r.body, s.id
+  FROM recipients r
+  JOIN starting s ON s.id = r.job_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM notifications n
+    WHERE n.user_id = r.user_id AND n.job_id = r.job_id AND n.type = 'job_starting_tomorrow'
+  );
+
+  GET DIAGNOSTICS v_sent = ROW_COUNT;
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION notify_jobs_starting_tomorrow() FROM PUBLIC;
+REVOKE ALL ON FUNCTION notify_jobs_starting_tomorrow() FROM anon, authenticated;
+
+SELECT cron.schedule(
+  'notify-jobs-starting-tomorrow',
+  '0 * * * *',
+  $$SELECT public.notify_jobs_starting_tomorrow()$$
+);
+
+CREATE OR REPLACE FUNCTION reject_applications(
+  p_job_id uuid,
+  p_application_ids uuid[] DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_rejected integer;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF p_application_ids IS NOT NULL AND COALESCE(array_length(p_application_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'nothing_selected');
+  END IF;
+
+  -- notify_application_change sends each worker the message
+  PERFORM set_config('app.rejection_message', COALESCE(trim(p_message), ''), true);
+
+  UPDATE applications
+  SET status = 'rejected',
+      rejected_at = now()
+  WHERE job_id = p_job_id
+    AND status = 'pending'
+    AND (p_application_ids IS NULL OR id = ANY(p_application_ids));
+
+  GET DIAGNOSTICS v_rejected = ROW_COUNT;
+
+  PERFORM set_config('app.rejection_message', '', true);
+
+  RETURN jsonb_build_object('success', true, 'rejected_count', v_rejected);
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
@@ -0,0 +1,181 @@
+/*
+  # Job chat
+
+  1. New Tables
+    - `messages`
+      - One thread per job and farmer–worker pair (`job_id`, `farmer_id`, `worker_id`)
+      - `sender_id` is always one of the two participants
+      - `is_broadcast` marks copies of a farmer's message to all hired workers
+      - `read_at` is set when the other participant opens the thread
+
+  2. New Functions
+    - `send_message(p_job_id, p_worker_id, p_body)`
+      - The farmer can write to workers who applied or were hired; workers can
+        write to the farmer of jobs they applied to or were hired for
+    - `broadcast_message(p_job_id, p_body)`
+      - Farmer only; copies the message into the thread of every hired worker
+        and sends each a `job_broadcast` notification
+    - `mark_thread_read(p_job_id, p_worker_id)`
+      - Marks the other participant's messages in a thread as read
+
+  3. Publication
+    - `messages` joins `supabase_realtime` so threads and unread counts update live
+
+  4. Security
+    - RLS: participants can read their own threads
+    - No insert or update policies; messages are only written through the
+      functions above, which check who is allowed to take part
+*/
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  farmer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  worker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 1000),
+  is_broadcast boolean NOT NULL DEFAULT false,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (sender_id IN (farmer_id, worker_id))
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages(job_id, worker_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_farmer_unread ON messages(farmer_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_messages_worker_unread ON messages(worker_id) WHERE read_at IS NULL;
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read their threads"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = farmer_id OR auth.uid() = worker_id);
+
+CREATE OR REPLACE FUNCTION send_message(p_job_id uuid, p_worker_id uuid, p_body text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_body text := trim(p_body);
+  v_message messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_job.farmer_id AND auth.uid() IS DISTINCT FROM p_worker_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_participant');
+  END IF;
+
+  IF v_body IS NULL OR v_body = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'empty_message');
+  END IF;
+
+  IF length(v_body) > 1000 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'message_too_long');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM applications
+    WHERE job_id = p_job_id AND worker_id = p_worker_id AND status IN ('pending', 'accepted')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'no_application');
+  END IF;
+
+  INSERT INTO messages (job_id, farmer_id, worker_id, sender_id, body)
+  VALUES (p_job_id, v_job.farmer_id, p_worker_id, auth.uid(), v_body)
+  RETURNING * INTO v_message;
+
+  RETURN jsonb_build_object('success', true, 'message', to_jsonb(v_message));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION broadcast_message(p_job_id uuid, p_body text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_body text := trim(p_body);
+  v_sent integer;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND OR v_job.deleted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_body IS NULL OR v_body = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'empty_message');
+  END IF;
+
+  IF length(v_body) > 1000 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'message_too_long');
+  END IF;
+
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'no_hired_workers');
+  END IF;
+
+  INSERT INTO messages (job_id, farmer_id, worker_id, sender_id, body, is_broadcast)
+  SELECT v_job.id, v_job.farmer_id, w.worker_id, v_job.farmer_id, v_body, true
+  FROM unnest(v_job.accepted_worker_ids) AS w(worker_id);
+
+  GET DIAGNOSTICS v_sent = ROW_COUNT;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT w.worker_id, 'job_broadcast', format('Message for everyone on "%s"', v_job.title), v_body, v_job.id
+  FROM unnest(v_job.accepted_worker_ids) AS w(worker_id);
+
+  RETURN jsonb_build_object('success', true, 'sent_count', v_sent);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_thread_read(p_job_id uuid, p_worker_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_read integer;
+BEGIN
+  UPDATE messages
+  SET read_at = now()
+  WHERE job_id = p_job_id
+    AND worker_id = p_worker_id
+    AND auth.uid() IN (farmer_id, worker_id)
+    AND sender_id IS DISTINCT FROM auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_read = ROW_COUNT;
+  RETURN jsonb_build_object('success', true, 'read_count', v_read);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION send_message(uuid, uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION broadcast_message(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION mark_thread_read(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION send_message(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION broadcast_message(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_thread_read(uuid, uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
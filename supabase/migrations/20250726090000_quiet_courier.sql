@@ -0,0 +1,209 @@
+/*
+  # Notification delivery outbox
+
+  1. New Tables
+    - `notification_preferences`
+      - One row per user; which channels (`email`, `sms`, `push`) to deliver on
+      - Users without a row get email only
+    - `outbox`
+      - One row per notification and delivery channel, waiting to be sent
+      - `template` names the event (`welcome`, `new_applicant`, ...) and
+        `payload` carries what the template needs
+      - `recipient` is the email address or phone number; push rows leave it
+        empty and the push channel looks up the user's devices
+      - `status` moves from `pending` to `sent`, or to `failed` after 5 attempts
+
+  2. New Functions
+    - `enqueue_notification_delivery()` trigger on `notifications`
+      - Queues every new notification on each channel the user has enabled
+    - `enqueue_welcome()` trigger on `profiles`
+      - Queues the welcome message for new accounts
+    - `claim_outbox(p_limit)`
+      - Hands out due pending rows and leases them for 5 minutes, so parallel
+        dispatchers do not send the same message twice
+    - `complete_outbox(p_id, p_error)`
+      - Marks a claimed row sent, or schedules a retry with a growing delay
+
+  3. Security
+    - Users can read and change their own preferences
+    - `outbox` has RLS enabled and no policies; only the dispatcher, running
+      with the service role, can read it or call the outbox functions
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  email boolean NOT NULL DEFAULT true,
+  sms boolean NOT NULL DEFAULT false,
+  push boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms', 'push')),
+  template text NOT NULL,
+  recipient text,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz DEFAULT now() NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION enqueue_notification_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_preferences notification_preferences%ROWTYPE;
+  v_email text;
+  v_payload jsonb;
+BEGIN
+  SELECT * INTO v_profile FROM profiles WHERE id = NEW.user_id;
+  SELECT * INTO v_preferences FROM notification_preferences WHERE user_id = NEW.user_id;
+  SELECT email INTO v_email FROM auth.users WHERE id = NEW.user_id;
+
+  v_payload := jsonb_build_object(
+    'name', v_profile.name,
+    'title', NEW.title,
+    'body', NEW.body,
+    'job_id', NEW.job_id
+  );
+
+  IF COALESCE(v_preferences.email, true) AND v_email IS NOT NULL THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, recipient, payload)
+    VALUES (NEW.user_id, NEW.id, 'email', NEW.type, v_email, v_payload);
+  END IF;
+
+  IF COALESCE(v_preferences.sms, false) AND v_profile.contact_number IS NOT NULL THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, recipient, payload)
+    VALUES (NEW.user_id, NEW.id, 'sms', NEW.type, v_profile.contact_number, v_payload);
+  END IF;
+
+  IF COALESCE(v_preferences.push, false) THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, payload)
+    VALUES (NEW.user_id, NEW.id, 'push', NEW.type, v_payload);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_notification_delivery
+    AFTER INSERT ON notifications
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_notification_delivery();
+
+CREATE OR REPLACE FUNCTION enqueue_welcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = NEW.id;
+
+  IF v_email IS NOT NULL THEN
+    INSERT INTO outbox (user_id, channel, template, recipient, payload)
+    VALUES (NEW.id, 'email', 'welcome', v_email, jsonb_build_object('name', NEW.name));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_welcome
+    AFTER INSERT ON profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_welcome();
+
+CREATE OR REPLACE FUNCTION claim_outbox(p_limit integer DEFAULT 20)
+RETURNS SETOF outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE outbox
+  SET attempts = attempts + 1,
+      next_attempt_at = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id FROM outbox
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_outbox(p_id uuid, p_error text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE outbox
+    SET status = 'sent',
+        sent_at = now(),
+        last_error = NULL
+    WHERE id = p_id;
+  ELSE
+    -- Retry after 5, 10, 15, ... minutes; give up after the fifth attempt
+    UPDATE outbox
+    SET status = CASE WHEN attempts >= 5 THEN 'failed' ELSE 'pending' END,
+        last_error = p_error,
+        next_attempt_at = now() + attempts * interval '5 minutes'
+    WHERE id = p_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_outbox(integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_outbox(integer) FROM anon, authenticated;
+REVOKE ALL ON FUNCTION complete_outbox(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION complete_outbox(uuid, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_outbox(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_outbox(uuid, text) TO service_role;
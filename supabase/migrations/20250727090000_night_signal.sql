@@ -0,0 +1,125 @@
+/*
+  # Web push subscriptions
+
+  1. New Tables
+    - `push_subscriptions`
+      - One row per browser or device, identified by its push service `endpoint`
+      - `p256dh` and `auth` are the keys the payload is encrypted with
+
+  2. New Functions
+    - `save_push_subscription(p_endpoint, p_p256dh, p_auth, p_user_agent)`
+      - Registers the caller's device; a device that was registered by
+        someone else (shared phone, new login) moves to the caller
+
+  3. Changed Functions
+    - `enqueue_notification_delivery()` adds the recipient's `user_type` to the
+      payload so the push channel can link to the right screen
+
+  4. Security
+    - Users can read and remove their own subscriptions
+    - Inserts go through `save_push_subscription` only
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+  ON push_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_signed_in');
+  END IF;
+
+  IF COALESCE(trim(p_endpoint), '') = '' OR COALESCE(p_p256dh, '') = '' OR COALESCE(p_auth, '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_subscription');
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_push_subscription(text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_push_subscription(text, text, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enqueue_notification_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_preferences notification_preferences%ROWTYPE;
+  v_email text;
+  v_payload jsonb;
+BEGIN
+  SELECT * INTO v_profile FROM profiles WHERE id = NEW.user_id;
+  SELECT * INTO v_preferences FROM notification_preferences WHERE user_id = NEW.user_id;
+  SELECT email INTO v_email FROM auth.users WHERE id = NEW.user_id;
+
+  v_payload := jsonb_build_object(
+    'name', v_profile.name,
+    'user_type', v_profile.user_type,
+    'title', NEW.title,
+    'body', NEW.body,
+    'job_id', NEW.job_id
+  );
+
+  IF COALESCE(v_preferences.email, true) AND v_email IS NOT NULL THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, recipient, payload)
+    VALUES (NEW.user_id, NEW.id, 'email', NEW.type, v_email, v_payload);
+  END IF;
+
+  IF COALESCE(v_preferences.sms, false) AND v_profile.contact_number IS NOT NULL THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, recipient, payload)
+    VALUES (NEW.user_id, NEW.id, 'sms', NEW.type, v_profile.contact_number, v_payload);
+  END IF;
+
+  IF COALESCE(v_preferences.push, false) THEN
+    INSERT INTO outbox (user_id, notification_id, channel, template, payload)
+    VALUES (NEW.user_id, NEW.id, 'push', NEW.type, v_payload);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,42 @@
+/*
+  # Job site and home coordinates
+
+  1. Changed Tables
+    - `jobs`
+      - `latitude` / `longitude` (numeric(9,6)) – where the work is, pinned on
+        a map when posting; optional, older jobs only have the place name
+    - `profiles`
+      - `home_latitude` / `home_longitude` (numeric(9,6)) – a worker's home,
+        used as the centre for "within N km" job searches and to rank
+        applicants by distance
+
+  2. Constraints
+    - Both coordinates of a pair are set together or not at all, and stay
+      within valid latitude and longitude ranges
+
+  3. Indexes
+    - `idx_jobs_coordinates` on jobs(latitude, longitude) for the bounding box
+      distance searches start from
+*/
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS latitude numeric(9,6);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS longitude numeric(9,6);
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_coordinates_check
+  CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_jobs_coordinates
+  ON jobs(latitude, longitude)
+  WHERE latitude IS NOT NULL AND deleted_at IS NULL;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS home_latitude numeric(9,6);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS home_longitude numeric(9,6);
+
+ALTER TABLE profiles ADD CONSTRAINT profiles_home_coordinates_check
+  CHECK (
+    (home_latitude IS NULL AND home_longitude IS NULL)
+    OR (home_latitude BETWEEN -90 AND 90 AND home_longitude BETWEEN -180 AND 180)
+  );
@@ -0,0 +1,100 @@
+/*
+  # Atomic job edits and status transitions
+
+  1. Changed Functions
+    - `transition_job_status` counts the updated rows straight after the
+      UPDATE. Resetting `app.job_status_reason` with PERFORM cleared FOUND,
+      so an unknown job, or one row level security hides from the caller,
+      came back as a NULL row instead of an error.
+
+  2. New Functions
+    - `update_job(job_id, changes, status, reason)` – applies field edits and
+      an optional status change in one UPDATE, so a refused transition leaves
+      the edits unwritten too. `changes` is a jsonb object keyed by column;
+      only `wage`, `wage_type`, `wage_unit`, `estimated_units`,
+      `required_workers` and `accepted_worker_ids` are read, and a key that
+      is present with a null value clears the column.
+
+  3. Security
+    - Both functions run as the caller, so the jobs RLS policies still decide
+      who may edit a job
+*/
+
+CREATE OR REPLACE FUNCTION transition_job_status(
+  p_job_id uuid,
+  p_status job_status_enum,
+  p_reason text DEFAULT NULL
+)
+RETURNS jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_count integer;
+BEGIN
+  PERFORM set_config('app.job_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE jobs
+  SET status = p_status
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_job(
+  p_job_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_status job_status_enum DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_count integer;
+BEGIN
+  PERFORM set_config('app.job_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE jobs
+  SET
+    wage = CASE WHEN p_changes ? 'wage' THEN (p_changes->>'wage')::numeric ELSE wage END,
+    wage_type = CASE WHEN p_changes ? 'wage_type' THEN p_changes->>'wage_type' ELSE wage_type END,
+    wage_unit = CASE WHEN p_changes ? 'wage_unit' THEN p_changes->>'wage_unit' ELSE wage_unit END,
+    estimated_units = CASE WHEN p_changes ? 'estimated_units' THEN (p_changes->>'estimated_units')::numeric ELSE estimated_units END,
+    required_workers = CASE WHEN p_changes ? 'required_workers' THEN (p_changes->>'required_workers')::integer ELSE required_workers END,
+    accepted_worker_ids = CASE
+      WHEN jsonb_typeof(p_changes->'accepted_worker_ids') = 'array' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_changes->'accepted_worker_ids'))::uuid[]
+      WHEN p_changes ? 'accepted_worker_ids' THEN '{}'::uuid[]
+      ELSE accepted_worker_ids
+    END,
+    status = COALESCE(p_status, status),
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION update_job(uuid, jsonb, job_status_enum, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION update_job(uuid, jsonb, job_status_enum, text) TO authenticated;
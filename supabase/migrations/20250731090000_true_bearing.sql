@@ -0,0 +1,149 @@
+/*
+  # Distance from the job site computed by the database
+
+  1. New Functions
+    - `distance_in_meters(lat1, lng1, lat2, lng2)` – great-circle distance
+      (haversine), the same formula as `GeoLocator.distanceInMeters`; null
+      when any coordinate is null
+
+  2. Changed Functions
+    - `check_in` and `check_out` no longer take `p_distance_m`
+      - The browser sent its own distance from the job site, so a worker
+        could report any number and stay inside the geofence
+      - `check_in_distance_m` / `check_out_distance_m` are now worked out from
+        `jobs.latitude` / `jobs.longitude` and the reported position, and
+        stay null when either is missing
+
+  3. Security
+    - Unchanged: only hired workers can record attendance
+*/
+
+CREATE OR REPLACE FUNCTION distance_in_meters(
+  p_lat1 numeric,
+  p_lng1 numeric,
+  p_lat2 numeric,
+  p_lng2 numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (
+    2 * 6371000 * asin(sqrt(LEAST(1,
+      power(sin(radians((p_lat2 - p_lat1)::double precision) / 2), 2)
+      + cos(radians(p_lat1::double precision)) * cos(radians(p_lat2::double precision))
+        * power(sin(radians((p_lng2 - p_lng1)::double precision) / 2), 2)
+    )))
+  )::numeric;
+$$;
+
+DROP FUNCTION IF EXISTS check_in(uuid, numeric, numeric, numeric, numeric, timestamptz);
+DROP FUNCTION IF EXISTS check_out(uuid, numeric, numeric, numeric, numeric, timestamptz);
+
+CREATE OR REPLACE FUNCTION check_in(
+  p_job_id uuid,
+  p_latitude numeric DEFAULT NULL,
+  p_longitude numeric DEFAULT NULL,
+  p_accuracy_m numeric DEFAULT NULL,
+  p_recorded_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_attendance attendance%ROWTYPE;
+  v_at timestamptz := LEAST(now(), GREATEST(COALESCE(p_recorded_at, now()), now() - interval '24 hours'));
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF NOT auth.uid() = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_accepted_worker');
+  END IF;
+
+  IF v_job.status <> 'in-progress' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_started');
+  END IF;
+
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = auth.uid() AND work_date = v_at::date
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_attendance.status = 'no-show' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'marked_no_show');
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_in');
+  END IF;
+
+  INSERT INTO attendance (
+    job_id, worker_id, work_date, status, check_in_at,
+    check_in_latitude, check_in_longitude, check_in_accuracy_m, check_in_distance_m
+  )
+  VALUES (
+    p_job_id, auth.uid(), v_at::date, 'checked-in', v_at,
+    p_latitude, p_longitude, p_accuracy_m,
+    round(distance_in_meters(v_job.latitude, v_job.longitude, p_latitude, p_longitude))
+  )
+  RETURNING * INTO v_attendance;
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_out(
+  p_job_id uuid,
+  p_latitude numeric DEFAULT NULL,
+  p_longitude numeric DEFAULT NULL,
+  p_accuracy_m numeric DEFAULT NULL,
+  p_recorded_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_attendance attendance%ROWTYPE;
+  v_at timestamptz := LEAST(now(), GREATEST(COALESCE(p_recorded_at, now()), now() - interval '24 hours'));
+BEGIN
+  SELECT * INTO v_attendance
+  FROM attendance
+  WHERE job_id = p_job_id AND worker_id = auth.uid() AND work_date = v_at::date
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_attendance.status = 'no-show' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_checked_in');
+  END IF;
+
+  IF v_attendance.status = 'checked-out' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_checked_out');
+  END IF;
+
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id;
+
+  UPDATE attendance
+  SET status = 'checked-out',
+      check_out_at = GREATEST(v_at, v_attendance.check_in_at),
+      check_out_latitude = p_latitude,
+      check_out_longitude = p_longitude,
+      check_out_accuracy_m = p_accuracy_m,
+      check_out_distance_m = round(distance_in_meters(v_job.latitude, v_job.longitude, p_latitude, p_longitude))
+  WHERE id = v_attendance.id
+  RETURNING * INTO v_attendance;
+
+  RETURN jsonb_build_object('success', true, 'attendance', to_jsonb(v_attendance));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_in(uuid, numeric, numeric, numeric, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_out(uuid, numeric, numeric, numeric, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION check_in(uuid, numeric, numeric, numeric, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_out(uuid, numeric, numeric, numeric, timestamptz) TO authenticated;
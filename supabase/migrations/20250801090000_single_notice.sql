@@ -0,0 +1,48 @@
+/*
+  # Notify workers once per locked pay statement
+
+  1. Changed Functions
+    - `lock_job_statements` only sends `statement_ready` for statements this
+      run actually wrote. A job that goes completed → disputed → completed
+      keeps its existing statements, and those workers were being told
+      about them again on every return to completed.
+    - The notification body puts a space after "NPR." like the rest of the
+      app does
+*/
+
+CREATE OR REPLACE FUNCTION lock_job_statements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH locked AS (
+    INSERT INTO job_statements (
+      job_id, worker_id, wage_type, rate, quantity, quantity_unit, quantity_source,
+      base_amount, bonus_total, deduction_total, advance_total, net_amount, adjustments
+    )
+    SELECT
+      NEW.id, p.worker_id, p.wage_type, p.rate, p.quantity, p.quantity_unit, p.quantity_source,
+      p.base_amount, p.bonus_total, p.deduction_total, p.advance_total, p.net_amount,
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('kind', pa.kind, 'amount', pa.amount, 'note', pa.note) ORDER BY pa.created_at)
+        FROM payroll_adjustments pa
+        WHERE pa.job_id = NEW.id AND pa.worker_id = p.worker_id
+      ), '[]')
+    FROM compute_job_payroll(NEW.id) p
+    ON CONFLICT (job_id, worker_id) DO NOTHING
+    RETURNING worker_id, net_amount
+  )
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  SELECT
+    locked.worker_id,
+    'statement_ready',
+    'Pay statement ready: ' || NEW.title,
+    'You are owed NPR. ' || locked.net_amount || ' for this job.',
+    NEW.id
+  FROM locked;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,128 @@
+/*
+  # Payment disputes are raised once
+
+  1. Changed Functions
+    - `dispute_payment` refuses payments that are already disputed with
+      `already_disputed`, instead of overwriting the first reason and
+      notifying the farmer again
+    - `record_payment` and `dispute_payment` put a space after "NPR." in
+      their notifications
+
+  2. Error codes
+    - New: `already_disputed`
+*/
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_statement_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_statement job_statements%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_paid numeric;
+  v_payment payments%ROWTYPE;
+BEGIN
+  -- Lock the statement so two payments recorded at once cannot overpay it
+  SELECT * INTO v_statement FROM job_statements WHERE id = p_statement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'statement_not_found');
+  END IF;
+
+  SELECT * INTO v_job FROM jobs WHERE id = v_statement.job_id;
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_method NOT IN ('cash', 'bank', 'esewa', 'khalti', 'other') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_amount');
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_paid
+  FROM payments
+  WHERE statement_id = p_statement_id AND status <> 'disputed';
+
+  IF v_paid + p_amount > v_statement.net_amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'exceeds_balance');
+  END IF;
+
+  INSERT INTO payments (statement_id, job_id, farmer_id, worker_id, amount, method, reference, note)
+  VALUES (
+    p_statement_id, v_statement.job_id, v_job.farmer_id, v_statement.worker_id,
+    p_amount, p_method, NULLIF(trim(p_reference), ''), NULLIF(trim(p_note), '')
+  )
+  RETURNING * INTO v_payment;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_statement.worker_id,
+    'payment_recorded',
+    'Payment recorded: ' || v_job.title,
+    v_job.farmer_name || ' says they paid you NPR. ' || p_amount || '. Please confirm you received it.',
+    v_job.id
+  );
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dispute_payment(p_payment_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_job_title text;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'payment_not_found');
+  END IF;
+
+  IF v_payment.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_payee');
+  END IF;
+
+  IF v_payment.status = 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_confirmed');
+  END IF;
+
+  -- A second dispute would overwrite the first reason and notify the farmer again
+  IF v_payment.status = 'disputed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_disputed');
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'reason_required');
+  END IF;
+
+  UPDATE payments
+  SET status = 'disputed',
+      disputed_at = now(),
+      dispute_reason = trim(p_reason)
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  SELECT title INTO v_job_title FROM jobs WHERE id = v_payment.job_id;
+
+  INSERT INTO notifications (user_id, type, title, body, job_id)
+  VALUES (
+    v_payment.farmer_id,
+    'payment_disputed',
+    'Payment disputed: ' || v_job_title,
+    'A worker says they did not receive NPR. ' || v_payment.amount || ': ' || trim(p_reason),
+    v_payment.job_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
@@ -0,0 +1,87 @@
+/*
+  # Distance searches sorted and paged by the database
+
+  1. New Functions
+    - `search_nearby_jobs(...)` – jobs pinned within `p_radius_m` of a point,
+      nearest first, with the same filters as the regular job search
+      - Returns `job` (the jobs row) and `distance_m` (double precision)
+      - Ordered by (distance_m, id); pass the last row's pair back as
+        `p_after_distance` / `p_after_id` for the next page
+      - Narrows to a latitude/longitude box first so `idx_jobs_coordinates`
+        is used, then cuts the exact circle with `distance_in_meters`
+      - Replaces fetching up to 200 rows in the box and sorting them in the
+        browser, which dropped whatever lay past the 200th row
+
+  2. Security
+    - Runs with the caller's permissions, so the jobs RLS policies apply as
+      they do to the regular search
+*/
+
+CREATE OR REPLACE FUNCTION search_nearby_jobs(
+  p_latitude numeric,
+  p_longitude numeric,
+  p_radius_m numeric,
+  p_statuses text[] DEFAULT NULL,
+  p_farmer_id uuid DEFAULT NULL,
+  p_min_wage numeric DEFAULT NULL,
+  p_max_wage numeric DEFAULT NULL,
+  p_duration_type text DEFAULT NULL,
+  p_wage_type text DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_search_term text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_after_distance double precision DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (job jobs, distance_m double precision)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    -- Longitude degrees shrink towards the poles; near them the box spans every longitude
+    SELECT
+      degrees(p_radius_m::double precision / 6371000) AS lat_delta,
+      CASE
+        WHEN cos(radians(p_latitude::double precision)) > 0.01
+          THEN LEAST(degrees(p_radius_m::double precision / (6371000 * cos(radians(p_latitude::double precision)))), 180)
+        ELSE 180
+      END AS lng_delta
+  ),
+  candidates AS (
+    SELECT
+      j AS job,
+      j.id,
+      distance_in_meters(p_latitude, p_longitude, j.latitude, j.longitude)::double precision AS distance_m
+    FROM jobs j, bounds b
+    WHERE j.deleted_at IS NULL
+      AND j.latitude IS NOT NULL
+      AND j.latitude BETWEEN p_latitude - b.lat_delta AND p_latitude + b.lat_delta
+      AND j.longitude BETWEEN p_longitude - b.lng_delta AND p_longitude + b.lng_delta
+      AND (p_statuses IS NULL OR j.status::text = ANY (p_statuses))
+      AND (p_farmer_id IS NULL OR j.farmer_id = p_farmer_id)
+      AND (p_min_wage IS NULL OR j.wage >= p_min_wage)
+      AND (p_max_wage IS NULL OR j.wage <= p_max_wage)
+      AND (p_duration_type IS NULL OR j.duration_type::text = p_duration_type)
+      AND (p_wage_type IS NULL OR j.wage_type = p_wage_type)
+      AND (p_location IS NULL OR j.location ILIKE '%' || p_location || '%')
+      AND (
+        p_search_term IS NULL
+        OR j.title ILIKE '%' || p_search_term || '%'
+        OR j.description ILIKE '%' || p_search_term || '%'
+        OR j.location ILIKE '%' || p_search_term || '%'
+      )
+      AND (p_date_from IS NULL OR j.preferred_date >= p_date_from)
+      AND (p_date_to IS NULL OR j.preferred_date <= p_date_to)
+  )
+  SELECT c.job, c.distance_m
+  FROM candidates c
+  WHERE c.distance_m <= p_radius_m
+    AND (p_after_distance IS NULL OR (c.distance_m, c.id) > (p_after_distance, p_after_id))
+  ORDER BY c.distance_m, c.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+REVOKE ALL ON FUNCTION search_nearby_jobs(numeric, numeric, numeric, text[], uuid, numeric, numeric, text, text, text, text, date, date, double precision, uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_nearby_jobs(numeric, numeric, numeric, text[], uuid, numeric, numeric, text, text, text, text, date, date, double precision, uuid, integer) TO authenticated;
@@ -0,0 +1,116 @@
+/*
+  # Offline check-ins wait for the farmer before they are paid
+
+  1. Changed Functions
+    - `compute_job_payroll` leaves out attendance whose check-in reached the
+      server 5 minutes or more after its recorded time, until the farmer
+      confirms or corrects it
+      - `check_in` accepts a recorded time up to 24 hours old for entries
+        queued without signal. Payroll counted those straight away, so a
+        worker calling `check_in` directly could backdate a start and be paid
+        for the hours without anyone reviewing them.
+      - Entries taken live, and entries from before the received time was
+        stored, count as before
+      - The roster shows the same 5 minute gap as "sent offline"
+*/
+
+CREATE OR REPLACE FUNCTION compute_job_payroll(p_job_id uuid)
+RETURNS TABLE (
+  worker_id uuid,
+  wage_type text,
+  rate numeric,
+  quantity numeric,
+  quantity_unit text,
+  quantity_source text,
+  base_amount numeric,
+  bonus_total numeric,
+  deduction_total numeric,
+  advance_total numeric,
+  net_amount numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH job AS (
+    SELECT
+      j.*,
+      CASE j.duration_type WHEN 'hours' THEN j.duration ELSE j.duration * 8 END AS planned_hours,
+      CASE j.duration_type WHEN 'days' THEN j.duration ELSE ceil(j.duration / 8.0) END AS planned_days,
+      EXISTS (SELECT 1 FROM attendance a WHERE a.job_id = j.id) AS uses_attendance
+    FROM jobs j
+    WHERE j.id = p_job_id
+  ),
+  workers AS (
+    SELECT job.*, w.worker_id
+    FROM job, unnest(COALESCE(job.accepted_worker_ids, '{}')) AS w(worker_id)
+  ),
+  lines AS (
+    SELECT
+      w.worker_id,
+      w.wage_type,
+      COALESCE(app.agreed_wage, w.wage) AS rate,
+      CASE w.wage_type
+        WHEN 'per-hour' THEN COALESCE(ts.hours_worked, CASE WHEN w.uses_attendance THEN att.hours ELSE w.planned_hours END)
+        WHEN 'per-day' THEN COALESCE(ts.days_worked, CASE WHEN w.uses_attendance THEN att.days ELSE w.planned_days END)
+        WHEN 'lump-sum' THEN 1
+        ELSE COALESCE(ts.units_completed, w.estimated_units, 0)
+      END AS quantity,
+      CASE w.wage_type
+        WHEN 'per-hour' THEN 'hour'
+        WHEN 'per-day' THEN 'day'
+        WHEN 'lump-sum' THEN 'job'
+        ELSE COALESCE(w.wage_unit, 'unit')
+      END AS quantity_unit,
+      CASE
+        WHEN w.wage_type = 'lump-sum' THEN 'planned'
+        WHEN w.wage_type = 'per-hour' AND ts.hours_worked IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type = 'per-day' AND ts.days_worked IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type = 'per-unit' AND ts.units_completed IS NOT NULL THEN 'timesheet'
+        WHEN w.wage_type IN ('per-hour', 'per-day') AND w.uses_attendance THEN 'attendance'
+        ELSE 'planned'
+      END AS quantity_source,
+      COALESCE(adj.bonus_total, 0) AS bonus_total,
+      COALESCE(adj.deduction_total, 0) AS deduction_total,
+      COALESCE(adj.advance_total, 0) AS advance_total
+    FROM workers w
+    LEFT JOIN applications app
+      ON app.job_id = w.id AND app.worker_id = w.worker_id AND app.status = 'accepted'
+    LEFT JOIN timesheets ts
+      ON ts.job_id = w.id AND ts.worker_id = w.worker_id
+    LEFT JOIN LATERAL (
+      SELECT
+        round(COALESCE(sum(extract(epoch FROM (a.check_out_at - a.check_in_at)) / 3600), 0)::numeric, 2) AS hours,
+        count(*)::numeric AS days
+      FROM attendance a
+      WHERE a.job_id = w.id AND a.worker_id = w.worker_id AND a.status <> 'no-show'
+        -- Check-ins sent late from the offline queue wait for the farmer's confirmation
+        AND (
+          a.confirmed_at IS NOT NULL
+          OR a.check_in_received_at IS NULL
+          OR a.check_in_received_at - a.check_in_at < interval '5 minutes'
+        )
+    ) att ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        sum(pa.amount) FILTER (WHERE pa.kind = 'bonus') AS bonus_total,
+        sum(pa.amount) FILTER (WHERE pa.kind = 'deduction') AS deduction_total,
+        sum(pa.amount) FILTER (WHERE pa.kind = 'advance') AS advance_total
+      FROM payroll_adjustments pa
+      WHERE pa.job_id = w.id AND pa.worker_id = w.worker_id
+    ) adj ON true
+  )
+  SELECT
+    l.worker_id,
+    l.wage_type,
+    l.rate,
+    l.quantity,
+    l.quantity_unit,
+    l.quantity_source,
+    round(l.rate * l.quantity, 2) AS base_amount,
+    l.bonus_total,
+    l.deduction_total,
+    l.advance_total,
+    round(l.rate * l.quantity, 2) + l.bonus_total - l.deduction_total - l.advance_total AS net_amount
+  FROM lines l;
+$$;
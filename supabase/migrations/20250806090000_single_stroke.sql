@@ -0,0 +1,76 @@
+/*
+  # Wage raises saved with the rest of a job edit
+
+  1. Changed Functions
+    - `update_job` takes `p_new_wage` and raises the wage through
+      `raise_job_wage` in the same transaction as the other edits
+      - The raise used to be its own call before `update_job`, so when the
+        edit or status change was then refused, the higher wage and the
+        notifications to applicants had already gone out
+      - Returns `{ success: true, job, notified }`, or the
+        `raise_job_wage` error (`{ success: false, error: <code> }`) with
+        nothing written
+      - A refused status change or other edit still raises an exception,
+        which now also undoes the raise and its notifications
+*/
+
+DROP FUNCTION IF EXISTS update_job(uuid, jsonb, job_status_enum, text);
+
+CREATE OR REPLACE FUNCTION update_job(
+  p_job_id uuid,
+  p_changes jsonb DEFAULT '{}'::jsonb,
+  p_status job_status_enum DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_new_wage numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_count integer;
+  v_raise jsonb;
+  v_notified integer := 0;
+BEGIN
+  IF p_new_wage IS NOT NULL THEN
+    v_raise := raise_job_wage(p_job_id, p_new_wage);
+    IF NOT (v_raise->>'success')::boolean THEN
+      RETURN v_raise;
+    END IF;
+    v_notified := (v_raise->>'notified')::integer;
+  END IF;
+
+  PERFORM set_config('app.job_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE jobs
+  SET
+    wage = CASE WHEN p_changes ? 'wage' THEN (p_changes->>'wage')::numeric ELSE wage END,
+    wage_type = CASE WHEN p_changes ? 'wage_type' THEN p_changes->>'wage_type' ELSE wage_type END,
+    wage_unit = CASE WHEN p_changes ? 'wage_unit' THEN p_changes->>'wage_unit' ELSE wage_unit END,
+    estimated_units = CASE WHEN p_changes ? 'estimated_units' THEN (p_changes->>'estimated_units')::numeric ELSE estimated_units END,
+    required_workers = CASE WHEN p_changes ? 'required_workers' THEN (p_changes->>'required_workers')::integer ELSE required_workers END,
+    accepted_worker_ids = CASE
+      WHEN jsonb_typeof(p_changes->'accepted_worker_ids') = 'array' THEN
+        ARRAY(SELECT jsonb_array_elements_text(p_changes->'accepted_worker_ids'))::uuid[]
+      WHEN p_changes ? 'accepted_worker_ids' THEN '{}'::uuid[]
+      ELSE accepted_worker_ids
+    END,
+    status = COALESCE(p_status, status),
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job), 'notified', v_notified);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION update_job(uuid, jsonb, job_status_enum, text, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION update_job(uuid, jsonb, job_status_enum, text, numeric) TO authenticated;
@@ -0,0 +1,195 @@
+/*
+  # Accepting applicants leaves waitlist offers their places
+
+  1. Changed Functions
+    - `accept_application` and `accept_applications` count places held by
+      a live waitlist offer as taken, the way `fill_from_waitlist` does
+      - They used to count only accepted workers, so a farmer could hire
+        into a place that had just been offered to a waitlisted worker,
+        and the worker's confirmation then failed with `job_full`
+      - An applicant's own offer does not count against them, so offered
+        applicants can still be accepted directly
+      - Refused with `job_full` and `not_enough_positions` (with
+        `remaining`) as before
+*/
+
+CREATE OR REPLACE FUNCTION accept_application(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application applications%ROWTYPE;
+  v_job jobs%ROWTYPE;
+  v_accepted uuid[];
+BEGIN
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  -- Lock the job first so two farmers' tabs cannot both take the last slot
+  SELECT * INTO v_job FROM jobs WHERE id = v_application.job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  -- Re-read the application under lock now that the job is held
+  SELECT * INTO v_application FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF v_application.status = 'accepted'
+     OR v_application.worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF v_application.proposal_status = 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'wage_proposal_pending');
+  END IF;
+
+  -- Places held by a live waitlist offer are taken too, unless the offer is this applicant's
+  IF COALESCE(array_length(v_job.accepted_worker_ids, 1), 0)
+     + (
+       SELECT count(*)::integer FROM applications
+       WHERE job_id = v_job.id AND status = 'pending' AND offer_expires_at > now() AND id <> p_application_id
+     ) >= v_job.required_workers THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_full');
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = p_application_id;
+
+  v_accepted := array_append(COALESCE(v_job.accepted_worker_ids, '{}'), v_application.worker_id);
+
+  PERFORM set_config('app.job_status_reason', format('%s accepted', v_application.worker_name), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = v_accepted
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object('success', true, 'job', to_jsonb(v_job));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_applications(p_job_id uuid, p_application_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_application_ids, '{}')));
+  v_found integer;
+  v_remaining integer;
+  v_worker_ids uuid[];
+BEGIN
+  IF COALESCE(array_length(v_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'nothing_selected');
+  END IF;
+
+  -- Same lock order as accept_application: job first, then the applications
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_not_found');
+  END IF;
+
+  IF v_job.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_job_owner');
+  END IF;
+
+  IF v_job.status NOT IN ('open', 'filled', 'in-progress') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'job_closed');
+  END IF;
+
+  PERFORM 1 FROM applications
+  WHERE id = ANY(v_ids) AND job_id = p_job_id
+  ORDER BY id
+  FOR UPDATE;
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  IF v_found <> array_length(v_ids, 1) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_found');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE id = ANY(v_ids)
+      AND (status = 'accepted' OR worker_id = ANY(COALESCE(v_job.accepted_worker_ids, '{}')))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_accepted');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM applications WHERE id = ANY(v_ids) AND status <> 'pending') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'application_not_pending');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM applications WHERE id = ANY(v_ids) AND proposal_status = 'pending') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'wage_proposal_pending');
+  END IF;
+
+  -- Places held by a live waitlist offer are taken too, unless the offer is in the selection
+  v_remaining := v_job.required_workers
+    - COALESCE(array_length(v_job.accepted_worker_ids, 1), 0)
+    - (
+      SELECT count(*)::integer FROM applications
+      WHERE job_id = p_job_id AND status = 'pending' AND offer_expires_at > now() AND NOT id = ANY(v_ids)
+    );
+  IF array_length(v_ids, 1) > v_remaining THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'not_enough_positions',
+      'remaining', greatest(v_remaining, 0)
+    );
+  END IF;
+
+  UPDATE applications
+  SET status = 'accepted',
+      rejected_at = NULL
+  WHERE id = ANY(v_ids);
+
+  SELECT array_agg(worker_id ORDER BY applied_at) INTO v_worker_ids
+  FROM applications
+  WHERE id = ANY(v_ids);
+
+  PERFORM set_config('app.job_status_reason', format('%s workers accepted', array_length(v_ids, 1)), true);
+
+  -- apply_job_status_rules recomputes the status from the new worker list
+  UPDATE jobs
+  SET accepted_worker_ids = COALESCE(accepted_worker_ids, '{}') || v_worker_ids
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  PERFORM set_config('app.job_status_reason', '', true);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'job', to_jsonb(v_job),
+    'accepted_count', array_length(v_ids, 1)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION accept_application(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_application(uuid) TO authenticated;
+
+REVOKE ALL ON FUNCTION accept_applications(uuid, uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_applications(uuid, uuid[]) TO authenticated;
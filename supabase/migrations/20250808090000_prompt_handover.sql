@@ -0,0 +1,50 @@
+/*
+  # Expired waitlist offers passed on straight away
+
+  1. Changed Functions
+    - `refresh_job_statuses` calls `fill_from_waitlist` for every job with
+      an expired offer, even while other offers on the job are still live
+      - It used to wait until no offer was live, so the place behind an
+        expired offer stayed unoffered for up to 12 hours when two places
+        had been offered at different times
+      - `fill_from_waitlist` already leaves places held by live offers
+        alone, so only the lapsed places are offered again
+*/
+
+CREATE OR REPLACE FUNCTION refresh_job_statuses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  -- Pass places whose offer ran out to the next on the waitlist, or reopen the job
+  PERFORM fill_from_waitlist(j.id)
+  FROM jobs j
+  WHERE j.status IN ('filled', 'in-progress')
+    AND EXISTS (
+      SELECT 1 FROM applications a
+      WHERE a.job_id = j.id AND a.status = 'pending' AND a.offer_expires_at <= now()
+    );
+
+  UPDATE jobs
+  SET status = compute_job_status(
+    status,
+    COALESCE(array_length(accepted_worker_ids, 1), 0),
+    required_workers,
+    preferred_date
+  )
+  WHERE status IN ('open', 'filled')
+    AND status IS DISTINCT FROM compute_job_status(
+      status,
+      COALESCE(array_length(accepted_worker_ids, 1), 0),
+      required_workers,
+      preferred_date
+    );
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
@@ -0,0 +1,61 @@
+/*
+  # Confirming a disputed payment cannot overpay the statement
+
+  1. Changed Functions
+    - `confirm_payment` locks the pay statement, as `record_payment` does,
+      and refuses with `exceeds_balance` when confirming a disputed payment
+      would take the amount paid past the statement's net amount
+      - Disputed payments stop counting towards the amount paid, so the
+        farmer may have recorded a replacement since; confirming the
+        disputed one as well used to count both
+      - Payments that were never disputed already count, so they are
+        confirmed as before
+*/
+
+CREATE OR REPLACE FUNCTION confirm_payment(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_statement job_statements%ROWTYPE;
+  v_paid numeric;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'payment_not_found');
+  END IF;
+
+  IF v_payment.worker_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_payee');
+  END IF;
+
+  -- Statement first, as in record_payment, so a payment recorded meanwhile is counted
+  SELECT * INTO v_statement FROM job_statements WHERE id = v_payment.statement_id FOR UPDATE;
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.status = 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_confirmed');
+  END IF;
+
+  IF v_payment.status = 'disputed' THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_paid
+    FROM payments
+    WHERE statement_id = v_payment.statement_id AND status <> 'disputed';
+
+    IF v_paid + v_payment.amount > v_statement.net_amount THEN
+      RETURN jsonb_build_object('success', false, 'error', 'exceeds_balance');
+    END IF;
+  END IF;
+
+  UPDATE payments
+  SET status = 'confirmed',
+      confirmed_at = now()
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  RETURN jsonb_build_object('success', true, 'payment', to_jsonb(v_payment));
+END;
+$$;
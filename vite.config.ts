@@ -7,6 +7,10 @@ export default defineConfig({
     react(),
     VitePWA({
       registerType: 'autoUpdate',
+      // Custom worker so it can handle push; precaching is kept inside it
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
       includeAssets: ['icon-192x192.png', 'icon-512x512.png'],
       manifest: {
         name: 'Kheticulture',